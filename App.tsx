@@ -11,6 +11,8 @@
  * Responsibilities:
  * --------------------------------------------------------------------
  * ✔ Provide global theme state (ThemeProvider)
+ * ✔ Provide the preferred currency + exchange rates (CurrencyProvider)
+ * ✔ Provide the signed-in user's profile (ProfileProvider)
  * ✔ Initialize React Navigation (NavigationContainer)
  * ✔ Mount the RootNavigator (entire app flow)
  *
@@ -28,6 +30,8 @@ import React from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import RootNavigator from './navigation/RootNavigator';
 import { ThemeProvider } from './context/ThemeContext';
+import { CurrencyProvider } from './context/CurrencyContext';
+import { ProfileProvider } from './context/ProfileContext';
 
 export default function App() {
   const linking = {
@@ -46,6 +50,7 @@ export default function App() {
         },
         Search: 'search',
         Influencer: 'influencer/:influencerId',
+        SharedCollection: 'collection/:token',
       },
     },
   };
@@ -59,20 +64,36 @@ export default function App() {
      */
     <ThemeProvider>
       {/**
-       * NavigationContainer:
+       * CurrencyProvider:
        * --------------------------------------------------------------
-       * Required by React Navigation.
-       * Manages navigation state, deep linking, and screen transitions.
+       * Preferred display currency and exchange rates, used by every
+       * price in the app via useCurrency().
        */}
-      <NavigationContainer linking={linking}>
+      <CurrencyProvider>
         {/**
-         * RootNavigator:
+         * ProfileProvider:
          * --------------------------------------------------------------
-         * Defines the complete navigation structure of the app:
-         * stacks, tabs, and screen hierarchy.
+         * The signed-in user's profile row, so edits (name, avatar...)
+         * show everywhere at once via useMyProfile().
          */}
-        <RootNavigator />
-      </NavigationContainer>
+        <ProfileProvider>
+          {/**
+           * NavigationContainer:
+           * --------------------------------------------------------------
+           * Required by React Navigation.
+           * Manages navigation state, deep linking, and screen transitions.
+           */}
+          <NavigationContainer linking={linking}>
+            {/**
+             * RootNavigator:
+             * --------------------------------------------------------------
+             * Defines the complete navigation structure of the app:
+             * stacks, tabs, and screen hierarchy.
+             */}
+            <RootNavigator />
+          </NavigationContainer>
+        </ProfileProvider>
+      </CurrencyProvider>
     </ThemeProvider>
   );
 }
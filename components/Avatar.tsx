@@ -0,0 +1,53 @@
+/**
+ * ./components/Avatar.tsx
+ *
+ * A profile picture: the uploaded image when `avatar` is a URL,
+ * otherwise the emoji itself (older profiles, DEFAULT_AVATAR).
+ *
+ * • Pass `profileId` and the signed-in user's own avatar comes from
+ *   ProfileContext, so a new picture shows everywhere right away,
+ *   even in rows that were loaded before the change
+ * • `size` is the diameter of the image / the font size of the emoji
+ */
+
+import React from 'react';
+import { Image, StyleSheet, Text } from 'react-native';
+
+import { useMyProfile } from '../context/ProfileContext';
+import { DEFAULT_AVATAR } from '../utils/videoMapper';
+
+type Props = {
+  avatar: string | null | undefined;
+  profileId?: string;
+  size: number;
+};
+
+export function isAvatarImage(avatar: string | null | undefined): avatar is string {
+  return !!avatar && /^(https?:|file:|blob:|data:)/.test(avatar);
+}
+
+export default function Avatar({ avatar, profileId, size }: Props) {
+  const { profile } = useMyProfile();
+  const value = profile && profileId === profile.id ? profile.avatar_url : avatar;
+
+  if (isAvatarImage(value)) {
+    return (
+      <Image
+        source={{ uri: value }}
+        style={[styles.image, { width: size, height: size, borderRadius: size / 2 }]}
+      />
+    );
+  }
+
+  return <Text style={{ fontSize: size }}>{value || DEFAULT_AVATAR}</Text>;
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: '#1a1a1a',
+  },
+});
@@ -0,0 +1,394 @@
+/**
+ * ./components/BookingModal.tsx
+ *
+ * Booking sheet opened by the "Book" buttons (VideoItem, WebVideoFeed,
+ * ItineraryModal footer).
+ *
+ * What this component does:
+ * ------------------------------------------------------------
+ * • Lets the user pick a start date, trip length and travellers
+ *   (steppers, no native date picker needed on web)
+ * • Shows the live price breakdown (utils/booking.ts → quoteBooking)
+ * • Confirms through bookingService.book(): order + payment
+ * • Shows the result: confirmed, or paid and awaiting confirmation
+ *   (the gateway confirms later; no retry, so nobody pays twice),
+ *   both with a link to "My orders" — or the payment / login error
+ *   with a retry
+ *
+ * Notes:
+ * • The selection resets every time the sheet opens
+ * • Videos without a usable price cannot be booked (message instead)
+ * • Totals in another currency than the preferred one also show an
+ *   estimate in the preferred currency; the charge stays in the
+ *   package's own currency
+ * • Layout is RTL-friendly (Hebrew)
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+
+import { VideoData } from '../types/video';
+import { Order } from '../types/database';
+import { RootStackParamList } from '../navigation/RootNavigator';
+import { bookingService, PaymentError, PriceChangedError } from '../services/bookingService';
+import {
+  MAX_TRAVELLERS,
+  MAX_TRIP_DAYS,
+  addDays,
+  earliestStartDate,
+  formatDateRange,
+  nightsFor,
+  orderTotal,
+  quoteBooking,
+  quoteTotal,
+  BookingQuote,
+} from '../utils/booking';
+import { convertMoney, formatMoney, formatPrice } from '../utils/money';
+import { haptics } from '../utils/haptics';
+import { useCurrency } from '../context/CurrencyContext';
+
+type Props = {
+  visible: boolean;
+  video: VideoData;
+  onClose: () => void;
+};
+
+type Phase = 'form' | 'paying' | 'confirmed' | 'error';
+
+export default function BookingModal({ visible, video, onClose }: Props) {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { currency, rates } = useCurrency();
+
+  const packageDays = video.days ?? 1;
+
+  const [startDate, setStartDate] = useState(earliestStartDate);
+  const [tripDays, setTripDays] = useState(packageDays);
+  const [travellers, setTravellers] = useState(1);
+  const [phase, setPhase] = useState<Phase>('form');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [order, setOrder] = useState<Order | null>(null);
+
+  // Fresh selection every time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setStartDate(earliestStartDate());
+    setTripDays(packageDays);
+    setTravellers(1);
+    setPhase('form');
+    setErrorMessage('');
+    setOrder(null);
+  }, [visible, packageDays]);
+
+  const quote = useMemo(
+    () => quoteBooking(video, { startDate, tripDays, travellers }),
+    [video, startDate, tripDays, travellers]
+  );
+
+  const minStart = earliestStartDate();
+
+  const handleConfirm = async () => {
+    if (!quote) return;
+
+    haptics.light();
+    setPhase('paying');
+    try {
+      const created = await bookingService.book(video, quote);
+      setOrder(created);
+      setPhase('confirmed');
+    } catch (err) {
+      console.error('❌ Booking failed:', err);
+      setErrorMessage(
+        err instanceof PaymentError
+          ? 'התשלום נדחה. לא חויבת.'
+          : err instanceof PriceChangedError
+          ? 'המחיר השתנה. לא חויבת, פתח את ההזמנה מחדש.'
+          : err instanceof Error && err.message === 'Not authenticated'
+          ? 'יש להתחבר כדי להזמין'
+          : 'לא הצלחנו להשלים את ההזמנה. נסה שוב.'
+      );
+      setPhase('error');
+    }
+  };
+
+  const openOrders = () => {
+    onClose();
+    navigation.navigate('MainTabs', { screen: 'Profile', params: { screen: 'Orders' } });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <TouchableOpacity
+          style={StyleSheet.absoluteFill}
+          onPress={phase === 'paying' ? undefined : onClose}
+          activeOpacity={1}
+        />
+
+        <View style={styles.sheet}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title} numberOfLines={1}>
+                {video.title}
+              </Text>
+              <Text style={styles.subtitle}>
+                📍 {video.location}
+                {video.days ? ` • חבילה ל-${video.days} ימים` : ''}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={phase === 'paying'}>
+              <Ionicons name="close" size={28} color="#fff" />
+            </TouchableOpacity>
+          </View>
+
+          {phase === 'confirmed' && order ? (
+            /* ------------------------------------------------------------
+               CONFIRMED / PAID, AWAITING CONFIRMATION
+               ------------------------------------------------------------ */
+            <View style={styles.result}>
+              <Text style={styles.resultIcon}>{order.status === 'confirmed' ? '🎉' : '⏳'}</Text>
+              <Text style={styles.resultTitle}>
+                {order.status === 'confirmed' ? 'ההזמנה אושרה!' : 'התשלום התקבל, ממתין לאישור'}
+              </Text>
+              <Text style={styles.resultText}>
+                {formatDateRange(order.start_date, order.end_date)} • {order.travellers} נוסעים
+              </Text>
+              <Text style={styles.resultText}>
+                סה״כ {formatMoney(orderTotal(order))}
+              </Text>
+
+              <TouchableOpacity style={styles.primaryBtn} onPress={openOrders}>
+                <Text style={styles.primaryBtnText}>להזמנות שלי</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryBtn} onPress={onClose}>
+                <Text style={styles.secondaryBtnText}>סגור</Text>
+              </TouchableOpacity>
+            </View>
+          ) : !quote ? (
+            /* ------------------------------------------------------------
+               NOT BOOKABLE (no price)
+               ------------------------------------------------------------ */
+            <View style={styles.result}>
+              <Text style={styles.resultIcon}>🤷</Text>
+              <Text style={styles.resultTitle}>לחבילה זו אין מחיר להזמנה</Text>
+            </View>
+          ) : (
+            /* ------------------------------------------------------------
+               FORM
+               ------------------------------------------------------------ */
+            <View style={styles.form}>
+              <Stepper
+                label="תאריך יציאה"
+                value={formatDateRange(startDate, quote.endDate)}
+                onDecrease={() => setStartDate(addDays(startDate, -1))}
+                onIncrease={() => setStartDate(addDays(startDate, 1))}
+                canDecrease={startDate > minStart}
+                canIncrease
+              />
+              <Stepper
+                label="מספר ימים"
+                value={String(tripDays)}
+                onDecrease={() => setTripDays(tripDays - 1)}
+                onIncrease={() => setTripDays(tripDays + 1)}
+                canDecrease={tripDays > 1}
+                canIncrease={tripDays < MAX_TRIP_DAYS}
+              />
+              <Stepper
+                label="נוסעים"
+                value={String(travellers)}
+                onDecrease={() => setTravellers(travellers - 1)}
+                onIncrease={() => setTravellers(travellers + 1)}
+                canDecrease={travellers > 1}
+                canIncrease={travellers < MAX_TRAVELLERS}
+              />
+
+              {/* Price breakdown */}
+              <View style={styles.summary}>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{describeQuote(quote, video)}</Text>
+                  <Text style={styles.summaryValue}>{formatMoney(quoteTotal(quote))}</Text>
+                </View>
+                {quote.currency !== currency && (
+                  <Text style={styles.summaryHint}>
+                    ≈ {formatMoney(convertMoney(quoteTotal(quote), currency, rates))} · החיוב יתבצע ב-{quote.currency}
+                  </Text>
+                )}
+                {quote.basis !== 'per_night' && !!video.days && tripDays !== video.days && (
+                  <Text style={styles.summaryHint}>
+                    המחיר חושב לפי {tripDays} ימים מתוך חבילה של {video.days}
+                  </Text>
+                )}
+              </View>
+
+              {phase === 'error' && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+              <TouchableOpacity
+                style={[styles.primaryBtn, phase === 'paying' && styles.primaryBtnDisabled]}
+                onPress={handleConfirm}
+                disabled={phase === 'paying'}
+              >
+                {phase === 'paying' ? (
+                  <ActivityIndicator color="#000" />
+                ) : (
+                  <Text style={styles.primaryBtnText}>
+                    {phase === 'error' ? 'נסה שוב' : 'אישור ותשלום'} • {formatMoney(quoteTotal(quote))}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/**
+ * Left side of the price breakdown:
+ * "3,500 ₪ × 2 נוסעים" / "450 ₪ ללילה × 6 לילות" / "מחיר לחבילה (2 נוסעים)"
+ */
+function describeQuote(quote: BookingQuote, video: VideoData): string {
+  switch (quote.basis) {
+    case 'per_person':
+      return `${formatMoney({ amountMinor: quote.unitAmountMinor, currency: quote.currency })} × ${quote.travellers} נוסעים`;
+    case 'per_night':
+      return video.price
+        ? `${formatPrice(video.price)} × ${nightsFor(quote.tripDays)} לילות`
+        : `${nightsFor(quote.tripDays)} לילות`;
+    case 'per_package':
+      return `מחיר לחבילה (${quote.travellers} נוסעים)`;
+  }
+}
+
+/* =====================================================================
+   STEPPER SUB-COMPONENT
+   [-]  value  [+] with a label above
+===================================================================== */
+
+type StepperProps = {
+  label: string;
+  value: string;
+  onDecrease: () => void;
+  onIncrease: () => void;
+  canDecrease: boolean;
+  canIncrease: boolean;
+};
+
+function Stepper({ label, value, onDecrease, onIncrease, canDecrease, canIncrease }: StepperProps) {
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <View style={styles.stepperRow}>
+        <TouchableOpacity onPress={onDecrease} disabled={!canDecrease} style={styles.stepperBtn}>
+          <Ionicons name="remove" size={20} color={canDecrease ? '#fff' : '#333'} />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{value}</Text>
+        <TouchableOpacity onPress={onIncrease} disabled={!canIncrease} style={styles.stepperBtn}>
+          <Ionicons name="add" size={20} color={canIncrease ? '#fff' : '#333'} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  sheet: {
+    backgroundColor: '#000',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderTopWidth: 1,
+    borderColor: '#222',
+    paddingBottom: 24,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+    gap: 12,
+  },
+  title: { color: '#fff', fontSize: 18, fontWeight: '700', marginBottom: 4 },
+  subtitle: { color: '#888', fontSize: 14 },
+
+  form: { padding: 16, gap: 14 },
+
+  // Stepper
+  stepper: { gap: 6 },
+  stepperLabel: { color: '#888', fontSize: 13, fontWeight: '600' },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  stepperBtn: { padding: 8 },
+  stepperValue: { color: '#fff', fontSize: 16, fontWeight: '700' },
+
+  // Price breakdown
+  summary: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  summaryLabel: { color: '#ccc', fontSize: 14 },
+  summaryValue: { color: '#00D5FF', fontSize: 18, fontWeight: '800' },
+  summaryHint: { color: '#666', fontSize: 12 },
+
+  errorText: { color: '#FF3B5C', fontSize: 14, textAlign: 'center' },
+
+  // Buttons
+  primaryBtn: {
+    backgroundColor: '#00D5FF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+  },
+  primaryBtnDisabled: { opacity: 0.6 },
+  primaryBtnText: { color: '#000', fontSize: 16, fontWeight: '700' },
+  secondaryBtn: { paddingVertical: 12, alignItems: 'center', alignSelf: 'stretch' },
+  secondaryBtnText: { color: '#888', fontSize: 15, fontWeight: '600' },
+
+  // Result states
+  result: {
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    gap: 8,
+  },
+  resultIcon: { fontSize: 56 },
+  resultTitle: { color: '#fff', fontSize: 20, fontWeight: '800' },
+  resultText: { color: '#bbb', fontSize: 14, marginBottom: 4 },
+});
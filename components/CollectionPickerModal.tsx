@@ -0,0 +1,306 @@
+/**
+ * ./components/CollectionPickerModal.tsx
+ *
+ * "Save to collection" sheet, opened by a long-press on the save
+ * button (VideoItem, WebVideoFeed).
+ *
+ * What this component does:
+ * ------------------------------------------------------------
+ * • Lists the user's collections (trip boards), the ones holding
+ *   this video are checked
+ * • Tapping a collection adds the video to it / takes it out
+ *   (collectionService.setInCollection)
+ * • Creates a new collection by name and puts the video in it
+ * • Adding to a collection also saves the video (syncService), so it
+ *   shows up under "שמורים"; un-saving later removes it from its
+ *   collections on the server (supabase-add-collections.sql)
+ *
+ * Notes:
+ * • Collections reload every time the sheet opens
+ * • Toggles are optimistic and roll back when the request fails
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import {
+  collectionService,
+  CollectionSummary,
+  MAX_COLLECTION_NAME_LENGTH,
+} from '../services/collectionService';
+import { syncService } from '../services/syncService';
+import { storage } from '../utils/storage';
+import { haptics } from '../utils/haptics';
+
+type Props = {
+  visible: boolean;
+  videoId: string;
+  onClose: () => void;
+};
+
+export default function CollectionPickerModal({ visible, videoId, onClose }: Props) {
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  /**
+   * Load collections + membership whenever the sheet opens
+   */
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    setNewName('');
+
+    Promise.all([
+      collectionService.getMyCollections(),
+      collectionService.getCollectionIdsForVideo(videoId),
+    ])
+      .then(([rows, ids]) => {
+        if (cancelled) return;
+        setCollections(rows);
+        setSelected(new Set(ids));
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('❌ Loading collections failed:', err);
+        setError('לא הצלחנו לטעון את האוספים');
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, videoId]);
+
+  // A video in a collection is always saved
+  const ensureSaved = () => {
+    if (!storage.isSaved(videoId)) syncService.toggleSave(videoId);
+  };
+
+  const updateMembership = (collectionId: string, value: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (value) next.add(collectionId);
+      else next.delete(collectionId);
+      return next;
+    });
+    setCollections((prev) =>
+      prev.map((c) =>
+        c.id === collectionId ? { ...c, item_count: Math.max(c.item_count + (value ? 1 : -1), 0) } : c
+      )
+    );
+  };
+
+  const toggle = async (collectionId: string) => {
+    const value = !selected.has(collectionId);
+    setError(null);
+    updateMembership(collectionId, value);
+    if (value) ensureSaved();
+    haptics.light();
+
+    try {
+      await collectionService.setInCollection(collectionId, videoId, value);
+    } catch (err) {
+      console.error('❌ Updating collection failed:', err);
+      updateMembership(collectionId, !value);
+      setError('העדכון נכשל, נסה שוב');
+    }
+  };
+
+  const create = async () => {
+    const name = newName.trim();
+    if (!name || creating) return;
+
+    try {
+      setCreating(true);
+      setError(null);
+
+      const position = collections.reduce((max, c) => Math.max(max, c.position + 1), 0);
+      const collection = await collectionService.createCollection(name, position);
+      await collectionService.setInCollection(collection.id, videoId, true);
+      ensureSaved();
+
+      setCollections((prev) => [...prev, { ...collection, item_count: 1 }]);
+      setSelected((prev) => new Set(prev).add(collection.id));
+      setNewName('');
+      haptics.success();
+    } catch (err) {
+      console.error('❌ Creating collection failed:', err);
+      setError('לא הצלחנו ליצור את האוסף');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <TouchableOpacity style={StyleSheet.absoluteFill} onPress={onClose} activeOpacity={1} />
+
+        <View style={styles.sheet}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>שמירה לאוסף</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color="#fff" />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color="#00D5FF" />
+          ) : (
+            <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+              {collections.length === 0 && (
+                <Text style={styles.emptyText}>עוד אין לך אוספים, צור את הראשון למטה</Text>
+              )}
+
+              {collections.map((collection) => {
+                const checked = selected.has(collection.id);
+                return (
+                  <TouchableOpacity
+                    key={collection.id}
+                    style={styles.row}
+                    onPress={() => toggle(collection.id)}
+                  >
+                    <Ionicons
+                      name={checked ? 'checkbox' : 'square-outline'}
+                      size={24}
+                      color={checked ? '#00D5FF' : '#888'}
+                    />
+                    <Text style={styles.rowName} numberOfLines={1}>
+                      {collection.name}
+                    </Text>
+                    <Text style={styles.rowCount}>{collection.item_count}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {/* New collection */}
+          <View style={styles.createRow}>
+            <TextInput
+              style={styles.input}
+              value={newName}
+              onChangeText={setNewName}
+              placeholder='אוסף חדש, למשל "ירח דבש"'
+              placeholderTextColor="#666"
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              onSubmitEditing={create}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.createBtn, (!newName.trim() || creating) && styles.createBtnDisabled]}
+              onPress={create}
+              disabled={!newName.trim() || creating}
+            >
+              {creating ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Ionicons name="add" size={24} color="#000" />
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  sheet: {
+    backgroundColor: '#000',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderTopWidth: 1,
+    borderColor: '#222',
+    paddingBottom: 24,
+    maxHeight: '70%',
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  title: { color: '#fff', fontSize: 18, fontWeight: '700' },
+
+  loader: { paddingVertical: 32 },
+
+  list: { paddingHorizontal: 16 },
+  emptyText: { color: '#888', fontSize: 14, textAlign: 'center', paddingVertical: 24 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  rowName: { flex: 1, color: '#fff', fontSize: 16 },
+  rowCount: { color: '#888', fontSize: 14 },
+
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#fff',
+  },
+  createBtn: {
+    backgroundColor: '#00D5FF',
+    borderRadius: 12,
+    width: 46,
+    height: 46,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  createBtnDisabled: { opacity: 0.4 },
+});
@@ -8,17 +8,31 @@
  * Core responsibilities:
  *  ------------------------------------------------------------
  *  • Display a modal that slides from the bottom (70% of screen height)
- *  • Show all comments for a specific video (loaded from local storage)
+ *  • Show the video's comments from Supabase, page by page
+ *    (hooks/useComments.ts → services/commentService.ts)
+ *  • Show each comment's author (avatar + username)
+ *  • Sort newest / oldest first
+ *  • Reply threads (one level): collapsed "view N replies" sections,
+ *    replies paged in oldest first
+ *  • Per-comment likes with counts
+ *  • @mentions rendered as links to the mentioned InfluencerScreen
+ *  • Allow users to add comments / replies and delete their own
+ *  • Moderation ("⋯" menu on each comment):
+ *      - everyone: report (spam / abuse / hate / other)
+ *      - the video's creator: hide / show and delete any comment
+ *    Comments are checked by the comment filter before posting
+ *    (services/commentModeration.ts); rejections are explained inline
  *  • Display an "empty state" when there are no comments
- *  • Allow users to add new comments (saved immediately in storage)
  *  • Provide an input bar with keyboard-safe layout (KeyboardAvoidingView)
- *  • Show comments in a scrollable FlatList
  *  ------------------------------------------------------------
  *
  * Architecture notes:
- *  - Comments are stored locally using the custom "storage" helper
- *    (likely AsyncStorage wrapped in a utility).
- *  - Comments are NOT synced with backend yet (MVP local system).
+ *  - Nothing is fetched while the modal is closed.
+ *  - Replying pre-fills "@username " (utils/mentions.ts) so the
+ *    answer is addressed to the person who asked.
+ *  - videos.comments_count is kept by a database trigger
+ *    (supabase-add-comments.sql); onCountChange reports the live total
+ *    so the feed's comment button can follow without a refetch.
  *  - Works in both iOS and Android, with correct keyboard handling.
  *
  * Style:
@@ -27,7 +41,7 @@
  *  - Hebrew text support: RTL, strings in Hebrew
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -38,37 +52,312 @@ import {
   FlatList,
   KeyboardAvoidingView,
   Platform,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { storage } from '../utils/storage';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Comment, CommentReportReason } from '../types/database';
+import { RootStackParamList } from '../navigation/RootNavigator';
+import { authService } from '../services/authService';
+import { profileService } from '../services/profileService';
+import {
+  CommentRejectedError,
+  CommentSort,
+  MAX_COMMENT_LENGTH,
+} from '../services/commentService';
+import { useComments } from '../hooks/useComments';
+import { replyPrefix, splitMentions } from '../utils/mentions';
+import Avatar from './Avatar';
+
+/**
+ * Labels for the report reasons (order = order of the buttons).
+ */
+const REPORT_REASONS: { reason: CommentReportReason; label: string }[] = [
+  { reason: 'spam', label: 'ספאם' },
+  { reason: 'abuse', label: 'פוגעני' },
+  { reason: 'hate', label: 'שנאה' },
+  { reason: 'other', label: 'אחר' },
+];
 
 type Props = {
-  visible: boolean;      // Whether the modal is shown
-  videoId: string;       // Each video has its own comments
-  onClose: () => void;   // Called when user closes the modal
+  visible: boolean;                          // Whether the modal is shown
+  videoId: string;                           // Each video has its own comments
+  videoOwnerId?: string;                     // Creator of the video (moderation rights)
+  onClose: () => void;                       // Called when user closes the modal
+  onCountChange?: (count: number) => void;   // Live total, for the feed's counter
 };
 
-export default function CommentsModal({ visible, videoId, onClose }: Props) {
-  // Load comments when component mounts
-  const [comments, setComments] = useState(storage.getComments(videoId));
-
-  // Controlled input text
+export default function CommentsModal({
+  visible,
+  videoId,
+  videoOwnerId,
+  onClose,
+  onCountChange,
+}: Props) {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const [sort, setSort] = useState<CommentSort>('newest');
+  const {
+    comments,
+    threads,
+    likedIds,
+    total,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    loadReplies,
+    collapseReplies,
+    add,
+    remove,
+    setHidden,
+    report,
+    toggleLike,
+  } = useComments(videoId, sort, visible);
+
+  // Controlled input text + the comment being answered (if any)
   const [text, setText] = useState('');
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Comment whose "⋯" menu is open, and whether it shows report reasons
+  const [menuFor, setMenuFor] = useState<Comment | null>(null);
+  const [reporting, setReporting] = useState(false);
+
+  // Authors may delete their comments, the creator moderates all of them
+  const [userId, setUserId] = useState<string | null>(null);
+  const isCreator = !!userId && userId === videoOwnerId;
+
+  useEffect(() => {
+    if (!visible) return;
+    setActionError(null);
+    setNotice(null);
+    setMenuFor(null);
+    authService.getCurrentUser().then((user) => setUserId(user?.id ?? null));
+  }, [visible]);
+
+  useEffect(() => {
+    if (total !== null) onCountChange?.(total);
+  }, [total, onCountChange]);
+
+  const authError = (err: unknown, fallback: string) =>
+    err instanceof Error && err.message === 'Not authenticated' ? 'יש להתחבר כדי להגיב' : fallback;
 
   /**
-   * Add a new comment:
+   * Add a new comment / reply:
    * - Validate text
-   * - Save using storage helper
-   * - Update local state
+   * - Post it (shown right away by useComments)
+   * - Keep the text when posting failed, so it can be retried
    */
-  const handleAddComment = () => {
-    if (text.trim()) {
-      const newComment = storage.addComment(videoId, text.trim());
-      setComments([...comments, newComment]);
+  const handleAddComment = async () => {
+    if (!text.trim() || posting) return;
+
+    setPosting(true);
+    setActionError(null);
+    try {
+      await add(text, replyingTo);
       setText(''); // Clear text box
+      setReplyingTo(null);
+    } catch (err) {
+      if (err instanceof CommentRejectedError) {
+        setActionError(
+          err.reason === 'profanity'
+            ? 'התגובה כוללת מילים שאינן מתאימות'
+            : 'שלחת הרבה תגובות ברצף, נסה שוב בעוד רגע'
+        );
+        return;
+      }
+      console.error('❌ Adding comment failed:', err);
+      setActionError(authError(err, 'לא הצלחנו לפרסם את התגובה'));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleReply = (comment: Comment) => {
+    setReplyingTo(comment);
+    setText(replyPrefix(comment.profile?.username));
+  };
+
+  const handleCancelReply = () => {
+    setReplyingTo(null);
+    setText('');
+  };
+
+  const openMenu = (comment: Comment) => {
+    setMenuFor(comment);
+    setReporting(false);
+    setNotice(null);
+  };
+
+  const closeMenu = () => {
+    setMenuFor(null);
+    setReporting(false);
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    closeMenu();
+    setActionError(null);
+    try {
+      await remove(comment);
+      if (replyingTo?.id === comment.id) handleCancelReply();
+    } catch (err) {
+      console.error('❌ Deleting comment failed:', err);
+      setActionError('לא הצלחנו למחוק את התגובה');
+    }
+  };
+
+  const handleToggleHidden = async (comment: Comment) => {
+    closeMenu();
+    setActionError(null);
+    try {
+      await setHidden(comment, !comment.hidden);
+    } catch (err) {
+      console.error('❌ Hiding comment failed:', err);
+      setActionError('לא הצלחנו לעדכן את התגובה');
+    }
+  };
+
+  const handleReport = async (comment: Comment, reason: CommentReportReason) => {
+    closeMenu();
+    setActionError(null);
+    try {
+      await report(comment, reason);
+      setNotice('תודה, הדיווח התקבל');
+    } catch (err) {
+      console.error('❌ Reporting comment failed:', err);
+      setActionError(authError(err, 'לא הצלחנו לשלוח את הדיווח'));
+    }
+  };
+
+  const handleLike = async (comment: Comment) => {
+    setActionError(null);
+    try {
+      await toggleLike(comment);
+    } catch (err) {
+      console.error('❌ Liking comment failed:', err);
+      setActionError(authError(err, 'לא הצלחנו לשמור את הלייק'));
     }
   };
 
+  /**
+   * Open the mentioned profile (closes the sheet first).
+   */
+  const handleMention = async (username: string) => {
+    setActionError(null);
+    try {
+      const profile = await profileService.getProfileByUsername(username);
+      if (!profile) {
+        setActionError(`המשתמש @${username} לא נמצא`);
+        return;
+      }
+      onClose();
+      navigation.navigate('Influencer', { influencerId: profile.id });
+    } catch (err) {
+      console.error('❌ Opening mention failed:', err);
+      setActionError('לא הצלחנו לפתוח את הפרופיל');
+    }
+  };
+
+  const renderCommentRow = (item: Comment, isReply: boolean) => {
+    const liked = likedIds.has(item.id);
+
+    return (
+      <View style={[styles.comment, isReply && styles.reply, item.hidden && styles.hiddenComment]}>
+        <Avatar avatar={item.profile?.avatar_url} profileId={item.user_id} size={isReply ? 24 : 32} />
+
+        <View style={styles.commentContent}>
+          <Text style={styles.commentAuthor}>
+            {item.profile?.username || item.profile?.full_name || 'משתמש'}
+            {item.hidden && <Text style={styles.hiddenLabel}>  · מוסתרת</Text>}
+          </Text>
+          <Text style={styles.commentText}>
+            {splitMentions(item.text).map((segment, index) =>
+              segment.type === 'mention' ? (
+                <Text
+                  key={index}
+                  style={styles.mention}
+                  onPress={() => handleMention(segment.username)}
+                >
+                  {segment.text}
+                </Text>
+              ) : (
+                segment.text
+              )
+            )}
+          </Text>
+
+          <View style={styles.commentMeta}>
+            <Text style={styles.commentTime}>{formatTime(item.created_at)}</Text>
+            <TouchableOpacity onPress={() => handleReply(item)} hitSlop={8}>
+              <Text style={styles.metaAction}>השב</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => openMenu(item)} hitSlop={8}>
+              <Ionicons name="ellipsis-horizontal" size={16} color="#888" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Like button + count */}
+        <TouchableOpacity style={styles.likeBtn} onPress={() => handleLike(item)} hitSlop={8}>
+          <Ionicons
+            name={liked ? 'heart' : 'heart-outline'}
+            size={18}
+            color={liked ? '#FF3B5C' : '#666'}
+          />
+          {item.likes_count > 0 && <Text style={styles.likeCount}>{item.likes_count}</Text>}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  /**
+   * Top-level comment + its collapsible thread.
+   */
+  const renderComment = ({ item }: { item: Comment }) => {
+    const thread = threads[item.id];
+    const expanded = !!thread?.expanded;
+    const shown = expanded ? thread.replies.length : 0;
+    const hidden = Math.max(item.replies_count - shown, 0);
+
+    return (
+      <View>
+        {renderCommentRow(item, false)}
+
+        {expanded &&
+          thread.replies.map((reply) => (
+            <React.Fragment key={reply.id}>{renderCommentRow(reply, true)}</React.Fragment>
+          ))}
+
+        {item.replies_count > 0 && (
+          <View style={styles.threadActions}>
+            {thread?.loading ? (
+              <ActivityIndicator size="small" color="#00D5FF" />
+            ) : (
+              hidden > 0 && (
+                <TouchableOpacity onPress={() => loadReplies(item.id)}>
+                  <Text style={styles.threadToggle}>
+                    {expanded ? `הצג עוד ${hidden} תגובות` : `הצג ${hidden} תגובות`}
+                  </Text>
+                </TouchableOpacity>
+              )
+            )}
+            {expanded && (
+              <TouchableOpacity onPress={() => collapseReplies(item.id)}>
+                <Text style={styles.threadToggle}>הסתר תגובות</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const canSend = !!text.trim() && !posting;
+
   return (
     <Modal visible={visible} animationType="slide" transparent>
       {/* KeyboardAvoidingView ensures input stays above the keyboard */}
@@ -81,17 +370,31 @@ export default function CommentsModal({ visible, videoId, onClose }: Props) {
 
         {/* Main modal content */}
         <View style={styles.content}>
-          {/* Header bar */}
+          {/* Header bar: count, sort toggle, close */}
           <View style={styles.header}>
-            <Text style={styles.title}>{comments.length} תגובות</Text>
-
-            <TouchableOpacity onPress={onClose}>
-              <Ionicons name="close" size={28} color="#fff" />
-            </TouchableOpacity>
+            <Text style={styles.title}>{total ?? comments.length} תגובות</Text>
+
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                onPress={() => setSort(sort === 'newest' ? 'oldest' : 'newest')}
+              >
+                <Text style={styles.sortText}>
+                  {sort === 'newest' ? 'החדשות ביותר' : 'הישנות ביותר'}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={onClose}>
+                <Ionicons name="close" size={28} color="#fff" />
+              </TouchableOpacity>
+            </View>
           </View>
 
-          {/* If no comments → show empty state */}
-          {comments.length === 0 ? (
+          {loading ? (
+            <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+          ) : error ? (
+            <Text style={styles.errorText}>{error}</Text>
+          ) : comments.length === 0 ? (
+            // If no comments → show empty state
             <View style={styles.empty}>
               <Text style={styles.emptyIcon}>💬</Text>
               <Text style={styles.emptyText}>אין תגובות עדיין</Text>
@@ -102,44 +405,101 @@ export default function CommentsModal({ visible, videoId, onClose }: Props) {
             <FlatList
               data={comments}
               keyExtractor={(item) => item.id}
-              renderItem={({ item }) => (
-                <View style={styles.comment}>
-                  {/* Simple avatar placeholder */}
-                  <Text style={styles.commentAvatar}>👤</Text>
-
-                  <View style={styles.commentContent}>
-                    <Text style={styles.commentText}>{item.text}</Text>
-                    <Text style={styles.commentTime}>
-                      {formatTime(item.timestamp)}
-                    </Text>
+              renderItem={renderComment}
+              extraData={{ threads, likedIds, userId }}
+              onEndReached={loadMore}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#00D5FF" /> : null
+              }
+            />
+          )}
+
+          {actionError && <Text style={styles.errorText}>{actionError}</Text>}
+          {notice && <Text style={styles.noticeText}>{notice}</Text>}
+
+          {/* "⋯" menu: report / hide / delete, depending on who is looking */}
+          {menuFor && (
+            <View style={styles.menu}>
+              {reporting ? (
+                <>
+                  <Text style={styles.menuTitle}>למה לדווח על התגובה?</Text>
+                  <View style={styles.menuRow}>
+                    {REPORT_REASONS.map(({ reason, label }) => (
+                      <TouchableOpacity
+                        key={reason}
+                        style={styles.menuChip}
+                        onPress={() => handleReport(menuFor, reason)}
+                      >
+                        <Text style={styles.menuChipText}>{label}</Text>
+                      </TouchableOpacity>
+                    ))}
                   </View>
+                </>
+              ) : (
+                <View style={styles.menuRow}>
+                  {menuFor.user_id !== userId && (
+                    <TouchableOpacity style={styles.menuChip} onPress={() => setReporting(true)}>
+                      <Text style={styles.menuChipText}>דווח</Text>
+                    </TouchableOpacity>
+                  )}
+                  {isCreator && (
+                    <TouchableOpacity
+                      style={styles.menuChip}
+                      onPress={() => handleToggleHidden(menuFor)}
+                    >
+                      <Text style={styles.menuChipText}>{menuFor.hidden ? 'הצג' : 'הסתר'}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {(isCreator || menuFor.user_id === userId) && (
+                    <TouchableOpacity style={styles.menuChip} onPress={() => handleDelete(menuFor)}>
+                      <Text style={[styles.menuChipText, styles.menuDanger]}>מחק</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
               )}
-            />
+
+              <TouchableOpacity onPress={closeMenu} hitSlop={8}>
+                <Ionicons name="close" size={18} color="#888" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* "Replying to" bar */}
+          {replyingTo && (
+            <View style={styles.replyingBar}>
+              <Text style={styles.replyingText} numberOfLines={1}>
+                משיב ל-{replyingTo.profile?.username || 'תגובה'}
+              </Text>
+              <TouchableOpacity onPress={handleCancelReply} hitSlop={8}>
+                <Ionicons name="close" size={18} color="#888" />
+              </TouchableOpacity>
+            </View>
           )}
 
           {/* Input bar at bottom */}
           <View style={styles.inputContainer}>
             <TextInput
               style={styles.input}
-              placeholder="הוסף תגובה..."
+              placeholder={replyingTo ? 'כתוב תשובה...' : 'הוסף תגובה...'}
               placeholderTextColor="#666"
               value={text}
               onChangeText={setText}
+              maxLength={MAX_COMMENT_LENGTH}
               multiline
             />
 
             {/* Send button only active when text exists */}
             <TouchableOpacity
-              style={[styles.sendBtn, !text.trim() && styles.sendBtnDisabled]}
+              style={[styles.sendBtn, !canSend && styles.sendBtnDisabled]}
               onPress={handleAddComment}
-              disabled={!text.trim()}
+              disabled={!canSend}
             >
-              <Ionicons
-                name="send"
-                size={20}
-                color={text.trim() ? '#00D5FF' : '#666'}
-              />
+              {posting ? (
+                <ActivityIndicator size="small" color="#00D5FF" />
+              ) : (
+                <Ionicons name="send" size={20} color={canSend ? '#00D5FF' : '#666'} />
+              )}
             </TouchableOpacity>
           </View>
         </View>
@@ -149,15 +509,15 @@ export default function CommentsModal({ visible, videoId, onClose }: Props) {
 }
 
 /**
- * Convert timestamps into human-readable "time ago" Hebrew text.
+ * Convert an ISO timestamp into human-readable "time ago" Hebrew text.
  * Example:
  *  - עכשיו
  *  - לפני 3 דקות
  *  - לפני שעה
  *  - לפני 2 ימים
  */
-function formatTime(timestamp: number): string {
-  const diff = Date.now() - timestamp;
+function formatTime(createdAt: string): string {
+  const diff = Date.now() - Date.parse(createdAt);
 
   const minutes = Math.floor(diff / 60000);
   const hours = Math.floor(diff / 3600000);
@@ -205,6 +565,33 @@ const styles = StyleSheet.create({
     fontWeight: '700',
   },
 
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+
+  sortText: {
+    color: '#00D5FF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
+  loader: {
+    marginTop: 40,
+  },
+
+  footerLoader: {
+    paddingVertical: 16,
+  },
+
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 13,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+
   /** EMPTY STATE **/
   empty: {
     flex: 1,
@@ -237,14 +624,17 @@ const styles = StyleSheet.create({
     gap: 12,
   },
 
-  commentAvatar: {
-    fontSize: 32,
-  },
-
   commentContent: {
     flex: 1,
   },
 
+  commentAuthor: {
+    color: '#888',
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+
   commentText: {
     color: '#fff',
     fontSize: 15,
@@ -256,6 +646,131 @@ const styles = StyleSheet.create({
     fontSize: 12,
   },
 
+  commentMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+
+  metaAction: {
+    color: '#888',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+
+  mention: {
+    color: '#00D5FF',
+    fontWeight: '600',
+  },
+
+  likeBtn: {
+    alignItems: 'center',
+    paddingTop: 4,
+    minWidth: 28,
+  },
+
+  likeCount: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 2,
+  },
+
+  hiddenComment: {
+    opacity: 0.5,
+  },
+
+  hiddenLabel: {
+    color: '#FFD700',
+    fontWeight: '400',
+  },
+
+  noticeText: {
+    color: '#00D5FF',
+    fontSize: 13,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+
+  /** MODERATION MENU **/
+  menu: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#111',
+    borderTopWidth: 1,
+    borderTopColor: '#222',
+  },
+
+  menuTitle: {
+    color: '#888',
+    fontSize: 13,
+  },
+
+  menuRow: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  menuChip: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+  },
+
+  menuChipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
+  menuDanger: {
+    color: '#FF3B5C',
+  },
+
+  /** THREADS **/
+  reply: {
+    paddingLeft: 60,
+    paddingVertical: 8,
+  },
+
+  threadActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingLeft: 60,
+    paddingBottom: 8,
+  },
+
+  threadToggle: {
+    color: '#888',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
+  replyingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#111',
+    borderTopWidth: 1,
+    borderTopColor: '#222',
+  },
+
+  replyingText: {
+    color: '#888',
+    fontSize: 13,
+    flex: 1,
+  },
+
   /** INPUT BAR **/
   inputContainer: {
     flexDirection: 'row',
@@ -0,0 +1,191 @@
+/**
+ * ./components/DateRangePicker.tsx
+ *
+ * Range of calendar days for the creator dashboard.
+ *
+ * • Presets: last 7 / 30 / 90 days (ending today)
+ * • Custom: "from" and "to" steppers, one day per tap
+ *   (no native date picker needed on web, like BookingModal)
+ * • Keeps the range valid: from ≤ to ≤ today, at most maxDays long
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { DateRange } from '../services/analyticsService';
+import { addDays, toISODate } from '../utils/booking';
+
+type Props = {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  maxDays: number;
+};
+
+const PRESETS = [7, 30, 90];
+
+/**
+ * Last `days` days, today included.
+ */
+export function lastDays(days: number, today = toISODate(new Date())): DateRange {
+  return { from: addDays(today, -(days - 1)), to: today };
+}
+
+// "31/12/2025"
+function formatDay(iso: string): string {
+  const [y, m, d] = iso.split('-');
+  return `${d}/${m}/${y}`;
+}
+
+export default function DateRangePicker({ value, onChange, maxDays }: Props) {
+  const today = toISODate(new Date());
+  const { from, to } = value;
+
+  // Earliest "from" that keeps the range within maxDays
+  const minFrom = addDays(to, -(maxDays - 1));
+
+  return (
+    <View style={styles.container}>
+      {/* Presets */}
+      <View style={styles.presets}>
+        {PRESETS.map((days) => {
+          const preset = lastDays(days, today);
+          const active = preset.from === from && preset.to === to;
+
+          return (
+            <TouchableOpacity
+              key={days}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange(preset)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{days} ימים</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Custom range */}
+      <View style={styles.steppers}>
+        <DayStepper
+          label="מתאריך"
+          value={formatDay(from)}
+          onDecrease={() => onChange({ from: addDays(from, -1), to })}
+          onIncrease={() => onChange({ from: addDays(from, 1), to })}
+          canDecrease={from > minFrom}
+          canIncrease={from < to}
+        />
+        <DayStepper
+          label="עד תאריך"
+          value={formatDay(to)}
+          onDecrease={() => onChange({ from, to: addDays(to, -1) })}
+          onIncrease={() => {
+            const next = addDays(to, 1);
+            // Moving the end forward drags the start along past maxDays
+            const earliest = addDays(next, -(maxDays - 1));
+            onChange({ from: from < earliest ? earliest : from, to: next });
+          }}
+          canDecrease={to > from}
+          canIncrease={to < today}
+        />
+      </View>
+    </View>
+  );
+}
+
+type DayStepperProps = {
+  label: string;
+  value: string;
+  onDecrease: () => void;
+  onIncrease: () => void;
+  canDecrease: boolean;
+  canIncrease: boolean;
+};
+
+function DayStepper({ label, value, onDecrease, onIncrease, canDecrease, canIncrease }: DayStepperProps) {
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <View style={styles.stepperRow}>
+        <TouchableOpacity onPress={onDecrease} disabled={!canDecrease} style={styles.stepperBtn}>
+          <Ionicons name="chevron-back" size={18} color={canDecrease ? '#fff' : '#333'} />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{value}</Text>
+        <TouchableOpacity onPress={onIncrease} disabled={!canIncrease} style={styles.stepperBtn}>
+          <Ionicons name="chevron-forward" size={18} color={canIncrease ? '#fff' : '#333'} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+
+  presets: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+
+  chipActive: {
+    backgroundColor: '#00D5FF',
+    borderColor: '#00D5FF',
+  },
+
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
+  chipTextActive: {
+    color: '#000',
+  },
+
+  steppers: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  stepper: {
+    flex: 1,
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 10,
+  },
+
+  stepperLabel: {
+    color: '#888',
+    fontSize: 12,
+    marginBottom: 6,
+  },
+
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  stepperBtn: {
+    padding: 4,
+  },
+
+  stepperValue: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
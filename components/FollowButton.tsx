@@ -0,0 +1,126 @@
+/**
+ * ./components/FollowButton.tsx
+ *
+ * "עקוב" / "עוקב" toggle for a profile (services/followService.ts).
+ *
+ * • Loads the current state on mount, switches right away on press
+ *   and rolls back when the request failed
+ * • Renders nothing on the user's own profile
+ * • onChange(following) lets the parent adjust follower counts
+ * • size="small" for list rows, "large" for profile headers
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+
+import { authService } from '../services/authService';
+import { followService } from '../services/followService';
+import { haptics } from '../utils/haptics';
+
+type Props = {
+  profileId: string;
+  size?: 'small' | 'large';
+  onChange?: (following: boolean) => void;
+};
+
+export default function FollowButton({ profileId, size = 'large', onChange }: Props) {
+  const [following, setFollowing] = useState(false);
+  const [ready, setReady] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [isSelf, setIsSelf] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReady(false);
+
+    Promise.all([authService.getCurrentUser(), followService.isFollowing(profileId)])
+      .then(([user, isFollowing]) => {
+        if (cancelled) return;
+        setIsSelf(user?.id === profileId);
+        setFollowing(isFollowing);
+      })
+      .catch((err) => console.error('❌ Loading follow state failed:', err))
+      .finally(() => {
+        if (!cancelled) setReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  const handlePress = async () => {
+    const next = !following;
+    setFollowing(next);
+    setBusy(true);
+    onChange?.(next);
+    haptics.light();
+
+    try {
+      await followService.setFollowing(profileId, next);
+    } catch (err) {
+      console.error('❌ Follow failed:', err);
+      setFollowing(!next);
+      onChange?.(!next);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (isSelf) return null;
+
+  const small = size === 'small';
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.button,
+        small && styles.buttonSmall,
+        following && styles.buttonFollowing,
+      ]}
+      onPress={handlePress}
+      disabled={!ready || busy}
+    >
+      {!ready ? (
+        <ActivityIndicator size="small" color={following ? '#fff' : '#000'} />
+      ) : (
+        <Text style={[styles.text, small && styles.textSmall, following && styles.textFollowing]}>
+          {following ? 'עוקב' : 'עקוב'}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    minWidth: 120,
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    backgroundColor: '#00D5FF',
+    borderWidth: 1,
+    borderColor: '#00D5FF',
+  },
+  buttonSmall: {
+    minWidth: 80,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  buttonFollowing: {
+    backgroundColor: 'transparent',
+    borderColor: '#333',
+  },
+  text: {
+    color: '#000',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  textSmall: {
+    fontSize: 13,
+  },
+  textFollowing: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,195 @@
+/**
+ * ./components/FollowingFeedEmpty.tsx
+ *
+ * Empty state of the "Following" home feed: the user follows nobody
+ * (or the creators they follow haven't posted yet).
+ *
+ * • Used by both VideoFeed (native) and WebVideoFeed (web)
+ * • Suggests creators to follow (followService.getSuggestedCreators),
+ *   each row with a FollowButton; tapping a row opens the profile
+ * • "הצג סרטונים" appears after following someone and lets the feed
+ *   reload through onReload
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+
+import { Profile } from '../types/database';
+import { followService } from '../services/followService';
+import { RootStackParamList } from '../navigation/RootNavigator';
+import FollowButton from './FollowButton';
+import Avatar from './Avatar';
+
+type Props = {
+  onReload: () => void; // Load the feed again (after following someone)
+};
+
+export default function FollowingFeedEmpty({ onReload }: Props) {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const [creators, setCreators] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [followedAny, setFollowedAny] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    followService
+      .getSuggestedCreators()
+      .then((profiles) => {
+        if (!cancelled) setCreators(profiles);
+      })
+      .catch((err) => console.error('❌ Loading suggested creators failed:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.icon}>👥</Text>
+      <Text style={styles.title}>עדיין אין כאן סרטונים</Text>
+      <Text style={styles.subtitle}>עקבו אחרי יוצרים כדי לראות את הסרטונים שלהם כאן</Text>
+
+      {followedAny && (
+        <TouchableOpacity style={styles.reloadBtn} onPress={onReload}>
+          <Text style={styles.reloadText}>הצג סרטונים</Text>
+        </TouchableOpacity>
+      )}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="small" color="#00D5FF" />
+      ) : (
+        creators.length > 0 && (
+          <View style={styles.list}>
+            <Text style={styles.sectionTitle}>יוצרים מומלצים</Text>
+
+            {creators.map((creator) => (
+              <TouchableOpacity
+                key={creator.id}
+                style={styles.row}
+                onPress={() => navigation.navigate('Influencer', { influencerId: creator.id })}
+                activeOpacity={0.8}
+              >
+                <Avatar avatar={creator.avatar_url} profileId={creator.id} size={36} />
+
+                <View style={styles.rowBody}>
+                  <Text style={styles.name} numberOfLines={1}>
+                    {creator.full_name || creator.username || 'משתמש'} {creator.verified && '✓'}
+                  </Text>
+                  {!!creator.username && (
+                    <Text style={styles.username} numberOfLines={1}>
+                      @{creator.username}
+                    </Text>
+                  )}
+                </View>
+
+                <FollowButton
+                  profileId={creator.id}
+                  size="small"
+                  onChange={(following) => following && setFollowedAny(true)}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )
+      )}
+    </ScrollView>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingTop: 80,
+    paddingBottom: 40,
+  },
+
+  icon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+
+  subtitle: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+
+  reloadBtn: {
+    marginTop: 20,
+    backgroundColor: '#00D5FF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 24,
+  },
+
+  reloadText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  loader: {
+    marginTop: 32,
+  },
+
+  /* Suggested creators */
+  list: {
+    alignSelf: 'stretch',
+    marginTop: 32,
+  },
+
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+
+  rowBody: {
+    flex: 1,
+  },
+
+  name: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+
+  username: {
+    color: '#888',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,298 @@
+/**
+ * ./components/ItineraryEditor.tsx
+ *
+ * Day-by-day itinerary builder used in AddVideoScreen.
+ * Produces the same shape ItineraryModal renders (types/itinerary.ts).
+ *
+ * What this component does:
+ * ------------------------------------------------------------
+ * • Add / delete days, move a day up or down (days are renumbered
+ *   by position, so "day" always matches the order)
+ * • Mark a day as free (isFree) – its activities are hidden and
+ *   replaced with the standard "free day" entry on save
+ * • Add / edit / delete timed activities ("HH:MM" + description)
+ *
+ * Notes:
+ * • Controlled component: the parent owns the draft (value/onChange)
+ *   and keeps it in sync with the "days" field
+ * • Validation happens on submit (finalizeItinerary + parseItinerary)
+ * • Layout is RTL-friendly (Hebrew)
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Activity, Itinerary, ItineraryDay } from '../types/itinerary';
+import { createEmptyDay, renumberDays } from '../utils/itinerary';
+import { haptics } from '../utils/haptics';
+
+type Props = {
+  value: Itinerary;                        // Current draft
+  onChange: (itinerary: Itinerary) => void;
+  maxDays?: number;                        // Upper bound for "add day"
+};
+
+export default function ItineraryEditor({ value, onChange, maxDays = 30 }: Props) {
+  /* ------------------------------------------------------------
+     DAY OPERATIONS
+     ------------------------------------------------------------ */
+
+  const updateDay = (index: number, patch: Partial<ItineraryDay>) => {
+    onChange(value.map((day, i) => (i === index ? { ...day, ...patch } : day)));
+  };
+
+  const addDay = () => {
+    if (value.length >= maxDays) return;
+    haptics.light();
+    onChange([...value, createEmptyDay(value.length + 1)]);
+  };
+
+  const removeDay = (index: number) => {
+    haptics.light();
+    onChange(renumberDays(value.filter((_, i) => i !== index)));
+  };
+
+  const moveDay = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+
+    haptics.light();
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(renumberDays(next));
+  };
+
+  const toggleFree = (index: number, isFree: boolean) => {
+    updateDay(index, { isFree: isFree || undefined });
+  };
+
+  /* ------------------------------------------------------------
+     ACTIVITY OPERATIONS
+     ------------------------------------------------------------ */
+
+  const addActivity = (index: number) => {
+    haptics.light();
+    updateDay(index, { activities: [...value[index].activities, { time: '', activity: '' }] });
+  };
+
+  const updateActivity = (index: number, activityIndex: number, patch: Partial<Activity>) => {
+    updateDay(index, {
+      activities: value[index].activities.map((a, i) =>
+        i === activityIndex ? { ...a, ...patch } : a
+      ),
+    });
+  };
+
+  const removeActivity = (index: number, activityIndex: number) => {
+    updateDay(index, {
+      activities: value[index].activities.filter((_, i) => i !== activityIndex),
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      {value.length === 0 && (
+        <Text style={styles.emptyText}>הוסף ימים כדי לבנות את מסלול הטיול</Text>
+      )}
+
+      {value.map((day, index) => (
+        <View key={index} style={styles.dayCard}>
+          {/* Day header: badge + reorder / delete */}
+          <View style={styles.dayHeader}>
+            <View style={[styles.dayBadge, day.isFree && styles.dayBadgeFree]}>
+              <Text style={styles.dayNumber}>יום {day.day}</Text>
+            </View>
+
+            <View style={styles.dayActions}>
+              <TouchableOpacity onPress={() => moveDay(index, -1)} disabled={index === 0}>
+                <Ionicons name="chevron-up" size={22} color={index === 0 ? '#333' : '#fff'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => moveDay(index, 1)}
+                disabled={index === value.length - 1}
+              >
+                <Ionicons
+                  name="chevron-down"
+                  size={22}
+                  color={index === value.length - 1 ? '#333' : '#fff'}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => removeDay(index)}>
+                <Ionicons name="trash-outline" size={20} color="#FF3B5C" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Free day toggle */}
+          <View style={styles.freeRow}>
+            <Text style={styles.freeLabel}>יום חופשי 🏖️</Text>
+            <Switch
+              value={!!day.isFree}
+              onValueChange={(v) => toggleFree(index, v)}
+              trackColor={{ false: '#767577', true: '#FFD700' }}
+              thumbColor="#fff"
+            />
+          </View>
+
+          {/* Activities (hidden on free days) */}
+          {!day.isFree && (
+            <View style={styles.activities}>
+              {day.activities.map((activity, activityIndex) => (
+                <View key={activityIndex} style={styles.activityRow}>
+                  <TextInput
+                    style={[styles.input, styles.timeInput]}
+                    placeholder="09:00"
+                    placeholderTextColor="#666"
+                    value={activity.time}
+                    onChangeText={(time) => updateActivity(index, activityIndex, { time })}
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={5}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.activityInput]}
+                    placeholder="לדוגמה: שייט בשקיעה"
+                    placeholderTextColor="#666"
+                    value={activity.activity}
+                    onChangeText={(text) =>
+                      updateActivity(index, activityIndex, { activity: text })
+                    }
+                  />
+                  <TouchableOpacity onPress={() => removeActivity(index, activityIndex)}>
+                    <Ionicons name="close-circle" size={22} color="#666" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <TouchableOpacity style={styles.addActivityBtn} onPress={() => addActivity(index)}>
+                <Ionicons name="add" size={18} color="#00D5FF" />
+                <Text style={styles.addActivityText}>הוסף פעילות</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
+
+      {value.length < maxDays && (
+        <TouchableOpacity style={styles.addDayBtn} onPress={addDay}>
+          <Ionicons name="add-circle-outline" size={20} color="#00D5FF" />
+          <Text style={styles.addDayText}>הוסף יום</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 14,
+  },
+
+  // Day card (same look as ItineraryModal)
+  dayCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    gap: 10,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dayBadge: {
+    backgroundColor: '#00D5FF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  dayBadgeFree: {
+    backgroundColor: '#FFD700',
+  },
+  dayNumber: {
+    color: '#000',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  dayActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  freeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  freeLabel: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+
+  // Activities
+  activities: {
+    gap: 8,
+  },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#000',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#fff',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  timeInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  activityInput: {
+    flex: 1,
+  },
+  addActivityBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  addActivityText: {
+    color: '#00D5FF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  // Add day
+  addDayBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#00D5FF',
+    borderStyle: 'dashed',
+  },
+  addDayText: {
+    color: '#00D5FF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -13,7 +13,10 @@
  *      - A “day badge”
  *      - A "free day" flag (day.isFree)
  *      - A list of activity items with time + description
+ * • Shows a notice when the stored itinerary had problems
+ *   (video.itineraryIssues, produced by utils/itinerary.ts)
  * • Footer includes a "Book now" button showing the trip price
+ *   (calls onBook, which opens BookingModal)
  * • Modal closes when tapping the backdrop or the close icon
  *
  * Notes:
@@ -33,16 +36,18 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
-// VideoData type is imported from VideoFeed – describes the trip info
-import { VideoData } from './VideoFeed';
+// VideoData view model – describes the trip info
+import { VideoData } from '../types/video';
+import PriceLabel from './PriceLabel';
 
 type Props = {
   visible: boolean;     // Whether modal is displayed
   video: VideoData;     // The selected video's data (includes itinerary)
   onClose: () => void;  // Callback to close modal
+  onBook?: () => void;  // "Book now" (closes the modal when not provided)
 };
 
-export default function ItineraryModal({ visible, video, onClose }: Props) {
+export default function ItineraryModal({ visible, video, onClose, onBook }: Props) {
   useEffect(() => {
     if (visible && typeof document !== 'undefined') {
       document.body.style.overflow = 'hidden';
@@ -79,7 +84,22 @@ export default function ItineraryModal({ visible, video, onClose }: Props) {
 
         {/* Scrollable itinerary list */}
         <ScrollView style={styles.scrollView}>
-          {video.itinerary && Array.isArray(video.itinerary) && video.itinerary.map((day) => (
+          {/* Validation notice (missing days were filled, times sorted, etc.) */}
+          {video.itineraryIssues.length > 0 && (
+            <View style={styles.issuesBox}>
+              <View style={styles.issuesHeader}>
+                <Ionicons name="alert-circle" size={18} color="#FFD700" />
+                <Text style={styles.issuesTitle}>חלק מפרטי המסלול תוקנו אוטומטית</Text>
+              </View>
+              {video.itineraryIssues.map((issue, idx) => (
+                <Text key={idx} style={styles.issueText}>
+                  • {issue.message}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {video.itinerary.map((day) => (
               <View key={day.day} style={styles.dayCard}>
 
                 {/* Day header with number + optional "free day" */}
@@ -129,10 +149,12 @@ export default function ItineraryModal({ visible, video, onClose }: Props) {
 
         {/* Footer section – Booking button */}
         <View style={styles.footer}>
-          <TouchableOpacity style={styles.bookBtn} onPress={onClose}>
-            <Text style={styles.bookBtnText}>
-              הזמן עכשיו • {video.price}
-            </Text>
+          <TouchableOpacity style={styles.bookBtn} onPress={onBook ?? onClose}>
+            {video.price ? (
+              <PriceLabel price={video.price} prefix="הזמן עכשיו • " style={styles.bookBtnText} />
+            ) : (
+              <Text style={styles.bookBtnText}>הזמן עכשיו</Text>
+            )}
           </TouchableOpacity>
         </View>
       </View>
@@ -179,6 +201,33 @@ const styles = StyleSheet.create({
     padding: 16,
   },
 
+  // Validation notice
+  issuesBox: {
+    backgroundColor: '#2a2400',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 4,
+  },
+
+  issuesHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+
+  issuesTitle: {
+    color: '#FFD700',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+
+  issueText: {
+    color: '#ccc',
+    fontSize: 12,
+  },
+
   // Each day card
   dayCard: {
     backgroundColor: '#1a1a1a',
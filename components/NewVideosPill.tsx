@@ -0,0 +1,63 @@
+/**
+ * ./components/NewVideosPill.tsx
+ *
+ * Floating "N new videos" pill shown at the top of the home feed
+ * when videos were published since the feed loaded.
+ *
+ * • Used by both VideoFeed (native) and WebVideoFeed (web)
+ * • Tapping it lets the feed refresh and jump to the newest video
+ * • Renders nothing when count is 0
+ */
+
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+type Props = {
+  count: number;        // Number of new videos on the server
+  onPress: () => void;  // Refresh + scroll to top
+};
+
+export default function NewVideosPill({ count, onPress }: Props) {
+  if (count <= 0) return null;
+
+  const label = count === 1 ? 'סרטון חדש' : `${count > 99 ? '99+' : count} סרטונים חדשים`;
+
+  return (
+    <TouchableOpacity style={styles.pill} onPress={onPress} activeOpacity={0.8}>
+      <Ionicons name="arrow-up" size={16} color="#000" />
+      <Text style={styles.text}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  pill: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#00D5FF',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    zIndex: 20,
+    shadowColor: '#000',
+    shadowOpacity: 0.3,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 6,
+  },
+
+  text: {
+    color: '#000',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,74 @@
+/**
+ * ./components/PriceLabel.tsx
+ *
+ * Shows a video price in the user's preferred currency, with the
+ * original price next to it when it had to be converted
+ * (hooks/useDisplayPrice.ts).
+ *
+ * • layout="inline"  → "≈ 3,600 ₪ לאדם (900 € לאדם)"  (overlays, buttons)
+ * • layout="stacked" → original on its own smaller line (narrow grids)
+ * • Renders nothing for videos without a price
+ */
+
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+
+import { Price } from '../types/money';
+import { useDisplayPrice } from '../hooks/useDisplayPrice';
+
+type Props = {
+  price: Price | null;
+  style?: StyleProp<TextStyle>;          // Main (converted) price
+  originalStyle?: StyleProp<TextStyle>;  // Original price, when shown
+  layout?: 'inline' | 'stacked';
+  prefix?: string;                       // e.g. "הזמן עכשיו • "
+};
+
+export default function PriceLabel({
+  price,
+  style,
+  originalStyle,
+  layout = 'inline',
+  prefix = '',
+}: Props) {
+  const shown = useDisplayPrice(price);
+  if (!shown) return null;
+
+  if (layout === 'stacked') {
+    return (
+      <>
+        <Text style={style} numberOfLines={1}>
+          {prefix}
+          {shown.display}
+        </Text>
+        {shown.original && (
+          <Text style={[styles.original, originalStyle]} numberOfLines={1}>
+            {shown.original}
+          </Text>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <Text style={style}>
+      {prefix}
+      {shown.display}
+      {shown.original && (
+        <Text style={[styles.original, originalStyle]}> ({shown.original})</Text>
+      )}
+    </Text>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  original: {
+    fontSize: 11,
+    fontWeight: '400',
+    opacity: 0.7,
+  },
+});
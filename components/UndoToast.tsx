@@ -0,0 +1,72 @@
+/**
+ * ./components/UndoToast.tsx
+ *
+ * Floating "removed · undo" bar at the bottom of a screen.
+ *
+ * • Used by SavesScreen and LikedScreen after removing a video
+ *   (the undo window itself lives in hooks/useInteractionVideos.ts)
+ * • Renders nothing when message is null
+ */
+
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+type Props = {
+  message: string | null; // null = hidden
+  onUndo: () => void;
+};
+
+export default function UndoToast({ message, onUndo }: Props) {
+  if (!message) return null;
+
+  return (
+    <View style={styles.toast}>
+      <Text style={styles.text} numberOfLines={1}>
+        {message}
+      </Text>
+
+      <TouchableOpacity onPress={onUndo} hitSlop={8}>
+        <Text style={styles.undo}>בטל</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    zIndex: 20,
+    shadowColor: '#000',
+    shadowOpacity: 0.3,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 6,
+  },
+
+  text: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+
+  undo: {
+    color: '#00D5FF',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -8,7 +8,9 @@
  * • Enabling vertical swipe navigation between videos (1 video per page).
  * • Tracking which video is currently visible (activeIndex).
  * • Passing `isActive` to VideoItem so it knows whether to play/pause video.
- * • Supporting category filtering (Trips / Lodging / Entertainment).
+ * • Supporting category filtering (Trips / Lodging / Entertainment) and
+ *   the "Following" feed (creators the user follows, with suggestions
+ *   when it is empty).
  * • Supporting jump-to-video navigation (initialVideoId).
  *
  * Architecture Notes:
@@ -21,8 +23,11 @@
  *    video should autoplay and which should pause.
  * 3. initialVideoId allows navigation from outside the feed
  *    (e.g., opening a specific video from search/profile).
- * 4. MOCK_DATA is currently used as local demo data (MVP).
- *    In the future this will be replaced with backend API calls.
+ * 4. Videos are loaded from Supabase page by page and mapped to the
+ *    VideoData view model (hooks/usePaginatedVideos.ts). The next page
+ *    is prefetched as activeIndex nears the end. Pull-to-refresh puts
+ *    newer videos in front without interrupting the playing one.
+ *    MOCK_DATA stays as local demo data.
  *
  * This file is one of the most critical in Veeky’s architecture since
  * it defines the TikTok-style vertical video experience.
@@ -48,33 +53,30 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 
 import VideoItem from './VideoItem';
-import { videoService } from '../services/videoService';
-import { Video } from '../types/database';
+import NewVideosPill from './NewVideosPill';
+import FollowingFeedEmpty from './FollowingFeedEmpty';
+import { FeedFilter, VideoData } from '../types/video';
+import { usePaginatedVideos } from '../hooks/usePaginatedVideos';
+import { getThumbnailForLocation } from '../utils/thumbnails';
 
 type VideoFeedProps = {
-  filter?: 'All' | 'Trips' | 'Lodging' | 'Entertainment';
+  filter?: FeedFilter;
   initialVideoId?: string; // Video to auto-scroll to (for deep links or navigation)
   feedActive?: boolean;    // NEW: false when user leaves Home tab
-  onRefresh?: () => void;
-  refreshing?: boolean;
 };
 
-/**
- * Type definition for a single video object.
- * Matches the structure used across the feed UI.
- */
-export type VideoData = Video;
-
-// Keep MOCK_DATA as fallback
+// Keep MOCK_DATA as fallback (already in the VideoData view-model shape)
 export const MOCK_DATA: VideoData[] = [
   {
     id: '1',
     uri: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/WeAreGoingOnBullrun.mp4',
     category: 'Trips',
-    influencer: { id: 'yonatan', name: 'יונתן רוט', avatar: '👨', verified: true },
+    influencer: { id: 'yonatan', username: 'yonatan_rot', name: 'יונתן רוט', avatar: '👨', verified: true },
     title: 'חופשה מדהימה ביוון 🇬🇷',
     location: 'Santorini, Greece',
-    price: '₪3,500',
+    thumbnail: getThumbnailForLocation('Santorini, Greece'),
+    description: null,
+    price: { amountMinor: 350000, currency: 'ILS', basis: 'per_person' },
     days: 7,
     itinerary: [
       { day: 1, activities: [{ time: '11:00', activity: 'טיסה לסנטוריני' }, { time: '14:00', activity: 'צ׳ק-אין במלון' }, { time: '17:00', activity: 'סיור בעיר פירה' }] },
@@ -85,19 +87,24 @@ export const MOCK_DATA: VideoData[] = [
       { day: 6, activities: [{ time: '08:00', activity: 'שייט לאיים הסמוכים' }, { time: '13:00', activity: 'צלילה' }] },
       { day: 7, activities: [{ time: '10:00', activity: 'ארוחת בוקר אחרונה' }, { time: '15:00', activity: 'טיסה חזרה' }] },
     ],
+    itineraryIssues: [],
     likes: 12500,
     comments: 340,
     shares: 89,
+    views: 0,
+    createdAt: '2025-01-04T10:00:00Z',
     tags: ['יוון', 'זוגות', 'חופשת קיץ', 'ים', 'מלון בוטיק'],
   },
   {
     id: '2', 
     uri: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4', 
     category: 'Lodging',
-    influencer: { id: 'amitai', name: 'אמיתי חצאל', avatar: '👨', verified: true },
+    influencer: { id: 'amitai', username: 'amitai_hatsal', name: 'אמיתי חצאל', avatar: '👨', verified: true },
     title: 'מלון יוקרה בדובאי ✨',
     location: 'Dubai, UAE',
-    price: '₪8,900',
+    thumbnail: getThumbnailForLocation('Dubai, UAE'),
+    description: null,
+    price: { amountMinor: 890000, currency: 'ILS', basis: 'per_person' },
     days: 5,
     itinerary: [
       { day: 1, activities: [{ time: '10:00', activity: 'טיסה לדובאי' }, { time: '14:00', activity: 'צ׳ק-אין במלון בורג׳ אל ערב' }, { time: '20:00', activity: 'ארוחת ערב במסעדת אל מונתהא' }] },
@@ -106,19 +113,24 @@ export const MOCK_DATA: VideoData[] = [
       { day: 4, activities: [{ time: '10:00', activity: 'יום ספא במלון' }, { time: '14:00', activity: 'חוף פרטי' }, { time: '18:00', activity: 'שייט ביאכטה' }] },
       { day: 5, activities: [{ time: '11:00', activity: 'ארוחת בוקר מאוחרת' }, { time: '13:00', activity: 'קניות אחרונות' }, { time: '16:00', activity: 'טיסה חזרה' }] },
     ],
+    itineraryIssues: [],
     likes: 23400,
     comments: 567,
     shares: 234,
+    views: 0,
+    createdAt: '2025-01-03T10:00:00Z',
     tags: ['דובאי', 'זוגות', 'חופשת קיץ', 'ים', 'מלון יוקרה'],
   },
   {
     id: '3', 
     uri: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerFun.mp4', 
     category: 'Entertainment',
-    influencer: { id: 'amir', name: 'אמיר אבניאל', avatar: '👩', verified: true },
+    influencer: { id: 'amir', username: 'amir_avniel', name: 'אמיר אבניאל', avatar: '👩', verified: true },
     title: 'פארק שעשועים בברצלונה 🎢',
     location: 'Barcelona, Spain',
-    price: '₪2,200',
+    thumbnail: getThumbnailForLocation('Barcelona, Spain'),
+    description: null,
+    price: { amountMinor: 220000, currency: 'ILS', basis: 'per_person' },
     days: 4,
     itinerary: [
       { day: 1, activities: [{ time: '12:00', activity: 'טיסה לברצלונה' }, { time: '15:00', activity: 'צ׳ק-אין' }, { time: '18:00', activity: 'סיור ברמבלס' }] },
@@ -126,19 +138,24 @@ export const MOCK_DATA: VideoData[] = [
       { day: 3, activities: [{ time: '10:00', activity: 'פורט אוונטורה - פארק שעשועים' }, { time: '20:00', activity: 'מופעי ערב' }] },
       { day: 4, activities: [{ time: '10:00', activity: 'קניות' }, { time: '12:00', activity: 'ארוחת בוקר מאוחרת' }, { time: '15:00', activity: 'טיסה חזרה' }] },
     ],
+    itineraryIssues: [],
     likes: 8900,
     comments: 156,
     shares: 45,
+    views: 0,
+    createdAt: '2025-01-02T10:00:00Z',
     tags: ['ברצלונה', 'זוגות', 'חופשת קיץ', 'פארק'],
   },
   {
     id: '4', 
     uri: 'https://res.cloudinary.com/dmxzi7dvx/video/upload/v1755583223/zwbbwckjrgjcrih4iuxj.mp4', 
     category: 'Trips',
-    influencer: { id: 'yonatan', name: 'יונתן רוט', avatar: '👨', verified: true },
+    influencer: { id: 'yonatan', username: 'yonatan_rot', name: 'יונתן רוט', avatar: '👨', verified: true },
     title: 'טיול בהרי האלפים 🏔️',
     location: 'Swiss Alps',
-    price: '₪5,600',
+    thumbnail: getThumbnailForLocation('Swiss Alps'),
+    description: null,
+    price: { amountMinor: 560000, currency: 'ILS', basis: 'per_person' },
     days: 10,
     itinerary: [
       { day: 1, activities: [{ time: '10:00', activity: 'טיסה לציריך' }, { time: '14:00', activity: 'נסיעה לאינטרלקן' }, { time: '17:00', activity: 'צ׳ק-אין' }] },
@@ -152,9 +169,12 @@ export const MOCK_DATA: VideoData[] = [
       { day: 9, activities: [{ time: '14:00', activity: 'קניות שוקולד שוויצרי' }, { time: '19:00', activity: 'ארוחת פונדו' }] },
       { day: 10, activities: [{ time: '10:00', activity: 'ארוחת בוקר' }, { time: '13:00', activity: 'נסיעה לציריך' }, { time: '16:00', activity: 'טיסה חזרה' }] },
     ],
+    itineraryIssues: [],
     likes: 18700,
     comments: 423,
     shares: 167,
+    views: 0,
+    createdAt: '2025-01-01T10:00:00Z',
     tags: ['טראק', 'זוגות', 'חורף', 'נוף', 'מלון בוטיק'],
   },
 ];
@@ -166,45 +186,23 @@ export default function VideoFeed({
   filter = 'All',
   initialVideoId,
   feedActive = true,
-  onRefresh,
-  refreshing = false
 }: VideoFeedProps) {
   const { height } = useWindowDimensions();
   
   const [showScrollTop, setShowScrollTop] = useState(false);
-  const [videos, setVideos] = useState<VideoData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(0);
-
-  // Load videos from Supabase
-  useEffect(() => {
-    loadVideos();
-  }, [filter]);
-
-  const loadVideos = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await videoService.getVideos(0, 20, filter === 'All' ? undefined : filter);
-      console.log('📹 Loaded from DB:', data.length, 'videos');
-      
-      setVideos(data);
-    } catch (err) {
-      console.error('❌ Error loading videos:', err);
-      setError('Failed to load videos');
-      setVideos([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Reference to the FlatList (so we can scroll programmatically)
   const flatListRef = useRef<FlatList<VideoData>>(null);
 
   // Index of the currently visible video
   const [activeIndex, setActiveIndex] = useState(0);
 
+  // Videos from Supabase, next page is prefetched as activeIndex nears the end
+  const { videos, loading, error, reload, refresh, refreshing, newCount } = usePaginatedVideos(
+    filter,
+    activeIndex,
+    feedActive
+  );
+
   const lastActiveIndexRef = useRef(0);
 
   // Shorts-like "one gesture = one step" locking
@@ -321,6 +319,29 @@ export default function VideoFeed({
     lastActiveIndexRef.current = 0;
   };
 
+  /**
+   * Pull-to-refresh: new videos are inserted ABOVE the current one,
+   * so shift the index by the same amount to keep playing it.
+   */
+  const onRefresh = async () => {
+    const added = await refresh();
+    if (added <= 0) return;
+
+    const index = lastActiveIndexRef.current + added;
+    lastActiveIndexRef.current = index;
+    setActiveIndex((prev) => (prev >= 0 ? index : prev));
+
+    requestAnimationFrame(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: false });
+    });
+  };
+
+  // "N new videos" pill: load them and jump to the newest
+  const showNewVideos = async () => {
+    await refresh();
+    requestAnimationFrame(scrollToTop);
+  };
+
   const feedActiveRef = useRef(feedActive);
   const activeIndexRef = useRef(activeIndex);
 
@@ -360,10 +381,12 @@ export default function VideoFeed({
         <View style={styles.errorContainer}>
           <Ionicons name="alert-circle-outline" size={64} color="#FF3B5C" />
           <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryBtn} onPress={loadVideos}>
+          <TouchableOpacity style={styles.retryBtn} onPress={reload}>
             <Text style={styles.retryText}>נסה שוב</Text>
           </TouchableOpacity>
         </View>
+      ) : filter === 'Following' && filteredData.length === 0 ? (
+        <FollowingFeedEmpty onReload={reload} />
       ) : (
         <FlatList
       ref={flatListRef}
@@ -377,6 +400,7 @@ export default function VideoFeed({
       disableIntervalMomentum
       refreshing={refreshing}
       onRefresh={onRefresh}
+      maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
       onScroll={onScroll}
       scrollEventThrottle={16}
 
@@ -402,6 +426,8 @@ export default function VideoFeed({
       />
       )}
 
+      {!loading && !error && <NewVideosPill count={newCount} onPress={showNewVideos} />}
+
       {showScrollTop && (
         <TouchableOpacity
           style={styles.scrollTopBtn}
@@ -11,17 +11,23 @@
  * ✔ Supports both Expo Native (expo-video player) and Web (HTML <video>)
  * ✔ Displays all interactive video actions:
  *      - Like (heart)
- *      - Save (bookmark)
+ *      - Save (bookmark), long-press → save to a collection
  *      - Comment sheet
  *      - Share
  * ✔ Displays travel details overlay: influencer, title, location, days, etc.
  * ✔ Opens modals:
  *      - CommentsModal
  *      - ItineraryModal (trip details)
+ *      - BookingModal (dates, travellers, payment)
+ *      - CollectionPickerModal (trip boards)
  * ✔ Uses local storage helpers to persist:
  *      - Likes
  *      - Saves
- *      - Comments count
+ * ✔ Comments count starts from videos.comments_count and follows
+ *   the CommentsModal (comments live in Supabase)
+ * ✔ Likes / saves go through syncService (optimistic + queued to Supabase)
+ * ✔ Reports playback time to hooks/useViewTracking.ts (views_count,
+ *   watch time, completion)
  *
  * Architecture Notes:
  * --------------------------------------------------------------------------
@@ -55,10 +61,16 @@ import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 import { RootStackParamList } from '../navigation/RootNavigator';
-import { VideoData } from './VideoFeed';
+import { VideoData } from '../types/video';
 import { storage } from '../utils/storage';
+import { syncService } from '../services/syncService';
+import { useViewTracking } from '../hooks/useViewTracking';
 import CommentsModal from './CommentsModal';
 import ItineraryModal from './ItineraryModal';
+import PriceLabel from './PriceLabel';
+import Avatar from './Avatar';
+import BookingModal from './BookingModal';
+import CollectionPickerModal from './CollectionPickerModal';
 
 // Full-screen height/width
 const { height, width } = Dimensions.get('window');
@@ -82,6 +94,7 @@ const VideoItem = React.memo(
   // Native video player (Expo)
   const player = useVideoPlayer(uri, (p) => {
     p.loop = true; // All videos loop on native
+    p.timeUpdateEventInterval = 0.25; // Progress bar + view tracking
   });
 
   // Web video <video> element ref
@@ -104,6 +117,9 @@ const VideoItem = React.memo(
   const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
 
+  // Qualified views / watch time of the active video
+  const trackProgress = useViewTracking(video.id, isActive);
+
   const showTapIcon = React.useCallback((type: 'play' | 'pause') => {
     setTapIcon(type);
     tapIconAnim.setValue(1);
@@ -136,21 +152,29 @@ const VideoItem = React.memo(
   }, [likeIconAnim]);
 
   /* --------------------------------------------------------------------- *
-   *                UI STATE (like, save, comments, itinerary)
+   *           UI STATE (like, save, comments, itinerary, booking)
    * --------------------------------------------------------------------- */
 
   const [isLiked, setIsLiked] = useState(storage.isLiked(video.id));
   const [isSaved, setIsSaved] = useState(storage.isSaved(video.id));
   const [likesCount, setLikesCount] = useState(likes);
   const [commentsVisible, setCommentsVisible] = useState(false);
-  const [commentsCount, setCommentsCount] = useState(
-    storage.getComments(video.id).length
-  );
+  const [commentsCount, setCommentsCount] = useState(video.comments);
   const [itineraryVisible, setItineraryVisible] = useState(false);
+  const [bookingVisible, setBookingVisible] = useState(false);
+  const [collectionsVisible, setCollectionsVisible] = useState(false);
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
 
+  // Keep like/save state in sync when the server reconciles in the background
+  useEffect(() => {
+    return storage.subscribe(() => {
+      setIsLiked(storage.isLiked(video.id));
+      setIsSaved(storage.isSaved(video.id));
+    });
+  }, [video.id]);
+
   /* --------------------------------------------------------------------- *
    *                AUTO PLAY / PAUSE WHEN ACTIVE CHANGES
    * --------------------------------------------------------------------- */
@@ -172,6 +196,7 @@ const VideoItem = React.memo(
       const handleTimeUpdate = () => {
         setProgress(el.currentTime);
         setDuration(el.duration || 0);
+        trackProgress(el.currentTime, el.duration);
       };
 
       el.addEventListener('loadstart', handleLoadStart);
@@ -202,7 +227,20 @@ const VideoItem = React.memo(
         setIsPlaying(false);
       }
     }
-  }, [isActive, player]);
+  }, [isActive, player, trackProgress]);
+
+  // Native time updates (web uses the <video> timeupdate event above)
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    const sub = player.addListener('timeUpdate', ({ currentTime }) => {
+      setProgress(currentTime);
+      setDuration(player.duration || 0);
+      trackProgress(currentTime, player.duration);
+    });
+
+    return () => sub.remove();
+  }, [player, trackProgress]);
 
   /* --------------------------------------------------------------------- *
    *                CLEANUP: stop video on component unmount
@@ -239,7 +277,7 @@ const VideoItem = React.memo(
    * --------------------------------------------------------------------- */
 
   const handleLike = React.useCallback(async () => {
-    const liked = storage.toggleLike(video.id);
+    const liked = syncService.toggleLike(video.id);
     setIsLiked(liked);
     setLikesCount((prev) => (liked ? prev + 1 : prev - 1));
     
@@ -252,19 +290,18 @@ const VideoItem = React.memo(
   }, [video.id]);
 
   const handleSave = React.useCallback(async () => {
-    const saved = storage.toggleSave(video.id);
+    const saved = syncService.toggleSave(video.id);
     setIsSaved(saved);
     
     const { haptics } = await import('../utils/haptics');
     haptics.light();
   }, [video.id]);
 
+  const handleSaveLongPress = React.useCallback(() => setCollectionsVisible(true), []);
+
   const handleComments = React.useCallback(() => setCommentsVisible(true), []);
 
-  const handleCloseComments = React.useCallback(() => {
-    setCommentsVisible(false);
-    setCommentsCount(storage.getComments(video.id).length);
-  }, [video.id]);
+  const handleCloseComments = React.useCallback(() => setCommentsVisible(false), []);
 
   /* --------------------------------------------------------------------- *
    *                TAP-TO-PLAY / TAP-TO-PAUSE BEHAVIOR
@@ -272,7 +309,7 @@ const VideoItem = React.memo(
 
   const handleDoubleTap = useCallback(async () => {
     if (!isLiked) {
-      const liked = storage.toggleLike(video.id);
+      const liked = syncService.toggleLike(video.id);
       setIsLiked(liked);
       setLikesCount((prev) => prev + 1);
       showLikeAnimation();
@@ -358,10 +395,7 @@ const VideoItem = React.memo(
       console.log('Share error:', err);
     }
   }, [video.title, video.location]);
-  const handleBook = React.useCallback(() => {}, []);
-  const handleDetails = React.useCallback(() => {
-    setItineraryVisible(true);
-    // Pause video when opening details
+  const pausePlayback = React.useCallback(() => {
     if (Platform.OS === 'web') {
       videoRef.current?.pause();
     } else {
@@ -369,6 +403,27 @@ const VideoItem = React.memo(
     }
     setIsPlaying(false);
   }, [player]);
+  const resumePlayback = React.useCallback(() => {
+    // Only the active card may play
+    if (!isActive) return;
+    if (Platform.OS === 'web') {
+      videoRef.current?.play();
+    } else {
+      player.play();
+    }
+    setIsPlaying(true);
+  }, [isActive, player]);
+  const handleBook = React.useCallback(() => {
+    // Booking replaces the details sheet when opened from it
+    setItineraryVisible(false);
+    setBookingVisible(true);
+    pausePlayback();
+  }, [pausePlayback]);
+  const handleDetails = React.useCallback(() => {
+    setItineraryVisible(true);
+    // Pause video when opening details
+    pausePlayback();
+  }, [pausePlayback]);
   const handleInfluencer = React.useCallback(() => {
     navigation.navigate('Influencer', { influencerId: video.influencer.id });
   }, [navigation, video.influencer.id]);
@@ -504,6 +559,7 @@ const VideoItem = React.memo(
         commentsCount={commentsCount}
         onLike={handleLike}
         onSave={handleSave}
+        onSaveLongPress={handleSaveLongPress}
         onComment={handleComments}
         onShare={handleShare}
         onBook={handleBook}
@@ -516,26 +572,39 @@ const VideoItem = React.memo(
       <CommentsModal
         visible={commentsVisible}
         videoId={video.id}
+        videoOwnerId={video.influencer.id}
         onClose={handleCloseComments}
+        onCountChange={setCommentsCount}
       />
 
       {/* Trip details modal */}
       <ItineraryModal
         visible={itineraryVisible}
         video={video}
+        onBook={handleBook}
         onClose={() => {
           setItineraryVisible(false);
           // Resume video when closing details if active
-          if (isActive) {
-            if (Platform.OS === 'web') {
-              videoRef.current?.play();
-            } else {
-              player.play();
-            }
-            setIsPlaying(true);
-          }
+          resumePlayback();
+        }}
+      />
+
+      {/* Booking sheet */}
+      <BookingModal
+        visible={bookingVisible}
+        video={video}
+        onClose={() => {
+          setBookingVisible(false);
+          resumePlayback();
         }}
       />
+
+      {/* Save to collection sheet */}
+      <CollectionPickerModal
+        visible={collectionsVisible}
+        videoId={video.id}
+        onClose={() => setCollectionsVisible(false)}
+      />
     </View>
   );
   },
@@ -559,6 +628,7 @@ type OverlayProps = {
   commentsCount: number;
   onLike: () => void;
   onSave: () => void;
+  onSaveLongPress: () => void;
   onComment: () => void;
   onShare: () => void;
   onBook: () => void;
@@ -577,6 +647,7 @@ const VideoOverlay = React.memo(function VideoOverlay({
   commentsCount,
   onLike,
   onSave,
+  onSaveLongPress,
   onComment,
   onShare,
   onBook,
@@ -615,6 +686,7 @@ const VideoOverlay = React.memo(function VideoOverlay({
         <TouchableOpacity 
           style={overlayStyles.actionBtn} 
           onPress={onSave}
+          onLongPress={onSaveLongPress}
           activeOpacity={0.7}
         >
           <Ionicons
@@ -643,7 +715,7 @@ const VideoOverlay = React.memo(function VideoOverlay({
           style={overlayStyles.influencerRow}
           onPress={onInfluencer}
         >
-          <Text style={overlayStyles.avatar}>{video.influencer.avatar}</Text>
+          <Avatar avatar={video.influencer.avatar} profileId={video.influencer.id} size={32} />
           <Text style={overlayStyles.influencerName}>
             {video.influencer.name}
             {video.influencer.verified && ' ✓'}
@@ -651,8 +723,11 @@ const VideoOverlay = React.memo(function VideoOverlay({
         </TouchableOpacity>
 
         <Text style={overlayStyles.title}>{video.title}</Text>
-        <Text style={overlayStyles.days}>🗓️ {video.days} ימים</Text>
+        {!!video.days && (
+          <Text style={overlayStyles.days}>🗓️ {video.days} ימים</Text>
+        )}
         <Text style={overlayStyles.location}>📍 {video.location}</Text>
+        <PriceLabel price={video.price} style={overlayStyles.price} />
 
         {video.tags && video.tags.length > 0 && (
           <ScrollView
@@ -816,9 +891,6 @@ const overlayStyles = StyleSheet.create({
     gap: 8,
     marginBottom: 8,
   },
-  avatar: {
-    fontSize: 32,
-  },
   influencerName: {
     color: '#fff',
     fontSize: 16,
@@ -844,6 +916,15 @@ const overlayStyles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 3,
   },
+  price: {
+    color: '#00D5FF',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 2,
+    textShadowColor: 'rgba(0,0,0,0.8)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
   location: {
     color: '#fff',
     fontSize: 13,
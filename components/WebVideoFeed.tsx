@@ -14,9 +14,14 @@
  * ✔ Pauses all other videos when the user swipes away
  * ✔ Detects “scroll end” using a timeout approach (because web has no
  *   reliable onMomentumScrollEnd event)
- * ✔ Supports category filtering
+ * ✔ Supports category filtering and the "Following" feed
+ *   (creator suggestions while it is empty)
+ * ✔ Infinite scroll: next page is prefetched near the end of the list
+ * ✔ Refresh: swipe down / scroll up on the first video, or tap the
+ *   "N new videos" pill. The playing video keeps playing.
  * ✔ Supports full interactions:
  *      - Like / Save / Comment / Share
+ *      - Long-press on Save → save to a collection
  *      - Tap to play/pause
  *      - Comments modal
  *      - Itinerary modal
@@ -50,25 +55,32 @@ import {
   useWindowDimensions,
   Platform,
   TouchableOpacity,
+  ActivityIndicator,
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
-import { VideoData } from './VideoFeed';
-import { videoService } from '../services/videoService';
+import { FeedFilter, VideoData } from '../types/video';
+import { usePaginatedVideos } from '../hooks/usePaginatedVideos';
 import { storage } from '../utils/storage';
+import { syncService } from '../services/syncService';
+import { useViewTracking } from '../hooks/useViewTracking';
 import CommentsModal from './CommentsModal';
 import ItineraryModal from './ItineraryModal';
+import PriceLabel from './PriceLabel';
+import Avatar from './Avatar';
+import BookingModal from './BookingModal';
+import CollectionPickerModal from './CollectionPickerModal';
+import NewVideosPill from './NewVideosPill';
+import FollowingFeedEmpty from './FollowingFeedEmpty';
 import { RootStackParamList } from '../navigation/RootNavigator';
 
 const { width } = Dimensions.get('window');
 
-type FilterType = 'All' | 'Trips' | 'Lodging' | 'Entertainment';
-
 type WebVideoFeedProps = {
-  filter?: FilterType;
+  filter?: FeedFilter;
   initialVideoId?: string;
   feedActive?: boolean; // NEW
 };
@@ -76,35 +88,20 @@ type WebVideoFeedProps = {
 export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActive = true }: WebVideoFeedProps) {
   const { height } = useWindowDimensions();
 
-  const [videos, setVideos] = useState<VideoData[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    loadVideos();
-  }, [filter]);
-
-  const loadVideos = async () => {
-    try {
-      setLoading(true);
-      const data = await videoService.getVideos(0, 20, filter === 'All' ? undefined : filter);
-      console.log('📹 [WEB] Loaded from DB:', data.length, 'videos');
-      
-      setVideos(data);
-    } catch (err) {
-      console.error('❌ [WEB] Error loading videos:', err);
-      setVideos([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const filteredData = useMemo(() => videos, [videos]);
-
   /**
    * Index of the video that is currently visible / playing
    */
   const [activeIndex, setActiveIndex] = useState(0);
 
+  // Videos from Supabase, next page is prefetched as activeIndex nears the end
+  const { videos, loading, reload, refresh, refreshing, newCount } = usePaginatedVideos(
+    filter,
+    activeIndex,
+    feedActive
+  );
+
+  const filteredData = useMemo(() => videos, [videos]);
+
   // Keep current index as a ref so wheel/touch handlers never use stale state
   const activeIndexRef = useRef(0);
 
@@ -149,6 +146,44 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
     playIndex(next);
   };
 
+  // ---------------------------------------------------------------------------
+  // Refresh: newer videos are inserted ABOVE the current one
+  // ---------------------------------------------------------------------------
+  const anchorIdRef = useRef<string | null>(null); // keep playing this video
+  const jumpToTopRef = useRef(false);              // or jump to the newest one
+
+  const refreshFeed = async (jumpToTop: boolean) => {
+    anchorIdRef.current = jumpToTop ? null : filteredData[activeIndexRef.current]?.id ?? null;
+    jumpToTopRef.current = jumpToTop;
+
+    const added = await refresh();
+
+    // List unchanged: the effect below won't run
+    if (added === 0) {
+      anchorIdRef.current = null;
+      if (jumpToTopRef.current) goToIndex(0, true);
+      jumpToTopRef.current = false;
+    }
+  };
+
+  // After new items were prepended, restore (or reset) the position
+  useEffect(() => {
+    if (jumpToTopRef.current) {
+      jumpToTopRef.current = false;
+      goToIndex(0, true);
+      return;
+    }
+
+    const anchorId = anchorIdRef.current;
+    if (!anchorId) return;
+    anchorIdRef.current = null;
+
+    const index = filteredData.findIndex((v: VideoData) => v.id === anchorId);
+    if (index !== -1 && index !== activeIndexRef.current) {
+      goToIndex(index, false);
+    }
+  }, [filteredData]);
+
   useEffect(() => {
     if (!feedActive) {
       // Pause everything when user leaves Home tab
@@ -158,7 +193,7 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
 
     // When coming back, resume the current activeIndex
     if (filteredData.length > 0) {
-      playIndex(activeIndex);
+      playIndex(activeIndexRef.current);
     }
   }, [feedActive, activeIndex, filteredData.length]);
 
@@ -185,7 +220,7 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
 
     if (filteredData.length > 0) {
       // ✅ If we already scrolled to another video, resume that one (not the first)
-      playIndex(Math.min(activeIndex, filteredData.length - 1));
+      playIndex(Math.min(activeIndexRef.current, filteredData.length - 1));
     }
 
     return () => {
@@ -226,7 +261,9 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
     const deltaY = e?.nativeEvent?.deltaY ?? e?.deltaY ?? 0;
     const dir = deltaY > 0 ? 1 : -1;
 
-    goToIndex(activeIndexRef.current + dir, true);
+    // Scrolling up on the first video = refresh
+    if (dir < 0 && activeIndexRef.current === 0) refreshFeed(false);
+    else goToIndex(activeIndexRef.current + dir, true);
 
     // Lock long enough to avoid multiple steps from one wheel fling
     setTimeout(() => {
@@ -256,6 +293,7 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
     const threshold = 40;
 
     if (delta <= -threshold) goToIndex(activeIndexRef.current + 1, true); // swipe up => next
+    else if (delta >= threshold && activeIndexRef.current === 0) refreshFeed(false); // pull down on first => refresh
     else if (delta >= threshold) goToIndex(activeIndexRef.current - 1, true); // swipe down => prev
     else goToIndex(activeIndexRef.current, true); // snap back
   };
@@ -265,6 +303,10 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
    */
   const WheelView: any = View;
 
+  if (filter === 'Following' && !loading && filteredData.length === 0) {
+    return <FollowingFeedEmpty onReload={reload} />;
+  }
+
   return (
     <WheelView
       style={{ flex: 1 }}
@@ -284,6 +326,7 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
             key={video.id}
             video={video}
             index={index}
+            isActive={feedActive && index === activeIndex}
             height={height}
             provideRef={(el) => (videoRefs.current[index] = el)}
             onToggle={handleToggleFromItem}
@@ -291,6 +334,15 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
           />
         ))}
       </ScrollView>
+
+      {/* Pull-to-refresh spinner */}
+      {refreshing && (
+        <View style={styles.refreshIndicator}>
+          <ActivityIndicator size="small" color="#00D5FF" />
+        </View>
+      )}
+
+      <NewVideosPill count={newCount} onPress={() => refreshFeed(true)} />
     </WheelView>
   );
 }
@@ -303,6 +355,7 @@ export default function WebVideoFeed({ filter = 'All', initialVideoId, feedActiv
 type WebVideoItemProps = {
   video: VideoData;
   index: number;
+  isActive: boolean; // Visible video of a visible feed (view tracking)
   height: number;
   provideRef: (el: HTMLVideoElement | null) => void;
   onToggle: (index: number) => 'play' | 'pause';
@@ -312,6 +365,7 @@ type WebVideoItemProps = {
 function WebVideoItem({
   video,
   index,
+  isActive,
   height,
   provideRef,
   onToggle,
@@ -335,15 +389,26 @@ function WebVideoItem({
   const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
 
+  // Qualified views / watch time while this is the active video
+  const trackProgress = useViewTracking(video.id, isActive);
+
   // Like / save / comments UI state
   const [isLiked, setIsLiked] = useState(storage.isLiked(video.id));
   const [isSaved, setIsSaved] = useState(storage.isSaved(video.id));
-  const [likesCount, setLikesCount] = useState(video.likes_count || 0);
+  const [likesCount, setLikesCount] = useState(video.likes);
   const [commentsVisible, setCommentsVisible] = useState(false);
-  const [commentsCount, setCommentsCount] = useState(
-    storage.getComments(video.id).length
-  );
+  const [commentsCount, setCommentsCount] = useState(video.comments);
   const [itineraryVisible, setItineraryVisible] = useState(false);
+  const [bookingVisible, setBookingVisible] = useState(false);
+  const [collectionsVisible, setCollectionsVisible] = useState(false);
+
+  // Keep like/save state in sync when the server reconciles in the background
+  useEffect(() => {
+    return storage.subscribe(() => {
+      setIsLiked(storage.isLiked(video.id));
+      setIsSaved(storage.isSaved(video.id));
+    });
+  }, [video.id]);
 
   /**
    * Animate tap icon
@@ -392,7 +457,7 @@ function WebVideoItem({
       // Double tap - like
       lastTap.current = 0;
       if (!isLiked) {
-        const liked = storage.toggleLike(video.id);
+        const liked = syncService.toggleLike(video.id);
         setIsLiked(liked);
         setLikesCount((prev: number) => prev + 1);
         showLikeAnimation();
@@ -435,28 +500,22 @@ function WebVideoItem({
    * Likes / saves
    */
   const handleLike = () => {
-    const liked = storage.toggleLike(video.id);
+    const liked = syncService.toggleLike(video.id);
     setIsLiked(liked);
     setLikesCount((prev: number) => (liked ? prev + 1 : prev - 1));
   };
 
   const handleSave = () => {
-    const saved = storage.toggleSave(video.id);
+    const saved = syncService.toggleSave(video.id);
     setIsSaved(saved);
   };
 
   const handleComments = () => setCommentsVisible(true);
 
-  const handleCloseComments = () => {
-    setCommentsVisible(false);
-    setCommentsCount(storage.getComments(video.id).length);
-  };
+  const handleCloseComments = () => setCommentsVisible(false);
 
   const handleInfluencer = () => {
-    const influencerId = video.profile?.id || video.user_id;
-    if (influencerId) {
-      navigation.navigate('Influencer', { influencerId });
-    }
+    navigation.navigate('Influencer', { influencerId: video.influencer.id });
   };
 
   const handleTagPress = (tag: string) => {
@@ -473,14 +532,25 @@ function WebVideoItem({
     onModalChange(false);
   };
 
+  // Booking replaces the details sheet when opened from it
+  const handleBook = () => {
+    setItineraryVisible(false);
+    setBookingVisible(true);
+    onModalChange(true);
+  };
+
+  const handleCloseBooking = () => {
+    setBookingVisible(false);
+    onModalChange(false);
+  };
+
   // Pause video when modal opens
   useEffect(() => {
-    if (itineraryVisible && videoRef.current) {
+    if ((itineraryVisible || bookingVisible) && videoRef.current) {
       videoRef.current.pause();
-    } else if (!itineraryVisible && videoRef.current && !videoRef.current.paused) {
-      // Don't auto-resume - let user control
     }
-  }, [itineraryVisible]);
+    // Don't auto-resume on close - let user control
+  }, [itineraryVisible, bookingVisible]);
 
   // Track progress
   useEffect(() => {
@@ -490,11 +560,12 @@ function WebVideoItem({
     const handleTimeUpdate = () => {
       setProgress(el.currentTime);
       setDuration(el.duration || 0);
+      trackProgress(el.currentTime, el.duration);
     };
 
     el.addEventListener('timeupdate', handleTimeUpdate);
     return () => el.removeEventListener('timeupdate', handleTimeUpdate);
-  }, []);
+  }, [trackProgress]);
 
   return (
     <View style={[styles.itemContainer, { height }]}>
@@ -505,7 +576,7 @@ function WebVideoItem({
             provideRef(el);
             videoRef.current = el;
           }}
-          src={video.video_url}
+          src={video.uri}
           style={{ width: '100%', height: '100%', objectFit: 'cover' }}
           playsInline
           muted={false}
@@ -588,7 +659,11 @@ function WebVideoItem({
             <Text style={styles.actionText}>{formatCount(commentsCount)}</Text>
           </TouchableOpacity>
 
-          <TouchableOpacity style={styles.actionBtn} onPress={handleSave}>
+          <TouchableOpacity
+            style={styles.actionBtn}
+            onPress={handleSave}
+            onLongPress={() => setCollectionsVisible(true)}
+          >
             <Ionicons
               name={isSaved ? 'bookmark' : 'bookmark-outline'}
               size={30}
@@ -600,7 +675,7 @@ function WebVideoItem({
           <TouchableOpacity style={styles.actionBtn} onPress={() => {}}>
             <Ionicons name="share-outline" size={30} color="#fff" />
             <Text style={styles.actionText}>
-              {formatCount(video.shares_count || 0)}
+              {formatCount(video.shares)}
             </Text>
           </TouchableOpacity>
         </View>
@@ -611,18 +686,21 @@ function WebVideoItem({
             style={styles.influencerRow}
             onPress={handleInfluencer}
           >
-            <Text style={styles.avatar}>{video.profile?.avatar_url || '👤'}</Text>
+            <Avatar avatar={video.influencer.avatar} profileId={video.influencer.id} size={32} />
             <Text style={styles.influencerName}>
-              {video.profile?.full_name || 'Unknown'}
-              {video.profile?.verified && ' ✓'}
+              {video.influencer.name}
+              {video.influencer.verified && ' ✓'}
             </Text>
           </TouchableOpacity>
 
           <Text style={styles.title}>{video.title}</Text>
-          <Text style={styles.days}>🗓️ {video.days} ימים</Text>
+          {!!video.days && (
+            <Text style={styles.days}>🗓️ {video.days} ימים</Text>
+          )}
           <Text style={styles.location}>📍 {video.location}</Text>
+          <PriceLabel price={video.price} style={styles.price} />
 
-          {video.tags && Array.isArray(video.tags) && video.tags.length > 0 && (
+          {video.tags.length > 0 && (
             <ScrollView
               style={styles.tagsScroll}
               contentContainerStyle={styles.tagsContent}
@@ -650,7 +728,7 @@ function WebVideoItem({
               <Text style={styles.detailsBtnText}>פרטים</Text>
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.bookBtn} onPress={() => {}}>
+            <TouchableOpacity style={styles.bookBtn} onPress={handleBook}>
               <Text style={styles.bookBtnText}>הזמנה מהירה</Text>
             </TouchableOpacity>
           </View>
@@ -661,15 +739,32 @@ function WebVideoItem({
       <CommentsModal
         visible={commentsVisible}
         videoId={video.id}
+        videoOwnerId={video.influencer.id}
         onClose={handleCloseComments}
+        onCountChange={setCommentsCount}
       />
 
       {/* ITINERARY MODAL */}
       <ItineraryModal
         visible={itineraryVisible}
         video={video}
+        onBook={handleBook}
         onClose={handleCloseItinerary}
       />
+
+      {/* BOOKING MODAL */}
+      <BookingModal
+        visible={bookingVisible}
+        video={video}
+        onClose={handleCloseBooking}
+      />
+
+      {/* SAVE TO COLLECTION */}
+      <CollectionPickerModal
+        visible={collectionsVisible}
+        videoId={video.id}
+        onClose={() => setCollectionsVisible(false)}
+      />
     </View>
   );
 }
@@ -686,6 +781,15 @@ function formatCount(num: number): string {
 }
 
 const styles = StyleSheet.create({
+  refreshIndicator: {
+    position: 'absolute',
+    top: 16,
+    alignSelf: 'center',
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    zIndex: 20,
+  },
   itemContainer: {
     width,
     backgroundColor: '#000',
@@ -730,9 +834,6 @@ const styles = StyleSheet.create({
     gap: 8,
     marginBottom: 8,
   },
-  avatar: {
-    fontSize: 32,
-  },
   influencerName: {
     color: '#fff',
     fontSize: 16,
@@ -758,6 +859,15 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 3,
   },
+  price: {
+    color: '#00D5FF',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 2,
+    textShadowColor: 'rgba(0,0,0,0.8)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
   location: {
     color: '#fff',
     fontSize: 13,
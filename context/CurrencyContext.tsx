@@ -0,0 +1,113 @@
+/**
+ * ./context/CurrencyContext.tsx
+ *
+ * Preferred display currency + exchange rates for the whole app.
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Store the user's preferred currency (chosen in SettingsScreen),
+ *   persisted on device
+ * ✔ Load cached rates on start, refresh them when they are stale
+ *   (services/currencyService.ts)
+ * ✔ Expose `useCurrency()` for prices anywhere in the tree
+ *
+ * API:
+ * --------------------------------------------------------------------
+ * useCurrency() → { currency, setCurrency, rates, refreshRates, refreshing }
+ *
+ * Example:
+ * const { currency, rates } = useCurrency();
+ * convertMoney(video.price, currency, rates);
+ */
+
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+
+import { CurrencyCode, RateTable } from '../types/money';
+import { DEFAULT_CURRENCY, isCurrencyCode } from '../utils/money';
+import { persistence } from '../utils/persistence';
+import { currencyService } from '../services/currencyService';
+
+const PREFERRED_KEY = 'veeky:preferred-currency';
+
+type CurrencyContextType = {
+  /** Currency prices are shown in */
+  currency: CurrencyCode;
+
+  /** Change (and persist) the preferred currency */
+  setCurrency: (currency: CurrencyCode) => void;
+
+  /** Rates in use (bundled, cached or freshly fetched) */
+  rates: RateTable;
+
+  /** Fetch new rates; resolves false when the source could not be reached */
+  refreshRates: () => Promise<boolean>;
+
+  refreshing: boolean;
+};
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const CurrencyProvider = ({ children }: { children: ReactNode }) => {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<RateTable>(currencyService.getRates());
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Restore preference + cached rates, refresh in the background if old
+  useEffect(() => {
+    const unsubscribe = currencyService.subscribe(setRates);
+
+    persistence.getItem(PREFERRED_KEY).then((stored) => {
+      if (isCurrencyCode(stored)) setCurrencyState(stored);
+    });
+
+    currencyService.load().then(() => {
+      if (currencyService.isStale()) {
+        currencyService
+          .refresh()
+          .catch((err) => console.log('currency: refresh failed, keeping cached rates', err));
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  const setCurrency = (next: CurrencyCode) => {
+    setCurrencyState(next);
+    persistence
+      .setItem(PREFERRED_KEY, next)
+      .catch((err) => console.error('currency: failed to persist preference', err));
+  };
+
+  const refreshRates = async () => {
+    setRefreshing(true);
+    try {
+      await currencyService.refresh();
+      return true;
+    } catch (err) {
+      console.log('currency: refresh failed', err);
+      return false;
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency, rates, refreshRates, refreshing }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+/**
+ * useCurrency
+ *
+ * Access the preferred currency and rates inside any component.
+ */
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+
+  if (!context)
+    throw new Error('useCurrency must be used within CurrencyProvider');
+
+  return context;
+};
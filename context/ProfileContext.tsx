@@ -0,0 +1,123 @@
+/**
+ * ./context/ProfileContext.tsx
+ *
+ * The signed-in user's own `profiles` row, shared by the whole app.
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Load the profile whenever the signed-in user changes, clear it
+ *   on sign out
+ * ✔ Save edits (EditProfileScreen) and swap in the saved row right
+ *   away, so ProfileScreen and every <Avatar> of the user update
+ *   without a refetch
+ * ✔ Upload a new avatar and drop the previous image files
+ *
+ * API:
+ * --------------------------------------------------------------------
+ * useMyProfile() → { profile, loading, reload, updateProfile, updateAvatar }
+ *
+ * Example:
+ * const { profile, updateProfile } = useMyProfile();
+ * await updateProfile({ bio: 'מטיילת בעולם 🌍' });
+ */
+
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+
+import { supabase } from '../lib/supabase';
+import { Profile } from '../types/database';
+import { profileService, ProfileChanges } from '../services/profileService';
+import { uploadService, UploadFile } from '../services/uploadService';
+
+type ProfileContextType = {
+  /** The signed-in user's profile (null while signed out / loading) */
+  profile: Profile | null;
+
+  loading: boolean;
+
+  /** Fetch the profile again */
+  reload: () => Promise<void>;
+
+  /** Save changes; rejects with UsernameTakenError on a taken username */
+  updateProfile: (changes: ProfileChanges) => Promise<Profile>;
+
+  /** Upload an image and make it the avatar */
+  updateAvatar: (file: UploadFile) => Promise<Profile>;
+};
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export const ProfileProvider = ({ children }: { children: ReactNode }) => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Only remember who is signed in here: supabase calls inside the
+  // auth callback can deadlock, the effect below does the loading
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    setProfile(null);
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    profileService
+      .getProfile(userId)
+      .then((row) => !cancelled && setProfile(row))
+      .catch((err) => console.error('❌ Loading my profile failed:', err))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const reload = async () => {
+    if (!userId) return;
+    setProfile(await profileService.getProfile(userId));
+  };
+
+  const updateProfile = async (changes: ProfileChanges) => {
+    const saved = await profileService.updateMyProfile(changes);
+    setProfile(saved);
+    return saved;
+  };
+
+  const updateAvatar = async (file: UploadFile) => {
+    const url = await uploadService.uploadAvatar(file);
+    const saved = await updateProfile({ avatar_url: url });
+
+    uploadService
+      .removeOldAvatars(url)
+      .catch((err) => console.error('❌ Could not remove old avatar images:', err));
+
+    return saved;
+  };
+
+  return (
+    <ProfileContext.Provider value={{ profile, loading, reload, updateProfile, updateAvatar }}>
+      {children}
+    </ProfileContext.Provider>
+  );
+};
+
+/**
+ * useMyProfile
+ *
+ * Access the signed-in user's profile inside any component.
+ */
+export const useMyProfile = () => {
+  const context = useContext(ProfileContext);
+
+  if (!context)
+    throw new Error('useMyProfile must be used within ProfileProvider');
+
+  return context;
+};
@@ -0,0 +1,359 @@
+/**
+ * ./hooks/useComments.ts
+ *
+ * Paginated comments of one video, with reply threads and likes,
+ * for CommentsModal.
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Load the first page whenever the video, the sort or `enabled`
+ *   changes (nothing is fetched while the modal is closed)
+ * ✔ loadMore(): next page of top-level comments (deduped by id)
+ * ✔ Threads: replies stay collapsed until loadReplies(); every call
+ *   loads the next page of that thread, collapseReplies() hides it
+ * ✔ add(): post a comment, or a reply when a comment is given
+ *   (replies to replies join the root thread, like the database does)
+ * ✔ remove(): delete one of the user's own comments / replies, or any
+ *   comment when the user created the video
+ * ✔ setHidden() (video creator) / report() (everyone else)
+ * ✔ toggleLike(): optimistic like / unlike, rolled back on failure
+ * ✔ Keep `total` (replies included) in step with the server count
+ *   and with every add / remove
+ * ✔ Ignore responses for a video / sort the user already left
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const { comments, threads, total, add, loadReplies } = useComments(videoId, 'newest', visible);
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Comment, CommentReportReason } from '../types/database';
+import { commentService, CommentCursor, CommentSort } from '../services/commentService';
+
+export type ThreadState = {
+  replies: Comment[];
+  nextCursor: CommentCursor | null;
+  loaded: boolean;      // First page fetched
+  loading: boolean;
+  expanded: boolean;
+};
+
+const EMPTY_THREAD: ThreadState = {
+  replies: [],
+  nextCursor: null,
+  loaded: false,
+  loading: false,
+  expanded: false,
+};
+
+export function useComments(videoId: string, sort: CommentSort, enabled: boolean) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [threads, setThreads] = useState<Record<string, ThreadState>>({});
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [total, setTotal] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const cursorRef = useRef<CommentCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+
+  // Bumped on every reload; stale responses compare against it
+  const requestIdRef = useRef(0);
+
+  /**
+   * Which of the freshly loaded comments the user liked. Best effort:
+   * without it the hearts just start empty.
+   */
+  const loadLikes = useCallback((loaded: Comment[], requestId: number) => {
+    commentService
+      .getLikedCommentIds(loaded.map((c) => c.id))
+      .then((ids) => {
+        if (requestId !== requestIdRef.current || ids.length === 0) return;
+        setLikedIds((prev) => new Set([...prev, ...ids]));
+      })
+      .catch((err) => console.log('comments: could not load liked state', err));
+  }, []);
+
+  /**
+   * Apply `update` to a comment wherever it is shown (top level or thread).
+   */
+  const patchComment = useCallback((id: string, update: (c: Comment) => Comment) => {
+    setComments((prev) => prev.map((c) => (c.id === id ? update(c) : c)));
+    setThreads((prev) => {
+      const next: Record<string, ThreadState> = {};
+      Object.entries(prev).forEach(([rootId, thread]) => {
+        next[rootId] = {
+          ...thread,
+          replies: thread.replies.map((c) => (c.id === id ? update(c) : c)),
+        };
+      });
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const requestId = ++requestIdRef.current;
+    cursorRef.current = null;
+    loadingMoreRef.current = false;
+
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+    setThreads({});
+
+    commentService
+      .getComments(videoId, sort)
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        cursorRef.current = page.nextCursor;
+        setComments(page.comments);
+        setTotal(page.total);
+        setHasMore(!!page.nextCursor);
+        loadLikes(page.comments, requestId);
+      })
+      .catch((err) => {
+        if (requestId !== requestIdRef.current) return;
+        console.error('❌ Loading comments failed:', err);
+        setError('לא הצלחנו לטעון את התגובות');
+        setComments([]);
+        setHasMore(false);
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [videoId, sort, enabled, loadLikes]);
+
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (loading || !cursor || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await commentService.getComments(videoId, sort, cursor);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(!!page.nextCursor);
+      setComments((prev) => {
+        const seen = new Set(prev.map((c) => c.id));
+        return [...prev, ...page.comments.filter((c) => !seen.has(c.id))];
+      });
+      loadLikes(page.comments, requestId);
+    } catch (err) {
+      console.error('❌ Loading more comments failed:', err);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [videoId, sort, loading, loadLikes]);
+
+  /**
+   * Expand a thread and load its next page of replies
+   * (the first page when it was never opened).
+   */
+  const loadReplies = useCallback(
+    async (rootId: string) => {
+      const thread = threadsRef.current[rootId] ?? EMPTY_THREAD;
+      if (thread.loading) return;
+
+      if (thread.loaded && !thread.nextCursor) {
+        setThreads((prev) => ({ ...prev, [rootId]: { ...thread, expanded: true } }));
+        return;
+      }
+
+      const requestId = requestIdRef.current;
+      setThreads((prev) => ({ ...prev, [rootId]: { ...thread, loading: true, expanded: true } }));
+
+      try {
+        const page = await commentService.getReplies(rootId, thread.nextCursor);
+        if (requestId !== requestIdRef.current) return;
+
+        setThreads((prev) => {
+          const current = prev[rootId] ?? EMPTY_THREAD;
+          const seen = new Set(current.replies.map((c) => c.id));
+          return {
+            ...prev,
+            [rootId]: {
+              ...current,
+              replies: [...current.replies, ...page.comments.filter((c) => !seen.has(c.id))],
+              nextCursor: page.nextCursor,
+              loaded: true,
+              loading: false,
+            },
+          };
+        });
+        loadLikes(page.comments, requestId);
+      } catch (err) {
+        console.error('❌ Loading replies failed:', err);
+        if (requestId !== requestIdRef.current) return;
+        setThreads((prev) => ({
+          ...prev,
+          [rootId]: { ...(prev[rootId] ?? EMPTY_THREAD), loading: false },
+        }));
+      }
+    },
+    [loadLikes]
+  );
+
+  const collapseReplies = useCallback((rootId: string) => {
+    setThreads((prev) =>
+      prev[rootId] ? { ...prev, [rootId]: { ...prev[rootId], expanded: false } } : prev
+    );
+  }, []);
+
+  /**
+   * Post a comment, or a reply to `replyTo`. Errors are left to the
+   * caller, so it can keep the text in the input when posting failed.
+   */
+  const add = useCallback(
+    async (text: string, replyTo: Comment | null = null) => {
+      const rootId = replyTo ? replyTo.parent_id ?? replyTo.id : null;
+      const comment = await commentService.addComment(videoId, text, rootId);
+
+      if (rootId) {
+        patchComment(rootId, (c) => ({ ...c, replies_count: c.replies_count + 1 }));
+
+        const thread = threadsRef.current[rootId] ?? EMPTY_THREAD;
+        if (!thread.loaded) {
+          // Opening the thread fetches it, new reply included
+          loadReplies(rootId);
+        } else {
+          // Only append when the thread's end is loaded, otherwise the
+          // next page brings it in
+          setThreads((prev) => {
+            const current = prev[rootId] ?? thread;
+            return {
+              ...prev,
+              [rootId]: {
+                ...current,
+                replies: current.nextCursor ? current.replies : [...current.replies, comment],
+                expanded: true,
+              },
+            };
+          });
+        }
+      } else {
+        setComments((prev) => {
+          if (sort === 'newest') return [comment, ...prev];
+          // Oldest first: only append when the end of the list is loaded
+          return cursorRef.current ? prev : [...prev, comment];
+        });
+      }
+
+      setTotal((prev) => (prev ?? 0) + 1);
+      return comment;
+    },
+    [videoId, sort, patchComment, loadReplies]
+  );
+
+  /**
+   * Delete a comment. A top-level comment takes its replies with it.
+   */
+  const remove = useCallback(
+    async (comment: Comment) => {
+      await commentService.deleteComment(comment.id);
+
+      if (comment.parent_id) {
+        const rootId = comment.parent_id;
+        patchComment(rootId, (c) => ({ ...c, replies_count: Math.max(c.replies_count - 1, 0) }));
+        setThreads((prev) =>
+          prev[rootId]
+            ? {
+                ...prev,
+                [rootId]: {
+                  ...prev[rootId],
+                  replies: prev[rootId].replies.filter((c) => c.id !== comment.id),
+                },
+              }
+            : prev
+        );
+        setTotal((prev) => Math.max((prev ?? 0) - 1, 0));
+      } else {
+        setComments((prev) => prev.filter((c) => c.id !== comment.id));
+        setThreads((prev) => {
+          const { [comment.id]: _removed, ...rest } = prev;
+          return rest;
+        });
+        setTotal((prev) => Math.max((prev ?? 0) - 1 - comment.replies_count, 0));
+      }
+    },
+    [patchComment]
+  );
+
+  /**
+   * Hide / show a comment (video creator only). The comment stays in
+   * the list, marked hidden, so it can be shown again.
+   */
+  const setHidden = useCallback(
+    async (comment: Comment, hidden: boolean) => {
+      const updated = await commentService.setCommentHidden(comment.id, hidden);
+      patchComment(comment.id, (c) => ({ ...c, hidden: updated.hidden }));
+    },
+    [patchComment]
+  );
+
+  const report = useCallback(async (comment: Comment, reason: CommentReportReason) => {
+    await commentService.reportComment(comment.id, reason);
+  }, []);
+
+  /**
+   * Like / unlike, shown right away. Errors are left to the caller
+   * after the optimistic change was rolled back.
+   */
+  const toggleLike = useCallback(
+    async (comment: Comment) => {
+      const liked = !likedIds.has(comment.id);
+      const apply = (value: boolean) => {
+        setLikedIds((prev) => {
+          const next = new Set(prev);
+          if (value) next.add(comment.id);
+          else next.delete(comment.id);
+          return next;
+        });
+        patchComment(comment.id, (c) => ({
+          ...c,
+          likes_count: Math.max(c.likes_count + (value ? 1 : -1), 0),
+        }));
+      };
+
+      apply(liked);
+      try {
+        await commentService.setCommentLike(comment.id, liked);
+      } catch (err) {
+        apply(!liked);
+        throw err;
+      }
+    },
+    [likedIds, patchComment]
+  );
+
+  return {
+    comments,
+    threads,
+    likedIds,
+    total,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    loadReplies,
+    collapseReplies,
+    add,
+    remove,
+    setHidden,
+    report,
+    toggleLike,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * ./hooks/useDebouncedValue.ts
+ *
+ * Returns `value` only after it stopped changing for `delay` ms.
+ * Used by SearchScreen so we query Supabase once the user pauses
+ * typing, not on every keystroke.
+ *
+ * Example:
+ * const debouncedQuery = useDebouncedValue(query, 300);
+ */
+
+import { useEffect, useState } from 'react';
+
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
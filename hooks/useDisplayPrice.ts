@@ -0,0 +1,34 @@
+/**
+ * ./hooks/useDisplayPrice.ts
+ *
+ * A price as text in the user's preferred currency (CurrencyContext),
+ * plus the original price when a conversion happened.
+ *
+ * Example:
+ * const { display, original } = useDisplayPrice(video.price);
+ * // preferred ILS, price in EUR → { display: "≈ 3,600 ₪ לאדם", original: "900 € לאדם" }
+ * // same currency               → { display: "3,500 ₪ לאדם", original: null }
+ */
+
+import { useMemo } from 'react';
+
+import { Price } from '../types/money';
+import { useCurrency } from '../context/CurrencyContext';
+import { convertMoney, formatPrice } from '../utils/money';
+
+export type DisplayPrice = {
+  display: string;
+  original: string | null;   // Set only when `display` is converted
+};
+
+export function useDisplayPrice(price: Price | null): DisplayPrice | null {
+  const { currency, rates } = useCurrency();
+
+  return useMemo(() => {
+    if (!price) return null;
+    if (price.currency === currency) return { display: formatPrice(price), original: null };
+
+    const converted = { ...convertMoney(price, currency, rates), basis: price.basis };
+    return { display: `≈ ${formatPrice(converted)}`, original: formatPrice(price) };
+  }, [price, currency, rates]);
+}
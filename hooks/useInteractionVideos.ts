@@ -0,0 +1,271 @@
+/**
+ * ./hooks/useInteractionVideos.ts
+ *
+ * The signed-in user's liked or saved videos, for LikedScreen and
+ * SavesScreen — or the videos of one of their collections.
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Load from the `likes` / `saves` tables joined with videos and
+ *   profiles, most recently liked/saved first
+ *   (videoService.getInteractionVideos); with a collectionId, from
+ *   `collection_items`, most recently added first
+ * ✔ loadMore() / refresh() with a keyset cursor
+ * ✔ Follow local state (utils/storage.ts): pending toggles are flushed
+ *   before the first page, videos un-liked/un-saved elsewhere disappear
+ *   right away, and reloadIfStale() refetches after other changes
+ * ✔ remove(videoId) with undo: the video leaves the grid at once, the
+ *   un-like/un-save itself is only sent when the undo window closes
+ *   (another removal, leaving the screen, or UNDO_MS later), so undo
+ *   keeps the original position and date. Inside a collection,
+ *   removing only takes the video out of that collection.
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const { videos, remove, removed, undoRemove } = useInteractionVideos('saves');
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { videoService, InteractionTable, VideoCursor } from '../services/videoService';
+import { syncService } from '../services/syncService';
+import { collectionService } from '../services/collectionService';
+import { VideoData } from '../types/video';
+import { storage } from '../utils/storage';
+import { toVideoData } from '../utils/videoMapper';
+
+// Videos per request (ten rows of the 3-column grid)
+const PAGE_SIZE = 30;
+
+// How long a removal can be undone
+export const UNDO_MS = 4_000;
+
+type PendingRemoval = {
+  video: VideoData;
+  index: number;
+};
+
+// Is the video still liked / saved locally (server state + pending intent)?
+function isActive(table: InteractionTable, videoId: string) {
+  return table === 'likes' ? storage.isLiked(videoId) : storage.isSaved(videoId);
+}
+
+export function useInteractionVideos(table: InteractionTable, collectionId?: string) {
+  const [videos, setVideos] = useState<VideoData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [removed, setRemoved] = useState<VideoData | null>(null);
+
+  const cursorRef = useRef<VideoCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+
+  // Bumped on every new first page; stale responses compare against it
+  const requestIdRef = useRef(0);
+
+  const pendingRef = useRef<PendingRemoval | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Set when likes/saves changed outside this hook since the last load
+  const staleRef = useRef(false);
+  const selfChangeRef = useRef(false);
+
+  const visible = useCallback(
+    (rows: VideoData[]) =>
+      rows.filter((v) => isActive(table, v.id) && v.id !== pendingRef.current?.video.id),
+    [table]
+  );
+
+  /**
+   * Send the pending removal (un-like / un-save through the sync queue)
+   */
+  const commitRemoval = useCallback(() => {
+    if (undoTimerRef.current) {
+      clearTimeout(undoTimerRef.current);
+      undoTimerRef.current = null;
+    }
+
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    setRemoved(null);
+    if (!pending) return;
+
+    if (collectionId) {
+      collectionService
+        .setInCollection(collectionId, pending.video.id, false)
+        .catch((err) => {
+          console.error('❌ Removing from collection failed:', err);
+          staleRef.current = true;
+        });
+      return;
+    }
+
+    if (!isActive(table, pending.video.id)) return;
+
+    selfChangeRef.current = true;
+    try {
+      if (table === 'likes') syncService.toggleLike(pending.video.id);
+      else syncService.toggleSave(pending.video.id);
+    } finally {
+      selfChangeRef.current = false;
+    }
+  }, [table, collectionId]);
+
+  // One page of the list this hook shows
+  const fetchPage = useCallback(
+    (cursor: VideoCursor | null) =>
+      collectionId
+        ? collectionService.getCollectionVideos(collectionId, cursor, PAGE_SIZE)
+        : videoService.getInteractionVideos(table, cursor, PAGE_SIZE),
+    [table, collectionId]
+  );
+
+  const loadFirstPage = useCallback(
+    async (mode: 'initial' | 'refresh') => {
+      const requestId = ++requestIdRef.current;
+      cursorRef.current = null;
+      loadingMoreRef.current = false;
+      staleRef.current = false;
+
+      setLoadingMore(false);
+      setError(null);
+      if (mode === 'initial') setLoading(true);
+      else setRefreshing(true);
+
+      try {
+        // Likes/saves still in the sync queue should be on the server first
+        await syncService.flush();
+
+        const page = await fetchPage(null);
+        if (requestId !== requestIdRef.current) return;
+
+        cursorRef.current = page.nextCursor;
+        setHasMore(!!page.nextCursor);
+        setVideos(visible(page.videos.map(toVideoData)));
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        console.error(`❌ Loading ${table} failed:`, err);
+        setError('לא הצלחנו לטעון את הסרטונים');
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+          setRefreshing(false);
+        }
+      }
+    },
+    [table, visible, fetchPage]
+  );
+
+  useEffect(() => {
+    setVideos([]);
+    loadFirstPage('initial');
+  }, [loadFirstPage]);
+
+  // Likes/saves changed somewhere else (feed, another device via sync)
+  useEffect(() => {
+    return storage.subscribe(() => {
+      if (selfChangeRef.current) return;
+      staleRef.current = true;
+      setVideos((prev) => {
+        const next = prev.filter((v) => isActive(table, v.id));
+        return next.length === prev.length ? prev : next;
+      });
+    });
+  }, [table]);
+
+  // Leaving the screen closes the undo window
+  useEffect(() => commitRemoval, [commitRemoval]);
+
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchPage(cursor);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(!!page.nextCursor);
+      setVideos((prev) => {
+        const seen = new Set(prev.map((v) => v.id));
+        return [...prev, ...visible(page.videos.map(toVideoData)).filter((v) => !seen.has(v.id))];
+      });
+    } catch (err) {
+      // Keep the cursor, the next onEndReached retries
+      console.error(`❌ Loading more ${table} failed:`, err);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [table, visible, fetchPage]);
+
+  const refresh = useCallback(() => {
+    commitRemoval();
+    return loadFirstPage('refresh');
+  }, [commitRemoval, loadFirstPage]);
+
+  // For useFocusEffect: refetch only when something changed meanwhile
+  const reloadIfStale = useCallback(() => {
+    if (staleRef.current) refresh();
+  }, [refresh]);
+
+  /**
+   * Take a video out of the grid; undoRemove() puts it back
+   */
+  const remove = useCallback(
+    (videoId: string) => {
+      commitRemoval();
+
+      const index = videos.findIndex((v) => v.id === videoId);
+      if (index === -1) return;
+
+      pendingRef.current = { video: videos[index], index };
+      setRemoved(videos[index]);
+      setVideos((prev) => prev.filter((v) => v.id !== videoId));
+
+      undoTimerRef.current = setTimeout(commitRemoval, UNDO_MS);
+    },
+    [videos, commitRemoval]
+  );
+
+  const undoRemove = useCallback(() => {
+    if (undoTimerRef.current) {
+      clearTimeout(undoTimerRef.current);
+      undoTimerRef.current = null;
+    }
+
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    setRemoved(null);
+    if (!pending) return;
+
+    setVideos((prev) => {
+      if (prev.some((v) => v.id === pending.video.id)) return prev;
+      const next = [...prev];
+      next.splice(Math.min(pending.index, next.length), 0, pending.video);
+      return next;
+    });
+  }, []);
+
+  return {
+    videos,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    hasMore,
+    loadMore,
+    refresh,
+    reloadIfStale,
+    remove,
+    removed,
+    undoRemove,
+  };
+}
@@ -0,0 +1,353 @@
+/**
+ * ./hooks/usePaginatedVideos.ts
+ *
+ * Infinite-scroll data source shared by VideoFeed (native FlatList)
+ * and WebVideoFeed (wheel / touch driven ScrollView).
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Load the first page whenever the filter changes (a category, or
+ *   'Following' = only creators the user follows, see FeedFilter)
+ * ✔ Prefetch the next page while the user is still watching,
+ *   as soon as the active index gets close to the end of the list
+ * ✔ Cursor-based (created_at + id), see videoService.getVideos().
+ *   Changing the filter starts over with a fresh cursor, so the
+ *   'Following' feed never continues where the All feed stopped.
+ * ✔ Dedupe by id, so rows that shift between pages never show twice
+ * ✔ Ignore responses that arrive after the filter already changed
+ * ✔ 'ForYou': candidates are loaded in larger batches (newest first)
+ *   and every batch is ordered by utils/feedRanking.ts, using a taste
+ *   profile built from the user's liked and saved videos
+ * ✔ refresh(): fetch everything newer than the newest loaded video and
+ *   put it in front of the list. Resolves with the number of videos
+ *   added, so the feed can shift its active index and keep playing
+ *   the same video.
+ * ✔ newCount: videos published since the newest loaded one
+ *   (polled while the feed is active, drives the "N new videos" pill)
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const { videos, loading, error, reload, refresh, newCount } =
+ *   usePaginatedVideos(filter, activeIndex, feedActive);
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { videoService, VideoCursor } from '../services/videoService';
+import { Video } from '../types/database';
+import { FeedFilter, VideoData } from '../types/video';
+import { toVideoData } from '../utils/videoMapper';
+import { storageAsync } from '../utils/storage';
+import { buildTasteProfile, EMPTY_TASTE, rankForYou, RankingContext } from '../utils/feedRanking';
+
+// Videos per request
+export const PAGE_SIZE = 10;
+
+// Candidates per request in the 'ForYou' feed (ranked as one batch)
+const FOR_YOU_PAGE_SIZE = 30;
+
+// Most recent likes / saves the taste profile is built from
+const TASTE_SAMPLE_SIZE = 50;
+
+// Start loading the next page when this many videos are left
+const PREFETCH_THRESHOLD = 3;
+
+// How often to check for new videos while the feed is visible
+const NEW_VIDEOS_POLL_MS = 60_000;
+
+// Upper bound of pages fetched by a single refresh
+const MAX_REFRESH_PAGES = 5;
+
+/**
+ * Append `incoming` to `current`, skipping ids we already have.
+ */
+function mergeUnique(current: VideoData[], incoming: VideoData[]): VideoData[] {
+  const fresh = uniqueAgainst(current, incoming);
+  return fresh.length > 0 ? [...current, ...fresh] : current;
+}
+
+/**
+ * Items of `incoming` whose id is neither in `current` nor repeated.
+ */
+function uniqueAgainst(current: VideoData[], incoming: VideoData[]): VideoData[] {
+  const seen = new Set(current.map((v) => v.id));
+  return incoming.filter((v) => {
+    if (seen.has(v.id)) return false;
+    seen.add(v.id);
+    return true;
+  });
+}
+
+/**
+ * Newest (created_at, id) among `current` and `rows`. Not simply the
+ * first video of the list: the 'ForYou' feed is ranked, not by date.
+ */
+function newestCursor(current: VideoCursor | null, rows: Video[]): VideoCursor | null {
+  return rows.reduce<VideoCursor | null>((newest, row) => {
+    const candidate = { createdAt: row.created_at, id: row.id };
+    return !newest || compareCursors(candidate, newest) > 0 ? candidate : newest;
+  }, current);
+}
+
+/**
+ * Order of two cursors, like the server's (created_at, id) keyset.
+ * Same-millisecond timestamps fall back to the text (microseconds).
+ */
+function compareCursors(a: VideoCursor, b: VideoCursor): number {
+  const byTime = Date.parse(a.createdAt) - Date.parse(b.createdAt);
+  if (byTime !== 0) return byTime;
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? -1 : 1;
+  return a.id === b.id ? 0 : a.id < b.id ? -1 : 1;
+}
+
+/**
+ * Ids of the TASTE_SAMPLE_SIZE most recent interaction rows that are
+ * still active locally (a pending un-like is already gone here).
+ */
+function latestIds(rows: { video_id: string; created_at: string }[], active: Set<string>): string[] {
+  return rows
+    .filter((row) => active.has(row.video_id))
+    .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+    .slice(0, TASTE_SAMPLE_SIZE)
+    .map((row) => row.video_id);
+}
+
+/**
+ * Ranking context of the current user. Falls back to an empty taste
+ * profile (engagement + freshness only) when it can't be loaded.
+ */
+async function loadRankingContext(): Promise<Omit<RankingContext, 'now'>> {
+  const [likedIds, savedIds] = await Promise.all([
+    storageAsync.getLikedVideos(),
+    storageAsync.getSavedVideos(),
+  ]);
+
+  try {
+    // Latest likes / saves by the server's created_at (local sets are
+    // rebuilt by the sync engine and say nothing about recency)
+    const [likeRows, saveRows] = await Promise.all([
+      videoService.getInteractions('likes'),
+      videoService.getInteractions('saves'),
+    ]);
+
+    const [liked, saved] = await Promise.all([
+      videoService.getVideosByIds(latestIds(likeRows, new Set(likedIds))),
+      videoService.getVideosByIds(latestIds(saveRows, new Set(savedIds))),
+    ]);
+
+    return {
+      taste: buildTasteProfile(liked.map(toVideoData), saved.map(toVideoData)),
+      likedIds: new Set(likedIds),
+      savedIds: new Set(savedIds),
+    };
+  } catch (err) {
+    console.error('❌ Error loading the taste profile:', err);
+    return { taste: EMPTY_TASTE, likedIds: new Set(likedIds), savedIds: new Set(savedIds) };
+  }
+}
+
+export function usePaginatedVideos(filter: FeedFilter, activeIndex: number, active = true) {
+  const [videos, setVideos] = useState<VideoData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [newCount, setNewCount] = useState(0);
+
+  // Latest list, for callbacks that must not be recreated on every page
+  const videosRef = useRef<VideoData[]>([]);
+  videosRef.current = videos;
+
+  const cursorRef = useRef<VideoCursor | null>(null);
+  // Newest row loaded so far: where refresh() and the poll start from
+  const newestRef = useRef<VideoCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  const refreshingRef = useRef(false);
+
+  // Bumped on every (re)load; stale responses compare against it
+  const requestIdRef = useRef(0);
+
+  // 'ForYou' only: loaded on every (re)load
+  const rankingRef = useRef<Omit<RankingContext, 'now'> | null>(null);
+
+  const pageSize = filter === 'ForYou' ? FOR_YOU_PAGE_SIZE : PAGE_SIZE;
+
+  // Rows of one page → view models, in the order the feed shows them
+  const arrange = useCallback(
+    (rows: Video[]): VideoData[] => {
+      const page = rows.map(toVideoData);
+      const ranking = rankingRef.current;
+      if (filter !== 'ForYou' || !ranking) return page;
+
+      // Average watch completion (videos.avg_completion, from view tracking)
+      const completion: Record<string, number> = {};
+      rows.forEach((row) => {
+        if (row.avg_completion != null) completion[row.id] = row.avg_completion;
+      });
+
+      return rankForYou(page, { ...ranking, completion, now: Date.now() });
+    },
+    [filter]
+  );
+
+  const reload = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    cursorRef.current = null;
+    newestRef.current = null;
+    loadingMoreRef.current = false;
+
+    try {
+      setLoading(true);
+      setLoadingMore(false);
+      setError(null);
+      setNewCount(0);
+
+      rankingRef.current = filter === 'ForYou' ? await loadRankingContext() : null;
+      if (requestId !== requestIdRef.current) return;
+
+      const page = await videoService.getVideos(null, pageSize, filter);
+      if (requestId !== requestIdRef.current) return;
+
+      console.log('📹 Loaded from DB:', page.videos.length, 'videos');
+      cursorRef.current = page.nextCursor;
+      newestRef.current = newestCursor(null, page.videos);
+      setHasMore(!!page.nextCursor);
+      setVideos(mergeUnique([], arrange(page.videos)));
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('❌ Error loading videos:', err);
+      setError('Failed to load videos');
+      setVideos([]);
+      setHasMore(false);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [filter, pageSize, arrange]);
+
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await videoService.getVideos(cursor, pageSize, filter);
+      if (requestId !== requestIdRef.current) return;
+
+      console.log('📹 Loaded next page:', page.videos.length, 'videos');
+      cursorRef.current = page.nextCursor;
+      newestRef.current = newestCursor(newestRef.current, page.videos);
+      setHasMore(!!page.nextCursor);
+      setVideos((prev) => mergeUnique(prev, arrange(page.videos)));
+    } catch (err) {
+      // Keep the cursor, the next prefetch trigger retries
+      console.error('❌ Error loading more videos:', err);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [filter, pageSize, arrange]);
+
+  const refresh = useCallback(async (): Promise<number> => {
+    const since = newestRef.current;
+
+    // Nothing loaded yet (or the first load failed): just start over
+    if (!since) {
+      await reload();
+      return 0;
+    }
+
+    // One refresh at a time (pull + pill can fire together)
+    if (refreshingRef.current) return 0;
+    refreshingRef.current = true;
+
+    const requestId = requestIdRef.current;
+    setRefreshing(true);
+
+    try {
+      // Pages come oldest first; walk forward until we are up to date
+      const rows: Video[] = [];
+      let cursor = since;
+      for (let i = 0; i < MAX_REFRESH_PAGES; i++) {
+        const page = await videoService.getNewerVideos(cursor, PAGE_SIZE, filter);
+        rows.push(...page);
+
+        const last = page[page.length - 1];
+        if (page.length < PAGE_SIZE || !last) break;
+        cursor = { createdAt: last.created_at, id: last.id };
+      }
+
+      if (requestId !== requestIdRef.current) return 0;
+      newestRef.current = newestCursor(newestRef.current, rows);
+
+      // Newest first (or ranked), in front of what is already loaded
+      const fresh = uniqueAgainst(videosRef.current, arrange(rows.reverse()));
+      console.log('📹 Refreshed:', fresh.length, 'new videos');
+
+      if (fresh.length > 0) {
+        videosRef.current = [...fresh, ...videosRef.current];
+        setVideos(videosRef.current);
+      }
+      setNewCount(0);
+      return fresh.length;
+    } catch (err) {
+      console.error('❌ Error refreshing videos:', err);
+      return 0;
+    } finally {
+      refreshingRef.current = false;
+      setRefreshing(false);
+    }
+  }, [filter, reload, arrange]);
+
+  // First page (and again on every filter change)
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Prefetch when the active video is close to the end
+  useEffect(() => {
+    if (loading || !hasMore) return;
+    if (activeIndex >= videos.length - PREFETCH_THRESHOLD) {
+      loadMore();
+    }
+  }, [activeIndex, videos.length, loading, hasMore, loadMore]);
+
+  // Poll for new videos while the feed is visible
+  useEffect(() => {
+    if (!active || loading) return;
+
+    const check = async () => {
+      const since = newestRef.current;
+      if (!since) return;
+
+      const requestId = requestIdRef.current;
+      try {
+        const count = await videoService.countNewerVideos(since, filter);
+        if (requestId === requestIdRef.current) setNewCount(count);
+      } catch (err) {
+        console.error('❌ Error checking for new videos:', err);
+      }
+    };
+
+    check();
+    const timer = setInterval(check, NEW_VIDEOS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [active, loading, filter]);
+
+  return {
+    videos,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    hasMore,
+    newCount,
+    reload,
+    loadMore,
+    refresh,
+  };
+}
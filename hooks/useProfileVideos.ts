@@ -0,0 +1,101 @@
+/**
+ * ./hooks/useProfileVideos.ts
+ *
+ * Paginated videos of one profile for InfluencerScreen.
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Load the first page whenever the profile or the category changes
+ * ✔ loadMore(): next page (keyset cursor, videoService.getUserVideos),
+ *   appended and deduped by id
+ * ✔ Ignore responses for a profile / category the user already left
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const { videos, loading, loadMore } = useProfileVideos(profile?.id, category);
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { videoService, VideoCursor } from '../services/videoService';
+import { VideoCategory } from '../types/database';
+import { VideoData } from '../types/video';
+import { toVideoData } from '../utils/videoMapper';
+
+// Videos per request (six rows of the 3-column grid)
+const PAGE_SIZE = 18;
+
+export function useProfileVideos(userId: string | undefined, category?: VideoCategory) {
+  const [videos, setVideos] = useState<VideoData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const cursorRef = useRef<VideoCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+
+  // Bumped on every new first page; stale responses compare against it
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    cursorRef.current = null;
+    loadingMoreRef.current = false;
+
+    setVideos([]);
+    setLoadingMore(false);
+    setError(null);
+
+    if (!userId) return;
+    setLoading(true);
+
+    videoService
+      .getUserVideos(userId, null, PAGE_SIZE, category)
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        cursorRef.current = page.nextCursor;
+        setHasMore(!!page.nextCursor);
+        setVideos(page.videos.map(toVideoData));
+      })
+      .catch((err) => {
+        if (requestId !== requestIdRef.current) return;
+        console.error('❌ Loading profile videos failed:', err);
+        setError('לא הצלחנו לטעון את הסרטונים');
+        setHasMore(false);
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [userId, category]);
+
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!userId || !cursor || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await videoService.getUserVideos(userId, cursor, PAGE_SIZE, category);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(!!page.nextCursor);
+      setVideos((prev) => {
+        const seen = new Set(prev.map((v) => v.id));
+        return [...prev, ...page.videos.map(toVideoData).filter((v) => !seen.has(v.id))];
+      });
+    } catch (err) {
+      // Keep the cursor, the next onEndReached retries
+      console.error('❌ Loading more profile videos failed:', err);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [userId, category]);
+
+  return { videos, loading, loadingMore, error, hasMore, loadMore };
+}
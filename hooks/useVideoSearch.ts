@@ -0,0 +1,106 @@
+/**
+ * ./hooks/useVideoSearch.ts
+ *
+ * Paginated, debounced video search for SearchScreen.
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Debounce the query (no request per keystroke)
+ * ✔ Load page 0 whenever the debounced query or the mode changes
+ * ✔ loadMore(): next page, appended (deduped by id)
+ * ✔ Each page is re-ordered by the client-side typo-tolerant score
+ *   (utils/searchNormalize.ts), earlier pages never move
+ * ✔ Ignore responses for a query the user already changed
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const { results, loading, loadMore } = useVideoSearch(query, mode);
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { videoService, SearchMode } from '../services/videoService';
+import { VideoData } from '../types/video';
+import { toVideoData } from '../utils/videoMapper';
+import { rankVideos } from '../utils/searchNormalize';
+import { useDebouncedValue } from './useDebouncedValue';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function useVideoSearch(query: string, mode: SearchMode) {
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS);
+
+  const [results, setResults] = useState<VideoData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const pageRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  // Bumped on every new search; stale responses compare against it
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    pageRef.current = 0;
+    loadingMoreRef.current = false;
+
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+
+    videoService
+      .search(debouncedQuery, mode, 0)
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        setResults(rankVideos(page.videos.map(toVideoData), debouncedQuery, mode));
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => {
+        if (requestId !== requestIdRef.current) return;
+        console.error('❌ Search failed:', err);
+        setError('החיפוש נכשל');
+        setResults([]);
+        setHasMore(false);
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [debouncedQuery, mode]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || !hasMore || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    const nextPage = pageRef.current + 1;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await videoService.search(debouncedQuery, mode, nextPage);
+      if (requestId !== requestIdRef.current) return;
+
+      pageRef.current = nextPage;
+      setHasMore(page.hasMore);
+      setResults((prev) => {
+        const seen = new Set(prev.map((v) => v.id));
+        const fresh = page.videos.map(toVideoData).filter((v) => !seen.has(v.id));
+        return [...prev, ...rankVideos(fresh, debouncedQuery, mode)];
+      });
+    } catch (err) {
+      console.error('❌ Loading more search results failed:', err);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [debouncedQuery, mode, loading, hasMore]);
+
+  // True while the user is still typing (debounce not settled yet)
+  const pending = query.trim() !== debouncedQuery;
+
+  return { results, loading: loading || pending, loadingMore, error, hasMore, loadMore };
+}
@@ -0,0 +1,50 @@
+/**
+ * ./hooks/useViewTracking.ts
+ *
+ * Connects a feed item's player to services/playbackAnalytics.ts.
+ *
+ * • A watch session is open while `active` is true (the item is the
+ *   visible video of a visible feed)
+ * • The session ends (and may become a view) when the item stops
+ *   being active, unmounts, or the app goes to the background;
+ *   coming back to the foreground opens a new one
+ * • Returns the callback the player reports its time updates to
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const trackProgress = useViewTracking(video.id, isActive);
+ * el.addEventListener('timeupdate', () => trackProgress(el.currentTime, el.duration));
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { playbackAnalytics, WatchSession } from '../services/playbackAnalytics';
+
+export function useViewTracking(videoId: string, active: boolean) {
+  const sessionRef = useRef<WatchSession | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+
+    sessionRef.current = playbackAnalytics.startSession(videoId);
+
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        sessionRef.current ??= playbackAnalytics.startSession(videoId);
+      } else {
+        sessionRef.current?.end();
+        sessionRef.current = null;
+      }
+    });
+
+    return () => {
+      sub.remove();
+      sessionRef.current?.end();
+      sessionRef.current = null;
+    };
+  }, [videoId, active]);
+
+  return useCallback((positionSec: number, durationSec: number) => {
+    sessionRef.current?.progress(positionSec, durationSec);
+  }, []);
+}
@@ -8,6 +8,8 @@
  *      - Login       → First screen for unauthenticated users
  *      - MainTabs    → The main app experience (bottom tab navigator)
  *      - Influencer  → A dedicated screen for a specific influencer
+ *      - SharedCollection → A collection opened from its share link
+ *                           (also while signed out)
  *
  *  - MainTabs (Tab.Navigator)
  *      - Home        → Main video feed screen
@@ -18,7 +20,11 @@
  *      - ProfileMain → Profile main screen
  *      - Orders      → User orders/reservations history
  *      - Saves       → Saved videos/trips
+ *      - Collections → Manage collections of saved videos
  *      - Liked       → Liked videos/trips
+ *      - Follows     → Followers / following lists
+ *      - CreatorDashboard → Performance of the user's own videos
+ *      - EditProfile → Edit name, username, bio and avatar
  *      - Settings    → User settings
  *
  * Notes:
@@ -35,6 +41,9 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import type { NavigatorScreenParams } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../lib/supabase';
+import { storage } from '../utils/storage';
+import { syncService } from '../services/syncService';
+import { playbackAnalytics } from '../services/playbackAnalytics';
 
 import LoginScreen from '../screens/LoginScreen';
 import SignupScreen from '../screens/SignupScreen';
@@ -47,6 +56,12 @@ import OrdersScreen from '../screens/OrdersScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import AddVideoScreen from '../screens/AddVideoScreen';
 import SearchScreen from '../screens/SearchScreen';
+import FollowListScreen from '../screens/FollowListScreen';
+import CreatorDashboardScreen from '../screens/CreatorDashboardScreen';
+import EditProfileScreen from '../screens/EditProfileScreen';
+import CollectionsScreen from '../screens/CollectionsScreen';
+import SharedCollectionScreen from '../screens/SharedCollectionScreen';
+import type { FollowListKind } from '../services/followService';
 
 /**
  * Type definitions for the stack that holds all profile-related screens.
@@ -55,8 +70,12 @@ import SearchScreen from '../screens/SearchScreen';
 export type ProfileStackParamList = {
   ProfileMain: undefined;
   Saves: undefined;
+  Collections: undefined;
   Liked: undefined;
   Orders: undefined;
+  Follows: { userId: string; kind: FollowListKind };
+  CreatorDashboard: undefined;
+  EditProfile: undefined;
   Settings: undefined;
 };
 
@@ -70,7 +89,10 @@ export type RootStackParamList = {
   Login: undefined;
   Signup: undefined;
   MainTabs: NavigatorScreenParams<MainTabsParamList> | undefined;
+  // Profile id or username (deep link: influencer/<id|username>)
   Influencer: { influencerId: string };
+  // Share token of a collection (deep link: collection/<token>)
+  SharedCollection: { token: string };
 
   Search: { query?: string; mode?: 'all' | 'tags' | 'location' | 'influencer' | 'title' } | undefined;
 };
@@ -84,7 +106,7 @@ export type RootStackParamList = {
 type MainTabsParamList = {
   Home: { videoId?: string } | undefined;
   AddVideo: undefined;
-  Profile: undefined;
+  Profile: NavigatorScreenParams<ProfileStackParamList> | undefined;
 };
 
 // Create typed navigators for root, tabs, and profile
@@ -105,8 +127,16 @@ function ProfileNavigator() {
       <ProfileStack.Screen name="Orders" component={OrdersScreen} />
       {/* Saved videos / trips */}
       <ProfileStack.Screen name="Saves" component={SavesScreen} />
+      {/* Rename / reorder / share collections of saves */}
+      <ProfileStack.Screen name="Collections" component={CollectionsScreen} />
       {/* Liked videos / trips */}
       <ProfileStack.Screen name="Liked" component={LikedScreen} />
+      {/* Followers / following lists */}
+      <ProfileStack.Screen name="Follows" component={FollowListScreen} />
+      {/* Creator analytics of the user's uploads */}
+      <ProfileStack.Screen name="CreatorDashboard" component={CreatorDashboardScreen} />
+      {/* Edit own profile + avatar */}
+      <ProfileStack.Screen name="EditProfile" component={EditProfileScreen} />
       {/* Profile settings */}
       <ProfileStack.Screen name="Settings" component={SettingsScreen} />
     </ProfileStack.Navigator>
@@ -174,6 +204,12 @@ function MainTabs() {
  */
 export default function RootNavigator() {
   const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
+  const [storageReady, setStorageReady] = useState(false);
+
+  // Hydrate persisted likes/saves/comments before any screen reads them
+  useEffect(() => {
+    storage.ready().then(() => setStorageReady(true));
+  }, []);
 
   useEffect(() => {
     // Fallback: if onAuthStateChange doesn't fire, default to logged out
@@ -189,7 +225,18 @@ export default function RootNavigator() {
     return () => { subscription.unsubscribe(); clearTimeout(timeout); };
   }, []);
 
-  if (isLoggedIn === null) {
+  // Sync likes/saves and upload views only while someone is signed in
+  useEffect(() => {
+    if (isLoggedIn) {
+      syncService.start();
+      playbackAnalytics.start();
+    } else {
+      syncService.stop();
+      playbackAnalytics.stop();
+    }
+  }, [isLoggedIn]);
+
+  if (isLoggedIn === null || !storageReady) {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#000' }}>
         <ActivityIndicator size="large" color="#00D5FF" />
@@ -212,6 +259,8 @@ export default function RootNavigator() {
         </>
       )}
       <Stack.Screen name="Signup" component={SignupScreen} />
+      {/* Share links are public: signed in or not */}
+      <Stack.Screen name="SharedCollection" component={SharedCollectionScreen} />
     </Stack.Navigator>
   );
 }
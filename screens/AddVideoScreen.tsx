@@ -10,29 +10,31 @@
  *  - category (Trips / Lodging / Entertainment)
  *  - title
  *  - location
- *  - price
+ *  - price (amount + currency + basis, see utils/money.ts)
  *  - trip duration (days)
  *  - tags
- *  - (in the future) the actual video asset
+ *  - day-by-day itinerary (components/ItineraryEditor.tsx)
+ *  - the video file itself
  *
- * Current MVP state:
+ * Upload flow:
  * --------------------------------------------------------------------
- * ✔ UI form is implemented
- * ✔ Category selector is implemented
- * ✔ Basic required-field validation is implemented
- * ✔ Upload is simulated via setTimeout (no backend yet)
- * ✔ Haptics are triggered for better UX
+ * 1. pickVideo()    → expo-image-picker (videos only)
+ * 2. handleUpload() → validates the form (including the itinerary,
+ *    see utils/itinerary.ts), uploads the file to Supabase
+ *    Storage in resumable chunks (services/uploadService.ts) with a
+ *    progress bar, then creates the `videos` row through
+ *    videoService.createVideo() with the parsed tags
+ * 3. Cancel aborts the upload; "Try again" resumes it where it stopped
+ *    (and skips the upload entirely if only the DB insert failed)
  *
  * Future upgrades (planned):
  * --------------------------------------------------------------------
- * • Implement video picking (expo-image-picker or expo-document-picker)
- * • Upload to backend (multipart upload / presigned URLs / CDN)
- * • Validate formats (numeric values, currency formatting, tags parsing)
  * • Preview the selected video
- * • Add creator/influencer association + location auto-complete
+ * • Generate a thumbnail on upload
+ * • Add location auto-complete
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -42,7 +44,21 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import { haptics } from '../utils/haptics';
+import { parseTags } from '../utils/tags';
+import { BASIS_LABELS, CURRENCIES, formatMoney, parsePrice } from '../utils/money';
+import { CurrencyCode, PriceBasis } from '../types/money';
+import {
+  finalizeItinerary,
+  parseItinerary,
+  resizeItinerary,
+  ItineraryValidationError,
+} from '../utils/itinerary';
+import { Itinerary, ItineraryIssue } from '../types/itinerary';
+import ItineraryEditor from '../components/ItineraryEditor';
+import { uploadService, UploadCancelledError } from '../services/uploadService';
+import { videoService } from '../services/videoService';
 
 /**
  * Categories supported in the app.
@@ -50,72 +66,224 @@ import { haptics } from '../utils/haptics';
  */
 type Category = 'Trips' | 'Lodging' | 'Entertainment';
 
+// Longest trip the itinerary editor supports
+const MAX_DAYS = 30;
+
+const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  ILS: '₪',
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+};
+
+const PRICE_BASES: PriceBasis[] = ['per_person', 'per_night', 'per_package'];
+
 export default function AddVideoScreen() {
   /**
    * Form state (controlled inputs).
-   * - videoUri is reserved for the future picker integration.
    */
-  const [videoUri, setVideoUri] = useState('');
+  const [video, setVideo] = useState<ImagePicker.ImagePickerAsset | null>(null);
   const [title, setTitle] = useState('');
   const [location, setLocation] = useState('');
   const [price, setPrice] = useState('');
+  const [priceCurrency, setPriceCurrency] = useState<CurrencyCode>('ILS');
+  const [priceBasis, setPriceBasis] = useState<PriceBasis>('per_person');
   const [days, setDays] = useState('');
   const [category, setCategory] = useState<Category>('Trips');
   const [tags, setTags] = useState('');
 
   /**
-   * UI state for simulated upload.
-   * Used to disable the upload button and show "uploading..." feedback.
+   * Itinerary draft, kept in sync with the "days" field:
+   * typing a larger number adds days at once, a smaller one only drops
+   * days when the field is left (so "7" → "10", which passes through
+   * "1", keeps the authored days); adding/removing days updates it.
+   */
+  const [itinerary, setItinerary] = useState<Itinerary>([]);
+  const [itineraryIssues, setItineraryIssues] = useState<ItineraryIssue[]>([]);
+
+  // The typed day count, or null while it isn't a usable number
+  const parseDays = (text: string) => {
+    const count = Number(text);
+    return text && Number.isInteger(count) && count >= 0 && count <= MAX_DAYS ? count : null;
+  };
+
+  const onDaysChange = (text: string) => {
+    setDays(text);
+    const count = parseDays(text);
+    if (count !== null) {
+      setItinerary((prev) => (count > prev.length ? resizeItinerary(prev, count) : prev));
+    }
+  };
+
+  // Leaving the field confirms the number: now trailing days may go
+  const onDaysCommit = () => {
+    const count = parseDays(days);
+    if (count !== null) setItinerary((prev) => resizeItinerary(prev, count));
+  };
+
+  const onItineraryChange = (next: Itinerary) => {
+    setItinerary(next);
+    setDays(next.length > 0 ? String(next.length) : '');
+    setItineraryIssues([]);
+  };
+
+  /**
+   * Upload state.
+   * - progress   : 0..1 of bytes stored
+   * - uploadError: shown under the button, which then reads "try again"
    */
   const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Aborts the running upload (cancel button)
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Public URL of a finished upload, so a retry after a failed
+  // DB insert doesn't upload the same file again
+  const uploadedRef = useRef<{ uri: string; url: string } | null>(null);
 
   /**
    * pickVideo()
    *
-   * Placeholder for selecting a local video file.
-   * In the real app, this will store the picked video URI into `videoUri`.
+   * Opens the media library (videos only) and stores the picked asset.
    */
   const pickVideo = async () => {
     haptics.light();
+    if (uploading) return;
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['videos'],
+      quality: 1,
+    });
+
+    if (result.canceled || !result.assets[0]) return;
+
+    setVideo(result.assets[0]);
+    setUploadError(null);
+    setProgress(0);
+  };
 
-    // TODO: Implement video picker
-    // Likely options: expo-image-picker or expo-document-picker
-    alert('בחירת וידאו - יש לממש עם expo-image-picker');
+  const resetForm = () => {
+    setTitle('');
+    setLocation('');
+    setPrice('');
+    setPriceCurrency('ILS');
+    setPriceBasis('per_person');
+    setDays('');
+    setTags('');
+    setItinerary([]);
+    setItineraryIssues([]);
+    setVideo(null);
+    setProgress(0);
+    uploadedRef.current = null;
   };
 
   /**
    * handleUpload()
    *
-   * Performs minimal required-field validation and simulates
-   * a successful upload via setTimeout.
-   *
-   * In production:
-   * - Validate inputs (numbers, currency, tag parsing)
-   * - Upload video to storage/CDN
-   * - Send metadata to backend
+   * Validates the form, uploads the video file (resumable, with
+   * progress) and creates the video row.
    */
   const handleUpload = async () => {
+    if (!video) {
+      alert('נא לבחור וידאו');
+      return;
+    }
+
     if (!title || !location || !price || !days) {
       alert('נא למלא את כל השדות');
       return;
     }
 
+    // Currency + basis come from the chips, the text only gives the amount
+    const parsedPrice = parsePrice(price, { currency: priceCurrency });
+    if (!parsedPrice) {
+      alert('המחיר אינו תקין');
+      return;
+    }
+    const structuredPrice = { ...parsedPrice, currency: priceCurrency, basis: priceBasis };
+
+    const dayCount = Number(days);
+    if (!Number.isInteger(dayCount) || dayCount < 1) {
+      alert('מספר הימים אינו תקין');
+      return;
+    }
+
+    // Itinerary is optional, but if authored it must be valid
+    const finalItinerary = finalizeItinerary(itinerary);
+    if (finalItinerary) {
+      const { issues, valid } = parseItinerary(finalItinerary, {
+        expectedDays: dayCount,
+        repair: false,
+      });
+      setItineraryIssues(issues);
+      if (!valid) {
+        haptics.error();
+        alert('יש לתקן את המסלול לפני ההעלאה');
+        return;
+      }
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setUploading(true);
-    haptics.success();
+    setUploadError(null);
 
-    // TODO: Upload to backend
-    setTimeout(() => {
-      setUploading(false);
+    try {
+      let videoUrl =
+        uploadedRef.current?.uri === video.uri ? uploadedRef.current.url : null;
+
+      if (!videoUrl) {
+        videoUrl = await uploadService.uploadVideo(
+          { uri: video.uri, contentType: video.mimeType, fileName: video.fileName },
+          {
+            signal: controller.signal,
+            onProgress: ({ bytesSent, bytesTotal }) =>
+              setProgress(bytesTotal > 0 ? bytesSent / bytesTotal : 0),
+          }
+        );
+        uploadedRef.current = { uri: video.uri, url: videoUrl };
+      }
+
+      await videoService.createVideo({
+        title: title.trim(),
+        location: location.trim(),
+        price: formatMoney(structuredPrice), // Legacy text column for older clients
+        price_amount_minor: structuredPrice.amountMinor,
+        price_currency: structuredPrice.currency,
+        price_basis: structuredPrice.basis,
+        days: dayCount,
+        category,
+        tags: parseTags(tags),
+        itinerary: finalItinerary,
+        video_url: videoUrl,
+      });
+
+      haptics.success();
       alert('הוידאו הועלה בהצלחה! 🎉');
+      resetForm();
+    } catch (err) {
+      if (err instanceof UploadCancelledError) {
+        setUploadError('ההעלאה בוטלה');
+      } else if (err instanceof ItineraryValidationError) {
+        setItineraryIssues(err.issues);
+        setUploadError('יש לתקן את המסלול לפני ההעלאה');
+      } else {
+        console.error('❌ Upload failed:', err);
+        setUploadError('ההעלאה נכשלה, אפשר לנסות שוב');
+        haptics.error();
+      }
+    } finally {
+      abortRef.current = null;
+      setUploading(false);
+    }
+  };
 
-      // Reset form after successful upload
-      setTitle('');
-      setLocation('');
-      setPrice('');
-      setDays('');
-      setTags('');
-      setVideoUri('');
-    }, 2000);
+  const cancelUpload = () => {
+    haptics.light();
+    abortRef.current?.abort();
   };
 
   return (
@@ -129,14 +297,15 @@ export default function AddVideoScreen() {
       </View>
 
       {/* ------------------------------------------------------------
-          VIDEO PICKER AREA (placeholder)
+          VIDEO PICKER AREA
          ------------------------------------------------------------ */}
-      <TouchableOpacity style={styles.videoPicker} onPress={pickVideo}>
-        {videoUri ? (
-          // If a video URI exists (future), show a "selected" state
+      <TouchableOpacity style={styles.videoPicker} onPress={pickVideo} disabled={uploading}>
+        {video ? (
+          // Picked video: show a "selected" state (tap again to replace)
           <View style={styles.videoPreview}>
             <Ionicons name="videocam" size={48} color="#00D5FF" />
             <Text style={styles.videoText}>וידאו נבחר</Text>
+            {!!video.fileName && <Text style={styles.videoFileName}>{video.fileName}</Text>}
           </View>
         ) : (
           // Default empty state (no video selected yet)
@@ -218,7 +387,7 @@ export default function AddVideoScreen() {
           <Text style={styles.label}>מחיר</Text>
           <TextInput
             style={styles.input}
-            placeholder="₪3,500"
+            placeholder="3,500"
             placeholderTextColor="#666"
             value={price}
             onChangeText={setPrice}
@@ -233,12 +402,52 @@ export default function AddVideoScreen() {
             placeholder="7"
             placeholderTextColor="#666"
             value={days}
-            onChangeText={setDays}
+            onChangeText={onDaysChange}
+            onBlur={onDaysCommit}
+            onSubmitEditing={onDaysCommit}
             keyboardType="numeric"
           />
         </View>
       </View>
 
+      {/* ------------------------------------------------------------
+          PRICE CURRENCY + BASIS
+         ------------------------------------------------------------ */}
+      <View style={styles.section}>
+        <View style={styles.categoryRow}>
+          {CURRENCIES.map((code) => (
+            <TouchableOpacity
+              key={code}
+              style={[styles.categoryBtn, priceCurrency === code && styles.categoryBtnActive]}
+              onPress={() => {
+                setPriceCurrency(code);
+                haptics.light();
+              }}
+            >
+              <Text style={[styles.categoryText, priceCurrency === code && styles.categoryTextActive]}>
+                {CURRENCY_SYMBOLS[code]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={[styles.categoryRow, { marginTop: 8 }]}>
+          {PRICE_BASES.map((basis) => (
+            <TouchableOpacity
+              key={basis}
+              style={[styles.categoryBtn, priceBasis === basis && styles.categoryBtnActive]}
+              onPress={() => {
+                setPriceBasis(basis);
+                haptics.light();
+              }}
+            >
+              <Text style={[styles.categoryText, priceBasis === basis && styles.categoryTextActive]}>
+                {BASIS_LABELS[basis]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
       {/* ------------------------------------------------------------
           TAGS FIELD
          ------------------------------------------------------------ */}
@@ -255,25 +464,47 @@ export default function AddVideoScreen() {
       </View>
 
       {/* ------------------------------------------------------------
-          UPLOAD BUTTON
+          ITINERARY BUILDER (synced with the days field)
          ------------------------------------------------------------ */}
-      <TouchableOpacity
-        style={[styles.uploadBtn, uploading && styles.uploadBtnDisabled]}
-        onPress={handleUpload}
-        disabled={uploading}
-      >
-        {uploading ? (
-          <>
-            <Ionicons name="hourglass-outline" size={24} color="#000" />
-            <Text style={styles.uploadBtnText}>מעלה...</Text>
-          </>
-        ) : (
-          <>
-            <Ionicons name="cloud-upload" size={24} color="#000" />
-            <Text style={styles.uploadBtnText}>העלה וידאו</Text>
-          </>
+      <View style={styles.section}>
+        <Text style={styles.label}>מסלול הטיול</Text>
+        <ItineraryEditor value={itinerary} onChange={onItineraryChange} maxDays={MAX_DAYS} />
+
+        {itineraryIssues.length > 0 && (
+          <View style={styles.issuesBox}>
+            {itineraryIssues.map((issue, idx) => (
+              <Text key={idx} style={styles.issueText}>
+                • {issue.message}
+              </Text>
+            ))}
+          </View>
         )}
-      </TouchableOpacity>
+      </View>
+
+      {/* ------------------------------------------------------------
+          UPLOAD BUTTON (+ progress / cancel while uploading)
+         ------------------------------------------------------------ */}
+      {uploading ? (
+        <View style={styles.progressSection}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+          </View>
+          <View style={styles.progressRow}>
+            <Text style={styles.progressText}>מעלה... {Math.round(progress * 100)}%</Text>
+            <TouchableOpacity style={styles.cancelBtn} onPress={cancelUpload}>
+              <Ionicons name="close-circle" size={18} color="#FF3B5C" />
+              <Text style={styles.cancelText}>ביטול</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.uploadBtn} onPress={handleUpload}>
+          <Ionicons name={uploadError ? 'refresh' : 'cloud-upload'} size={24} color="#000" />
+          <Text style={styles.uploadBtnText}>{uploadError ? 'נסה שוב' : 'העלה וידאו'}</Text>
+        </TouchableOpacity>
+      )}
+
+      {!!uploadError && !uploading && <Text style={styles.errorText}>{uploadError}</Text>}
 
       {/* Spacer so content doesn't feel cramped at bottom */}
       <View style={{ height: 40 }} />
@@ -335,6 +566,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginTop: 12,
   },
+  videoFileName: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 4,
+  },
   section: {
     paddingHorizontal: 16,
     marginBottom: 24,
@@ -393,12 +629,61 @@ const styles = StyleSheet.create({
     paddingVertical: 16,
     borderRadius: 12,
   },
-  uploadBtnDisabled: {
-    opacity: 0.5,
-  },
   uploadBtnText: {
     color: '#000',
     fontSize: 18,
     fontWeight: '700',
   },
+  progressSection: {
+    marginHorizontal: 16,
+    gap: 10,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#1a1a1a',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#00D5FF',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  progressText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 4,
+  },
+  cancelText: {
+    color: '#FF3B5C',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  issuesBox: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#2a0a10',
+    gap: 4,
+  },
+  issueText: {
+    color: '#FF3B5C',
+    fontSize: 13,
+  },
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
 });
@@ -0,0 +1,453 @@
+/**
+ * ./screens/CollectionsScreen.tsx
+ *
+ * Manage the user's collections (trip boards) of saved videos.
+ * Opened from the "ניהול" chip on SavesScreen.
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ List collections in their order, with video counts
+ * ✔ Create, rename (inline) and delete collections
+ * ✔ Reorder with up / down arrows (saved in one request,
+ *   collectionService.reorderCollections)
+ * ✔ Share a collection through a link: sharing is switched on, then
+ *   the link goes to the share sheet (web: navigator.share / clipboard)
+ * ✔ Stop sharing (the link stops working)
+ *
+ * Notes:
+ * --------------------------------------------------------------------
+ * • Deleting asks for a second tap instead of a dialog (works on web)
+ * • Deleting a collection keeps its videos saved
+ * • Changes are optimistic; a failed request reloads the list
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+
+import {
+  collectionService,
+  CollectionSummary,
+  MAX_COLLECTION_NAME_LENGTH,
+} from '../services/collectionService';
+import { haptics } from '../utils/haptics';
+
+export default function CollectionsScreen() {
+  const navigation = useNavigation();
+
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setCollections(await collectionService.getMyCollections());
+    } catch (err) {
+      console.error('❌ Loading collections failed:', err);
+      setError('לא הצלחנו לטעון את האוספים');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Run a request after an optimistic change; reload on failure
+  const persist = async (request: Promise<unknown>, message: string) => {
+    setError(null);
+    try {
+      await request;
+    } catch (err) {
+      console.error('❌ Updating collections failed:', err);
+      setError(message);
+      load();
+    }
+  };
+
+  const create = async () => {
+    const name = newName.trim();
+    if (!name || creating) return;
+
+    try {
+      setCreating(true);
+      setError(null);
+      const position = collections.reduce((max, c) => Math.max(max, c.position + 1), 0);
+      const collection = await collectionService.createCollection(name, position);
+      setCollections((prev) => [...prev, { ...collection, item_count: 0 }]);
+      setNewName('');
+      haptics.success();
+    } catch (err) {
+      console.error('❌ Creating collection failed:', err);
+      setError('לא הצלחנו ליצור את האוסף');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const startRename = (collection: CollectionSummary) => {
+    setConfirmDeleteId(null);
+    setEditingId(collection.id);
+    setEditName(collection.name);
+  };
+
+  const saveRename = () => {
+    const id = editingId;
+    const name = editName.trim();
+    setEditingId(null);
+    if (!id || !name || collections.find((c) => c.id === id)?.name === name) return;
+
+    setCollections((prev) => prev.map((c) => (c.id === id ? { ...c, name } : c)));
+    persist(collectionService.renameCollection(id, name), 'שינוי השם נכשל');
+  };
+
+  const move = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= collections.length) return;
+
+    const next = [...collections];
+    [next[index], next[target]] = [next[target], next[index]];
+    const ordered = next.map((c, position) => ({ ...c, position }));
+
+    setCollections(ordered);
+    haptics.light();
+    persist(
+      collectionService.reorderCollections(ordered.map((c) => c.id)),
+      'שמירת הסדר נכשלה'
+    );
+  };
+
+  const remove = (collection: CollectionSummary) => {
+    if (confirmDeleteId !== collection.id) {
+      setConfirmDeleteId(collection.id);
+      return;
+    }
+
+    setConfirmDeleteId(null);
+    setCollections((prev) => prev.filter((c) => c.id !== collection.id));
+    persist(collectionService.deleteCollection(collection.id), 'מחיקת האוסף נכשלה');
+  };
+
+  const share = async (collection: CollectionSummary) => {
+    if (!collection.is_shared) {
+      setCollections((prev) => prev.map((c) => (c.id === collection.id ? { ...c, is_shared: true } : c)));
+      try {
+        await collectionService.setShared(collection.id, true);
+      } catch (err) {
+        console.error('❌ Sharing collection failed:', err);
+        setError('השיתוף נכשל, נסה שוב');
+        load();
+        return;
+      }
+    }
+
+    const url = collectionService.getShareLink(collection);
+    try {
+      if (Platform.OS === 'web') {
+        if (navigator.share) {
+          await navigator.share({ title: collection.name, url });
+        } else {
+          await navigator.clipboard.writeText(url);
+          alert('הקישור הועתק ללוח!');
+        }
+      } else {
+        await Share.share({ message: `${collection.name} - ${url}`, title: collection.name });
+      }
+    } catch (err) {
+      console.log('Share error:', err);
+    }
+  };
+
+  const stopSharing = (collection: CollectionSummary) => {
+    setCollections((prev) => prev.map((c) => (c.id === collection.id ? { ...c, is_shared: false } : c)));
+    persist(collectionService.setShared(collection.id, false), 'ביטול השיתוף נכשל');
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* ------------------------------------------------------------
+          HEADER
+         ------------------------------------------------------------ */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>האוספים שלי</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+      ) : (
+        <ScrollView contentContainerStyle={styles.list} keyboardShouldPersistTaps="handled">
+          {collections.length === 0 && (
+            <View style={styles.empty}>
+              <Text style={styles.emptyIcon}>🗂️</Text>
+              <Text style={styles.emptyText}>עוד אין לך אוספים</Text>
+              <Text style={styles.emptySubtext}>
+                צור אוסף כאן, או לחיצה ארוכה על "שמור" בסרטון
+              </Text>
+            </View>
+          )}
+
+          {collections.map((collection, index) => (
+            <View key={collection.id} style={styles.card}>
+              <View style={styles.cardRow}>
+                {/* Order */}
+                <View style={styles.moveButtons}>
+                  <TouchableOpacity onPress={() => move(index, -1)} disabled={index === 0}>
+                    <Ionicons name="chevron-up" size={20} color={index === 0 ? '#333' : '#fff'} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => move(index, 1)}
+                    disabled={index === collections.length - 1}
+                  >
+                    <Ionicons
+                      name="chevron-down"
+                      size={20}
+                      color={index === collections.length - 1 ? '#333' : '#fff'}
+                    />
+                  </TouchableOpacity>
+                </View>
+
+                {/* Name (tap to rename) */}
+                <View style={styles.cardBody}>
+                  {editingId === collection.id ? (
+                    <TextInput
+                      style={styles.nameInput}
+                      value={editName}
+                      onChangeText={setEditName}
+                      onSubmitEditing={saveRename}
+                      onBlur={saveRename}
+                      maxLength={MAX_COLLECTION_NAME_LENGTH}
+                      autoFocus
+                      returnKeyType="done"
+                    />
+                  ) : (
+                    <TouchableOpacity onPress={() => startRename(collection)}>
+                      <Text style={styles.name} numberOfLines={1}>
+                        {collection.name}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  <Text style={styles.meta}>
+                    {collection.item_count} סרטונים{collection.is_shared ? ' • משותף בקישור' : ''}
+                  </Text>
+                </View>
+
+                {/* Actions */}
+                <TouchableOpacity onPress={() => share(collection)} style={styles.iconBtn}>
+                  <Ionicons name="share-social-outline" size={22} color="#00D5FF" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => remove(collection)} style={styles.iconBtn}>
+                  {confirmDeleteId === collection.id ? (
+                    <Text style={styles.confirmText}>למחוק?</Text>
+                  ) : (
+                    <Ionicons name="trash-outline" size={22} color="#FF3B5C" />
+                  )}
+                </TouchableOpacity>
+              </View>
+
+              {collection.is_shared && (
+                <TouchableOpacity onPress={() => stopSharing(collection)}>
+                  <Text style={styles.stopSharing}>הפסק שיתוף</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {/* New collection */}
+          <View style={styles.createRow}>
+            <TextInput
+              style={styles.input}
+              value={newName}
+              onChangeText={setNewName}
+              placeholder='אוסף חדש, למשל "קיץ משפחתי"'
+              placeholderTextColor="#666"
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              onSubmitEditing={create}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.createBtn, (!newName.trim() || creating) && styles.createBtnDisabled]}
+              onPress={create}
+              disabled={!newName.trim() || creating}
+            >
+              {creating ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Ionicons name="add" size={24} color="#000" />
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+
+  /* Header */
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+    gap: 12,
+  },
+  backBtn: {
+    padding: 4,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: '700',
+  },
+
+  loader: {
+    marginTop: 48,
+  },
+
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+
+  /* Empty state */
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    paddingHorizontal: 24,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+
+  /* Collection card */
+  card: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 12,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  moveButtons: {
+    gap: 4,
+  },
+  cardBody: {
+    flex: 1,
+  },
+  name: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  nameInput: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    borderBottomWidth: 1,
+    borderBottomColor: '#00D5FF',
+    paddingVertical: 2,
+  },
+  meta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  iconBtn: {
+    padding: 6,
+  },
+  confirmText: {
+    color: '#FF3B5C',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  stopSharing: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+    marginStart: 32,
+  },
+
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+
+  /* New collection */
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#fff',
+  },
+  createBtn: {
+    backgroundColor: '#00D5FF',
+    borderRadius: 12,
+    width: 46,
+    height: 46,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  createBtnDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,553 @@
+/**
+ * ./screens/CreatorDashboardScreen.tsx
+ *
+ * How the current user's uploaded videos perform (opened from
+ * ProfileScreen).
+ *
+ * Current behavior:
+ * --------------------------------------------------------------------
+ * ✔ Date range picker (presets + custom days), last 30 days by default
+ * ✔ Totals for the range: views, likes, saves, shares, comments,
+ *   average watch percentage, bookings and booking conversion
+ * ✔ Daily bar chart of one metric at a time (chips above the chart)
+ * ✔ Per video list with the same numbers; tapping a video narrows
+ *   the totals and the chart to it, tapping again shows all videos
+ * ✔ Empty state when the user hasn't uploaded anything yet
+ *
+ * Data:
+ * --------------------------------------------------------------------
+ * • services/analyticsService.ts → creator_daily_stats /
+ *   creator_video_stats RPCs (supabase-add-creator-analytics.sql),
+ *   aggregated over videos, video_views, likes, saves, comments and
+ *   confirmed orders.
+ * • Shares have no history: the number is the all-time total.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { ProfileStackParamList } from '../navigation/RootNavigator';
+import { CreatorDailyStats, CreatorVideoStats } from '../types/database';
+import { analyticsService, DateRange, MAX_RANGE_DAYS } from '../services/analyticsService';
+import DateRangePicker, { lastDays } from '../components/DateRangePicker';
+import { formatDateRange } from '../utils/booking';
+
+type Props = NativeStackScreenProps<ProfileStackParamList, 'CreatorDashboard'>;
+
+type Metric = 'views' | 'likes' | 'saves' | 'comments' | 'bookings' | 'avg_completion';
+
+const METRICS: { key: Metric; label: string }[] = [
+  { key: 'views', label: 'צפיות' },
+  { key: 'likes', label: 'לייקים' },
+  { key: 'saves', label: 'שמירות' },
+  { key: 'comments', label: 'תגובות' },
+  { key: 'bookings', label: 'הזמנות' },
+  { key: 'avg_completion', label: 'אחוז צפייה' },
+];
+
+type Totals = {
+  views: number;
+  likes: number;
+  saves: number;
+  comments: number;
+  bookings: number;
+  avgCompletion: number | null;
+};
+
+/**
+ * Sum daily rows; the average completion is weighted by views.
+ */
+function sumDays(days: CreatorDailyStats[]): Totals {
+  const totals: Totals = { views: 0, likes: 0, saves: 0, comments: 0, bookings: 0, avgCompletion: null };
+  let completionSum = 0;
+
+  for (const day of days) {
+    totals.views += day.views;
+    totals.likes += day.likes;
+    totals.saves += day.saves;
+    totals.comments += day.comments;
+    totals.bookings += day.bookings;
+    if (day.avg_completion != null) completionSum += day.avg_completion * day.views;
+  }
+
+  if (totals.views > 0) totals.avgCompletion = completionSum / totals.views;
+  return totals;
+}
+
+function percent(value: number | null): string {
+  return value == null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function conversion(bookings: number, views: number): string {
+  return views > 0 ? `${((bookings / views) * 100).toFixed(1)}%` : '—';
+}
+
+// "31/12"
+function shortDay(iso: string): string {
+  const [, m, d] = iso.split('-');
+  return `${d}/${m}`;
+}
+
+export default function CreatorDashboardScreen({ navigation }: Props) {
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
+  const [metric, setMetric] = useState<Metric>('views');
+
+  const [days, setDays] = useState<CreatorDailyStats[]>([]);
+  const [videos, setVideos] = useState<CreatorVideoStats[]>([]);
+  const [loadingDays, setLoadingDays] = useState(true);
+  const [loadingVideos, setLoadingVideos] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped on every load; stale responses compare against them
+  const daysRequestRef = useRef(0);
+  const videosRequestRef = useRef(0);
+
+  // Per video totals: only depend on the range
+  useEffect(() => {
+    const requestId = ++videosRequestRef.current;
+    setLoadingVideos(true);
+
+    analyticsService
+      .getVideoStats(range)
+      .then((rows) => {
+        if (requestId !== videosRequestRef.current) return;
+        setVideos(rows);
+        setError(null);
+      })
+      .catch((err) => {
+        if (requestId !== videosRequestRef.current) return;
+        console.error('❌ Loading video stats failed:', err);
+        setError('לא הצלחנו לטעון את הנתונים');
+      })
+      .finally(() => {
+        if (requestId === videosRequestRef.current) setLoadingVideos(false);
+      });
+  }, [range]);
+
+  // Daily buckets: the range, for all videos or the selected one
+  useEffect(() => {
+    const requestId = ++daysRequestRef.current;
+    setLoadingDays(true);
+
+    analyticsService
+      .getDailyStats(range, selectedVideoId ?? undefined)
+      .then((rows) => {
+        if (requestId !== daysRequestRef.current) return;
+        setDays(rows);
+        setError(null);
+      })
+      .catch((err) => {
+        if (requestId !== daysRequestRef.current) return;
+        console.error('❌ Loading daily stats failed:', err);
+        setError('לא הצלחנו לטעון את הנתונים');
+      })
+      .finally(() => {
+        if (requestId === daysRequestRef.current) setLoadingDays(false);
+      });
+  }, [range, selectedVideoId]);
+
+  const totals = useMemo(() => sumDays(days), [days]);
+
+  const shares = useMemo(
+    () =>
+      videos
+        .filter((v) => !selectedVideoId || v.video_id === selectedVideoId)
+        .reduce((sum, v) => sum + v.shares, 0),
+    [videos, selectedVideoId]
+  );
+
+  const selectedVideo = videos.find((v) => v.video_id === selectedVideoId);
+
+  // Bar values of the chosen metric (completion as 0..100)
+  const values = days.map((day) =>
+    metric === 'avg_completion' ? Math.round((day.avg_completion ?? 0) * 100) : day[metric]
+  );
+  const maxValue = Math.max(1, ...values);
+
+  const summary: { label: string; value: string }[] = [
+    { label: 'צפיות', value: String(totals.views) },
+    { label: 'לייקים', value: String(totals.likes) },
+    { label: 'שמירות', value: String(totals.saves) },
+    { label: 'שיתופים (סה״כ)', value: String(shares) },
+    { label: 'תגובות', value: String(totals.comments) },
+    { label: 'אחוז צפייה ממוצע', value: percent(totals.avgCompletion) },
+    { label: 'הזמנות', value: String(totals.bookings) },
+    { label: 'המרה להזמנה', value: conversion(totals.bookings, totals.views) },
+  ];
+
+  return (
+    <View style={styles.container}>
+      {/* ------------------------------------------------------------
+          HEADER SECTION
+         ------------------------------------------------------------ */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>סטטיסטיקות יוצר</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <DateRangePicker value={range} onChange={setRange} maxDays={MAX_RANGE_DAYS} />
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {/* ------------------------------------------------------------
+            TOTALS
+           ------------------------------------------------------------ */}
+        <View style={styles.scopeRow}>
+          <Text style={styles.scopeText} numberOfLines={1}>
+            {selectedVideo ? selectedVideo.title : 'כל הסרטונים'} • {formatDateRange(range.from, range.to)}
+          </Text>
+          {selectedVideo && (
+            <TouchableOpacity onPress={() => setSelectedVideoId(null)}>
+              <Text style={styles.clearText}>הצג הכל</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.summary}>
+          {summary.map((item) => (
+            <View key={item.label} style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>{loadingDays ? '…' : item.value}</Text>
+              <Text style={styles.summaryLabel}>{item.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* ------------------------------------------------------------
+            DAILY CHART
+           ------------------------------------------------------------ */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.metrics}>
+          {METRICS.map((m) => (
+            <TouchableOpacity
+              key={m.key}
+              style={[styles.metricChip, metric === m.key && styles.metricChipActive]}
+              onPress={() => setMetric(m.key)}
+            >
+              <Text style={[styles.metricText, metric === m.key && styles.metricTextActive]}>{m.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <View style={styles.chart}>
+          {loadingDays ? (
+            <ActivityIndicator color="#00D5FF" />
+          ) : (
+            <View style={styles.bars}>
+              {values.map((value, index) => (
+                <View key={days[index].day} style={styles.barSlot}>
+                  <View style={[styles.bar, { height: `${(value / maxValue) * 100}%` }]} />
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {days.length > 0 && (
+          <View style={styles.chartAxis}>
+            <Text style={styles.axisText}>{shortDay(days[0].day)}</Text>
+            <Text style={styles.axisText}>
+              מקסימום: {metric === 'avg_completion' ? `${maxValue}%` : maxValue}
+            </Text>
+            <Text style={styles.axisText}>{shortDay(days[days.length - 1].day)}</Text>
+          </View>
+        )}
+
+        {/* ------------------------------------------------------------
+            PER VIDEO
+           ------------------------------------------------------------ */}
+        <Text style={styles.sectionTitle}>לפי סרטון</Text>
+
+        {loadingVideos ? (
+          <ActivityIndicator style={styles.loader} color="#00D5FF" />
+        ) : videos.length === 0 ? (
+          /* ------------------------------------------------------------
+             EMPTY STATE
+             ------------------------------------------------------------ */
+          <View style={styles.empty}>
+            <Text style={styles.emptyIcon}>🎬</Text>
+            <Text style={styles.emptyText}>עדיין לא העלית סרטונים</Text>
+          </View>
+        ) : (
+          videos.map((video) => {
+            const selected = video.video_id === selectedVideoId;
+
+            return (
+              <TouchableOpacity
+                key={video.video_id}
+                style={[styles.videoRow, selected && styles.videoRowSelected]}
+                onPress={() => setSelectedVideoId(selected ? null : video.video_id)}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.videoTitle} numberOfLines={1}>
+                  {video.title}
+                </Text>
+
+                <View style={styles.videoStats}>
+                  <VideoStat icon="eye-outline" value={String(video.views)} />
+                  <VideoStat icon="heart-outline" value={String(video.likes)} />
+                  <VideoStat icon="bookmark-outline" value={String(video.saves)} />
+                  <VideoStat icon="share-social-outline" value={String(video.shares)} />
+                  <VideoStat icon="chatbubble-outline" value={String(video.comments)} />
+                  <VideoStat icon="time-outline" value={percent(video.avg_completion)} />
+                  <VideoStat icon="airplane-outline" value={String(video.bookings)} />
+                  <VideoStat icon="trending-up-outline" value={conversion(video.bookings, video.views)} />
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+function VideoStat({ icon, value }: { icon: keyof typeof Ionicons.glyphMap; value: string }) {
+  return (
+    <View style={styles.videoStat}>
+      <Ionicons name={icon} size={14} color="#888" />
+      <Text style={styles.videoStatText}>{value}</Text>
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000', // Veeky dark background
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+    gap: 12,
+  },
+
+  backBtn: {
+    padding: 4,
+  },
+
+  headerTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingTop: 12,
+  },
+
+  loader: {
+    marginTop: 24,
+  },
+
+  /* Totals */
+  scopeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+    marginBottom: 10,
+    gap: 12,
+  },
+
+  scopeText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+
+  clearText: {
+    color: '#00D5FF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  summary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  summaryCard: {
+    width: '23%',
+    flexGrow: 1,
+    backgroundColor: '#111',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 6,
+    alignItems: 'center',
+  },
+
+  summaryValue: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+
+  summaryLabel: {
+    color: '#888',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+
+  /* Chart */
+  metrics: {
+    gap: 8,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+
+  metricChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#111',
+  },
+
+  metricChipActive: {
+    backgroundColor: '#00D5FF',
+  },
+
+  metricText: {
+    color: '#fff',
+    fontSize: 13,
+  },
+
+  metricTextActive: {
+    color: '#000',
+    fontWeight: '700',
+  },
+
+  chart: {
+    height: 160,
+    justifyContent: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 8,
+  },
+
+  bars: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 1,
+  },
+
+  barSlot: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+
+  bar: {
+    backgroundColor: '#00D5FF',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    minHeight: 1,
+  },
+
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+
+  axisText: {
+    color: '#666',
+    fontSize: 11,
+  },
+
+  /* Per video */
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '700',
+    marginTop: 28,
+    marginBottom: 8,
+  },
+
+  videoRow: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+
+  videoRowSelected: {
+    borderColor: '#00D5FF',
+  },
+
+  videoTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+
+  videoStats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+
+  videoStat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+
+  videoStatText: {
+    color: '#ccc',
+    fontSize: 13,
+  },
+
+  /* Empty state */
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+
+  emptyText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
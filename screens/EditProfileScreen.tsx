@@ -0,0 +1,442 @@
+/**
+ * ./screens/EditProfileScreen.tsx
+ *
+ * Edit the signed-in user's profile (ProfileStack → EditProfile).
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Change the avatar: pick an image, crop it to a square, upload it
+ *   (uploadService.uploadAvatar) — or remove it
+ * ✔ Edit display name, username and bio
+ * ✔ Check the username while typing (format + availability, same
+ *   lookup SignupScreen uses: profileService.isUsernameTaken)
+ * ✔ Save through ProfileContext, so the new profile shows across the
+ *   app right away
+ *
+ * Architecture Notes:
+ * --------------------------------------------------------------------
+ * • The avatar is saved as soon as it is uploaded; the text fields
+ *   only on "שמור".
+ * • The unique index on lower(username) has the final word: a name
+ *   taken between the check and the save surfaces as UsernameTakenError.
+ * • Cropping uses the picker's built-in editor (allowsEditing), which
+ *   is not available on web — the image is then used as picked.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
+
+import Avatar from '../components/Avatar';
+import { useTheme } from '../context/ThemeContext';
+import { useMyProfile } from '../context/ProfileContext';
+import { profileService, UsernameTakenError } from '../services/profileService';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { isValidUsername, USERNAME_MAX_LENGTH, USERNAME_MIN_LENGTH } from '../utils/mentions';
+import { haptics } from '../utils/haptics';
+
+// Same limit as the profiles_bio_length constraint
+const MAX_BIO_LENGTH = 160;
+
+type UsernameStatus = 'idle' | 'checking' | 'available' | 'taken' | 'invalid';
+
+export default function EditProfileScreen() {
+  const navigation = useNavigation();
+  const { isDarkMode } = useTheme();
+  const { profile, loading, updateProfile, updateAvatar } = useMyProfile();
+
+  const [fullName, setFullName] = useState('');
+  const [username, setUsername] = useState('');
+  const [bio, setBio] = useState('');
+  const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>('idle');
+
+  const [saving, setSaving] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fill the form once the profile is there. Only when a different
+  // profile loads, not after every save (that would undo typing).
+  const profileId = profile?.id;
+  const seededIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!profile || seededIdRef.current === profile.id) return;
+    seededIdRef.current = profile.id;
+    setFullName(profile.full_name ?? '');
+    setUsername(profile.username ?? '');
+    setBio(profile.bio ?? '');
+  }, [profile]);
+
+  const trimmedUsername = username.trim();
+  const debouncedUsername = useDebouncedValue(trimmedUsername, 400);
+  const usernameChanged = !!profile && trimmedUsername !== (profile.username ?? '');
+
+  /**
+   * Username availability (debounced, stale answers ignored)
+   */
+  useEffect(() => {
+    if (!profileId || !usernameChanged) {
+      setUsernameStatus('idle');
+      return;
+    }
+    if (!isValidUsername(debouncedUsername)) {
+      setUsernameStatus('invalid');
+      return;
+    }
+
+    let cancelled = false;
+    setUsernameStatus('checking');
+
+    profileService
+      .isUsernameTaken(debouncedUsername, profileId)
+      .then((taken) => !cancelled && setUsernameStatus(taken ? 'taken' : 'available'))
+      .catch((err) => {
+        console.error('❌ Username check failed:', err);
+        // Let the save (unique index) decide
+        if (!cancelled) setUsernameStatus('idle');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedUsername, profileId, usernameChanged]);
+
+  const pickAvatar = async () => {
+    setError(null);
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+
+    if (result.canceled || !result.assets[0]) return;
+    const asset = result.assets[0];
+
+    try {
+      setUploadingAvatar(true);
+      await updateAvatar({ uri: asset.uri, contentType: asset.mimeType, fileName: asset.fileName });
+      haptics.success();
+    } catch (err) {
+      console.error('❌ Avatar upload failed:', err);
+      setError('העלאת התמונה נכשלה, נסה שוב');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const removeAvatar = async () => {
+    setError(null);
+    try {
+      setUploadingAvatar(true);
+      await updateProfile({ avatar_url: null });
+    } catch (err) {
+      console.error('❌ Removing avatar failed:', err);
+      setError('לא הצלחנו להסיר את התמונה');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+    setError(null);
+
+    if (!isValidUsername(trimmedUsername)) {
+      setError(`שם משתמש: ${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} תווים, אותיות באנגלית, ספרות, _ או .`);
+      return;
+    }
+    if (bio.length > MAX_BIO_LENGTH) {
+      setError(`הביו ארוך מדי (עד ${MAX_BIO_LENGTH} תווים)`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      if (usernameChanged && (await profileService.isUsernameTaken(trimmedUsername, profile.id))) {
+        setUsernameStatus('taken');
+        setError('שם המשתמש כבר תפוס, נסה שם אחר');
+        return;
+      }
+
+      await updateProfile({
+        username: trimmedUsername,
+        full_name: fullName.trim() || null,
+        bio: bio.trim() || null,
+      });
+
+      haptics.success();
+      navigation.goBack();
+    } catch (err) {
+      if (err instanceof UsernameTakenError) {
+        setUsernameStatus('taken');
+        setError('שם המשתמש כבר תפוס, נסה שם אחר');
+      } else {
+        console.error('❌ Saving profile failed:', err);
+        setError('שמירת הפרופיל נכשלה, נסה שוב');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Dynamic theme colors
+  const bg = isDarkMode ? '#000' : '#fff';
+  const border = isDarkMode ? '#222' : '#ddd';
+  const text = isDarkMode ? '#fff' : '#000';
+  const subtext = isDarkMode ? '#888' : '#666';
+  const card = isDarkMode ? '#1a1a1a' : '#f0f0f0';
+  const inputStyle = [styles.input, { backgroundColor: card, color: text, borderColor: border }];
+
+  const usernameHint: Record<UsernameStatus, { text: string; color: string } | null> = {
+    idle: null,
+    checking: { text: 'בודק זמינות...', color: subtext },
+    available: { text: 'שם המשתמש פנוי ✓', color: '#00D5FF' },
+    taken: { text: 'שם המשתמש כבר תפוס', color: '#FF3B5C' },
+    invalid: { text: 'אותיות באנגלית, ספרות, _ או . (3-30 תווים)', color: '#FF3B5C' },
+  };
+  const hint = usernameHint[usernameStatus];
+
+  const canSave =
+    !!profile && !saving && !uploadingAvatar && usernameStatus !== 'taken' && usernameStatus !== 'invalid';
+
+  return (
+    <View style={[styles.container, { backgroundColor: bg }]}>
+      {/* ------------------------------------------------------------
+          HEADER (Back button + screen title + save)
+         ------------------------------------------------------------ */}
+      <View style={[styles.header, { borderBottomColor: border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color={text} />
+        </TouchableOpacity>
+
+        <Text style={[styles.title, { color: text }]}>עריכת פרופיל</Text>
+
+        <TouchableOpacity onPress={handleSave} disabled={!canSave} style={styles.saveBtn}>
+          {saving ? (
+            <ActivityIndicator size="small" color="#00D5FF" />
+          ) : (
+            <Text style={[styles.saveText, !canSave && styles.saveTextDisabled]}>שמור</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {!profile ? (
+        loading ? (
+          <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+        ) : (
+          <Text style={[styles.emptyText, { color: subtext }]}>לא הצלחנו לטעון את הפרופיל</Text>
+        )
+      ) : (
+        <ScrollView contentContainerStyle={styles.form} keyboardShouldPersistTaps="handled">
+          {/* Avatar */}
+          <View style={styles.avatarSection}>
+            <TouchableOpacity
+              style={[styles.avatarContainer, { backgroundColor: card }]}
+              onPress={pickAvatar}
+              disabled={uploadingAvatar}
+            >
+              <Avatar avatar={profile.avatar_url} profileId={profile.id} size={100} />
+              {uploadingAvatar && (
+                <View style={styles.avatarOverlay}>
+                  <ActivityIndicator color="#fff" />
+                </View>
+              )}
+            </TouchableOpacity>
+
+            <View style={styles.avatarActions}>
+              <TouchableOpacity onPress={pickAvatar} disabled={uploadingAvatar}>
+                <Text style={styles.linkText}>החלף תמונה</Text>
+              </TouchableOpacity>
+              {!!profile.avatar_url && (
+                <TouchableOpacity onPress={removeAvatar} disabled={uploadingAvatar}>
+                  <Text style={[styles.linkText, styles.removeText]}>הסר</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          {/* Display name */}
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: text }]}>שם</Text>
+            <TextInput
+              style={inputStyle}
+              value={fullName}
+              onChangeText={setFullName}
+              placeholder="השם שיוצג בפרופיל"
+              placeholderTextColor="#666"
+              maxLength={50}
+            />
+          </View>
+
+          {/* Username */}
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: text }]}>שם משתמש</Text>
+            <TextInput
+              style={inputStyle}
+              value={username}
+              onChangeText={setUsername}
+              placeholder="username"
+              placeholderTextColor="#666"
+              autoCapitalize="none"
+              autoCorrect={false}
+              maxLength={USERNAME_MAX_LENGTH}
+            />
+            {hint && <Text style={[styles.hint, { color: hint.color }]}>{hint.text}</Text>}
+          </View>
+
+          {/* Bio */}
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: text }]}>ביו</Text>
+            <TextInput
+              style={[inputStyle, styles.bioInput]}
+              value={bio}
+              onChangeText={setBio}
+              placeholder="ספרו על עצמכם ועל החופשות שלכם"
+              placeholderTextColor="#666"
+              multiline
+              maxLength={MAX_BIO_LENGTH}
+            />
+            <Text style={[styles.counter, { color: subtext }]}>
+              {bio.length}/{MAX_BIO_LENGTH}
+            </Text>
+          </View>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  /* Header */
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  backBtn: {
+    padding: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  saveBtn: {
+    padding: 4,
+  },
+  saveText: {
+    color: '#00D5FF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  saveTextDisabled: {
+    opacity: 0.4,
+  },
+
+  loader: {
+    marginTop: 48,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+    fontSize: 15,
+  },
+
+  form: {
+    paddingVertical: 24,
+  },
+
+  /* Avatar */
+  avatarSection: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  avatarContainer: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarActions: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 12,
+  },
+  linkText: {
+    color: '#00D5FF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#FF3B5C',
+  },
+
+  /* Fields */
+  section: {
+    paddingHorizontal: 16,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+  bioInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  counter: {
+    fontSize: 12,
+    textAlign: 'right',
+    marginTop: 6,
+  },
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,310 @@
+/**
+ * ./screens/FollowListScreen.tsx
+ *
+ * Followers / following list of a profile (opened from the stats on
+ * ProfileScreen).
+ *
+ * Current behavior:
+ * --------------------------------------------------------------------
+ * ✔ Header with a back button and two tabs: עוקבים / נעקבים
+ * ✔ Lists profiles from Supabase (followService.getFollowList), newest
+ *   follow first, more pages loaded on scroll, pull-to-refresh
+ * ✔ Each row: avatar, name, @username and a follow button
+ * ✔ Tapping a row opens that profile (InfluencerScreen)
+ * ✔ Displays an empty state per tab
+ *
+ * Navigation:
+ * --------------------------------------------------------------------
+ * - Route params: { userId, kind } (kind = the tab opened first)
+ * - Tapping back returns to the Profile screen.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp, NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { ProfileStackParamList, RootStackParamList } from '../navigation/RootNavigator';
+import { Profile } from '../types/database';
+import { followService, FollowListKind } from '../services/followService';
+import FollowButton from '../components/FollowButton';
+import Avatar from '../components/Avatar';
+
+type Props = NativeStackScreenProps<ProfileStackParamList, 'Follows'>;
+
+const TABS: { kind: FollowListKind; label: string; empty: string }[] = [
+  { kind: 'followers', label: 'עוקבים', empty: 'עדיין אין עוקבים' },
+  { kind: 'following', label: 'נעקבים', empty: 'עדיין לא עוקבים אחרי אף אחד' },
+];
+
+export default function FollowListScreen({ route, navigation }: Props) {
+  const { userId } = route.params;
+  const rootNavigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const [kind, setKind] = useState<FollowListKind>(route.params.kind);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const pageRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  // Bumped on every reload; stale responses compare against it
+  const requestIdRef = useRef(0);
+
+  const loadFirstPage = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    pageRef.current = 0;
+
+    try {
+      const page = await followService.getFollowList(userId, kind, 0);
+      if (requestId !== requestIdRef.current) return;
+      setProfiles(page.profiles);
+      setHasMore(page.hasMore);
+      setError(null);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('❌ Loading follow list failed:', err);
+      setError('לא הצלחנו לטעון את הרשימה');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [userId, kind]);
+
+  useEffect(() => {
+    setLoading(true);
+    setProfiles([]);
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadFirstPage();
+    setRefreshing(false);
+  };
+
+  const loadMore = async () => {
+    if (loading || !hasMore || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    const nextPage = pageRef.current + 1;
+    loadingMoreRef.current = true;
+
+    try {
+      const page = await followService.getFollowList(userId, kind, nextPage);
+      if (requestId !== requestIdRef.current) return;
+
+      pageRef.current = nextPage;
+      setHasMore(page.hasMore);
+      setProfiles((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...page.profiles.filter((p) => !seen.has(p.id))];
+      });
+    } catch (err) {
+      console.error('❌ Loading more of the follow list failed:', err);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  };
+
+  const emptyText = TABS.find((tab) => tab.kind === kind)?.empty;
+
+  return (
+    <View style={styles.container}>
+      {/* ------------------------------------------------------------
+          HEADER SECTION
+         ------------------------------------------------------------ */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+
+        <View style={styles.tabs}>
+          {TABS.map((tab) => (
+            <TouchableOpacity
+              key={tab.kind}
+              style={[styles.tab, kind === tab.kind && styles.tabActive]}
+              onPress={() => setKind(tab.kind)}
+            >
+              <Text style={[styles.tabText, kind === tab.kind && styles.tabTextActive]}>
+                {tab.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+      ) : (
+        <FlatList
+          data={profiles}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={profiles.length === 0 ? styles.emptyList : undefined}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="#00D5FF" />
+          }
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => rootNavigation.navigate('Influencer', { influencerId: item.id })}
+              activeOpacity={0.8}
+            >
+              <Avatar avatar={item.avatar_url} profileId={item.id} size={36} />
+
+              <View style={styles.rowBody}>
+                <Text style={styles.name} numberOfLines={1}>
+                  {item.full_name || item.username || 'משתמש'} {item.verified && '✓'}
+                </Text>
+                {!!item.username && (
+                  <Text style={styles.username} numberOfLines={1}>
+                    @{item.username}
+                  </Text>
+                )}
+              </View>
+
+              <FollowButton profileId={item.id} size="small" />
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={
+            /* ------------------------------------------------------------
+               EMPTY STATE
+               ------------------------------------------------------------ */
+            <View style={styles.empty}>
+              <Text style={styles.emptyIcon}>👥</Text>
+              <Text style={styles.emptyText}>{emptyText}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000', // Veeky dark background
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+    gap: 12,
+  },
+
+  backBtn: {
+    padding: 4,
+  },
+
+  /* Tabs */
+  tabs: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 8,
+  },
+
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+
+  tabActive: {
+    borderBottomColor: '#00D5FF',
+  },
+
+  tabText: {
+    color: '#888',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  tabTextActive: {
+    color: '#fff',
+  },
+
+  loader: {
+    marginTop: 40,
+  },
+
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingTop: 12,
+  },
+
+  /* Rows */
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+
+  rowBody: {
+    flex: 1,
+  },
+
+  name: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+
+  username: {
+    color: '#888',
+    fontSize: 13,
+  },
+
+  /* Empty state layout */
+  emptyList: {
+    flexGrow: 1,
+  },
+
+  empty: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+
+  emptyText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
@@ -6,7 +6,10 @@
  *
  * Responsibilities:
  * --------------------------------------------------------------------
- * ✔ Shows the top filter bar (All / Trips / Lodging / Entertainment)
+ * ✔ Shows the top filter bar (Following / For You / All / Trips /
+ *   Lodging / Entertainment). "Following" = only creators the user
+ *   follows, "For You" (the default) = every video, ranked for the user
+ *   (utils/feedRanking.ts). The bar scrolls sideways on narrow screens.
  * ✔ Switches between **native feed** (VideoFeed) and **web feed**
  *   (WebVideoFeed) depending on the platform
  * ✔ Forwards "initialVideoId" so navigation can open the feed at a
@@ -19,8 +22,10 @@
  * • WebVideoFeed is lazily loaded ONLY on web (dynamic require),
  *   because the native mobile version uses expo-video.
  * • VideoFeed auto-plays videos only when visible.
+ * • Each feed owns its data (pagination, pull-to-refresh, "new videos"
+ *   pill) through hooks/usePaginatedVideos.ts.
  * • Filters include icons for search & location, and text items for
- *   actual categories.
+ *   the feed filters (FeedFilter in types/video.ts).
  * • This screen is simple but VERY important in the navigation stack.
  */
 
@@ -31,7 +36,7 @@ import {
   TouchableOpacity,
   Text,
   Platform,
-  RefreshControl,
+  ScrollView,
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
@@ -40,15 +45,14 @@ import VideoFeed from '../components/VideoFeed';
 import { useIsFocused, useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
-
-type FilterType = 'All' | 'Trips' | 'Lodging' | 'Entertainment';
+import { FeedFilter } from '../types/video';
 
 /**
  * On web, we load WebVideoFeed dynamically so native builds do not bundle it.
  * This avoids errors since WebVideoFeed uses HTML <video>.
  */
 let WebVideoFeed: React.ComponentType<{
-  filter?: FilterType;
+  filter?: FeedFilter;
   initialVideoId?: string;
   feedActive?: boolean;
 }> | null = null;
@@ -64,23 +68,20 @@ type FilterItem = {
   icon?: string;
 };
 
+const FEED_FILTERS: string[] = ['Following', 'ForYou', 'All', 'Trips', 'Lodging', 'Entertainment'];
+
+function isFeedFilter(key: string): key is FeedFilter {
+  return FEED_FILTERS.includes(key);
+}
+
 export default function HomeFeedScreen({ route }: any) {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 
   const isFocused = useIsFocused();
   const feedActive = isFocused;
 
-  // Selected category filter
-  const [selectedFilter, setSelectedFilter] = useState<FilterType>('All');
-  const [refreshing, setRefreshing] = useState(false);
-
-  const onRefresh = React.useCallback(() => {
-    setRefreshing(true);
-    // Simulate refresh - in real app, fetch new data from API
-    setTimeout(() => {
-      setRefreshing(false);
-    }, 1000);
-  }, []);
+  // Selected feed filter
+  const [selectedFilter, setSelectedFilter] = useState<FeedFilter>('ForYou');
 
   // In case navigation sends us a specific video to jump to
   const videoId = route?.params?.videoId;
@@ -91,6 +92,8 @@ export default function HomeFeedScreen({ route }: any) {
    */
   const filters: FilterItem[] = [
     { key: 'search', icon: 'search-outline', label: '' },
+    { key: 'Following', label: 'Following' },
+    { key: 'ForYou', label: 'For You' },
     { key: 'All', label: 'All' },
     { key: 'Trips', label: 'Trips' },
     { key: 'Lodging', label: 'Lodging' },
@@ -105,7 +108,12 @@ export default function HomeFeedScreen({ route }: any) {
       {/* -----------------------------------------------------------
            FILTER BAR (top navigation chips)
          ----------------------------------------------------------- */}
-      <View style={styles.filterBar}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterScroll}
+        contentContainerStyle={styles.filterBar}
+      >
         {filters.map((f) => (
           <TouchableOpacity
             key={f.key}
@@ -119,13 +127,8 @@ export default function HomeFeedScreen({ route }: any) {
                 return;
               }
 
-              // Update filter only if it's one of the categories
-              if (
-                f.key === 'All' ||
-                f.key === 'Trips' ||
-                f.key === 'Lodging' ||
-                f.key === 'Entertainment'
-              ) {
+              // Update filter only if it's one of the feed filters
+              if (isFeedFilter(f.key)) {
                 setSelectedFilter(f.key);
               }
             }}
@@ -146,7 +149,7 @@ export default function HomeFeedScreen({ route }: any) {
             )}
           </TouchableOpacity>
         ))}
-      </View>
+      </ScrollView>
 
       {/* -----------------------------------------------------------
            MAIN VIDEO FEED
@@ -157,13 +160,7 @@ export default function HomeFeedScreen({ route }: any) {
         {isWeb && WebVideoFeed ? (
           <WebVideoFeed filter={selectedFilter} initialVideoId={videoId} feedActive={feedActive} />
         ) : (
-          <VideoFeed 
-            filter={selectedFilter} 
-            initialVideoId={videoId} 
-            feedActive={feedActive}
-            onRefresh={onRefresh}
-            refreshing={refreshing}
-          />
+          <VideoFeed filter={selectedFilter} initialVideoId={videoId} feedActive={feedActive} />
         )}
       </View>
     </View>
@@ -179,7 +176,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#000', // Pure black Veeky theme
   },
+  filterScroll: {
+    flexGrow: 0,
+  },
   filterBar: {
+    flexGrow: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
@@ -6,11 +6,17 @@
  *
  * Responsibilities:
  * --------------------------------------------------------------------
- * ✔ Display influencer avatar, name, verification checkmark
- * ✔ Count and display number of videos from that influencer
- * ✔ Show a 3-column grid of their videos (TikTok profile-style)
- * ✔ Show thumbnails (generated from location via getThumbnailForLocation)
+ * ✔ Resolve the profile from the route param: a profile id or a
+ *   username (also via the `influencer/:influencerId` deep link)
+ * ✔ Display avatar, name, @username, verification checkmark and bio
+ * ✔ Show videos, followers, following and total likes
+ * ✔ Follow / unfollow button (followService)
+ * ✔ Category tabs (All / Trips / Lodging / Entertainment)
+ * ✔ Show a 3-column grid of their videos (TikTok profile-style),
+ *   more pages loaded on scroll (hooks/useProfileVideos.ts)
+ * ✔ Show thumbnails (item.thumbnail, see utils/videoMapper.ts)
  * ✔ Navigate back to HomeFeed and auto-scroll to the selected video
+ * ✔ Loading, error and "profile not found" states
  *
  * Navigation Flow:
  * --------------------------------------------------------------------
@@ -21,15 +27,16 @@
  *
  * Data Source:
  * --------------------------------------------------------------------
- * Uses MOCK_DATA from VideoFeed. In the real app this will fetch from API.
+ * profiles + videos in Supabase (profileService, videoService),
+ * follow counts from followService.
  *
  * Layout:
  * --------------------------------------------------------------------
- * Top section = influencer header  
- * Below = grid of video thumbnails  
+ * Top section = influencer header + category tabs (scrolls with the grid)
+ * Below = grid of video thumbnails
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -38,15 +45,20 @@ import {
   TouchableOpacity,
   Dimensions,
   Image,
+  ActivityIndicator,
 } from 'react-native';
 
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
 
-import { MOCK_DATA } from '../components/VideoFeed';
-import { getThumbnailForLocation } from '../utils/thumbnails';
-
 import { CommonActions } from '@react-navigation/native';
+import PriceLabel from '../components/PriceLabel';
+import FollowButton from '../components/FollowButton';
+import Avatar from '../components/Avatar';
+import { followService, FollowCounts } from '../services/followService';
+import { profileService, ProfileStats } from '../services/profileService';
+import { useProfileVideos } from '../hooks/useProfileVideos';
+import { Profile, VideoCategory } from '../types/database';
 
 const { width } = Dimensions.get('window');
 // Fit 3 thumbnails per row with 1px spacing
@@ -54,43 +66,121 @@ const itemWidth = (width - 4) / 3;
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Influencer'>;
 
+type CategoryTab = 'All' | VideoCategory;
+
+const TABS: CategoryTab[] = ['All', 'Trips', 'Lodging', 'Entertainment'];
+
 export default function InfluencerScreen({ route, navigation }: Props) {
   const { influencerId } = route.params;
 
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [resolving, setResolving] = useState(true);
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  const [stats, setStats] = useState<ProfileStats | null>(null);
+  const [followCounts, setFollowCounts] = useState<FollowCounts | null>(null);
+  const [tab, setTab] = useState<CategoryTab>('All');
+
+  const { videos, loading, loadingMore, error, loadMore } = useProfileVideos(
+    profile?.id,
+    tab === 'All' ? undefined : tab
+  );
+
   /**
-   * Filter all videos belonging to this influencer
+   * Resolve the route param (id or username) to a profile
    */
-  const influencerVideos = MOCK_DATA.filter(
-    (v) => v.influencer.id === influencerId
+  useEffect(() => {
+    let cancelled = false;
+
+    setResolving(true);
+    setProfileError(null);
+    setProfile(null);
+    setTab('All');
+
+    profileService
+      .resolveProfile(influencerId)
+      .then((found) => {
+        if (cancelled) return;
+        setProfile(found);
+        if (!found) setProfileError('הפרופיל לא נמצא');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('❌ Loading profile failed:', err);
+        setProfileError('לא הצלחנו לטעון את הפרופיל');
+      })
+      .finally(() => {
+        if (!cancelled) setResolving(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [influencerId]);
+
+  /**
+   * Counters of the resolved profile
+   */
+  useEffect(() => {
+    if (!profile) return;
+    let cancelled = false;
+
+    setStats(null);
+    setFollowCounts(null);
+
+    profileService
+      .getStats(profile.id)
+      .then((result) => !cancelled && setStats(result))
+      .catch((err) => console.error('❌ Loading profile stats failed:', err));
+
+    followService
+      .getCounts(profile.id)
+      .then((counts) => !cancelled && setFollowCounts(counts))
+      .catch((err) => console.error('❌ Loading follower count failed:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile]);
+
+  // Follows are shown right away; the count follows the button
+  const handleFollowChange = (following: boolean) => {
+    setFollowCounts((prev) =>
+      prev ? { ...prev, followers: Math.max(prev.followers + (following ? 1 : -1), 0) } : prev
+    );
+  };
+
+  const backButton = (
+    <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backBtn}>
+      <Text style={styles.backText}>←</Text>
+    </TouchableOpacity>
   );
 
-  const influencer = influencerVideos[0]?.influencer;
+  if (resolving || !profile) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>{backButton}</View>
+        {resolving ? (
+          <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+        ) : (
+          <View style={styles.empty}>
+            <Text style={styles.emptyIcon}>🔍</Text>
+            <Text style={styles.emptyText}>{profileError}</Text>
+          </View>
+        )}
+      </View>
+    );
+  }
 
-  // If somehow no videos/influencer found → return nothing
-  if (!influencer) return null;
+  const counters: { label: string; value: number | undefined }[] = [
+    { label: 'סרטונים', value: stats?.videos },
+    { label: 'עוקבים', value: followCounts?.followers },
+    { label: 'נעקבים', value: followCounts?.following },
+    { label: 'לייקים', value: stats?.likes },
+  ];
 
   return (
     <View style={styles.container}>
-      {/* ------------------------------------------------------------
-          HEADER: Back button, avatar, name, videos count
-         ------------------------------------------------------------ */}
-      <View style={styles.header}>
-        <TouchableOpacity
-          onPress={() => navigation.goBack()}
-          style={styles.backBtn}
-        >
-          <Text style={styles.backText}>←</Text>
-        </TouchableOpacity>
-
-        <View style={styles.profileInfo}>
-          <Text style={styles.avatar}>{influencer.avatar}</Text>
-          <Text style={styles.name}>
-            {influencer.name} {influencer.verified && '✓'}
-          </Text>
-          <Text style={styles.stats}>{influencerVideos.length} סרטונים</Text>
-        </View>
-      </View>
-
       {/* ------------------------------------------------------------
           GRID OF VIDEOS
           Each item:
@@ -99,9 +189,73 @@ export default function InfluencerScreen({ route, navigation }: Props) {
             • Title + Price
          ------------------------------------------------------------ */}
       <FlatList
-        data={influencerVideos}
+        data={videos}
         numColumns={3}
         keyExtractor={(item) => item.id}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <>
+            {/* ------------------------------------------------------------
+                HEADER: Back button, avatar, name, bio, counters
+               ------------------------------------------------------------ */}
+            <View style={styles.header}>
+              {backButton}
+
+              <View style={styles.profileInfo}>
+                <View style={styles.avatar}>
+                  <Avatar avatar={profile.avatar_url} profileId={profile.id} size={64} />
+                </View>
+                <Text style={styles.name}>
+                  {profile.full_name || profile.username || 'משתמש'} {profile.verified && '✓'}
+                </Text>
+                {!!profile.username && <Text style={styles.username}>@{profile.username}</Text>}
+                {!!profile.bio && <Text style={styles.bio}>{profile.bio}</Text>}
+
+                <View style={styles.counters}>
+                  {counters.map((counter) => (
+                    <View key={counter.label} style={styles.counter}>
+                      <Text style={styles.counterValue}>
+                        {counter.value === undefined ? '–' : formatCount(counter.value)}
+                      </Text>
+                      <Text style={styles.stats}>{counter.label}</Text>
+                    </View>
+                  ))}
+                </View>
+
+                <View style={styles.followBtn}>
+                  <FollowButton profileId={profile.id} onChange={handleFollowChange} />
+                </View>
+              </View>
+            </View>
+
+            {/* Category tabs */}
+            <View style={styles.tabs}>
+              {TABS.map((t) => (
+                <TouchableOpacity
+                  key={t}
+                  style={[styles.tab, tab === t && styles.tabActive]}
+                  onPress={() => setTab(t)}
+                >
+                  <Text style={[styles.tabText, tab === t && styles.tabTextActive]}>{t}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        }
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+          ) : (
+            <View style={styles.empty}>
+              <Text style={styles.emptyIcon}>🎬</Text>
+              <Text style={styles.emptyText}>{error ?? 'אין עדיין סרטונים'}</Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#00D5FF" /> : null
+        }
         renderItem={({ item }) => (
           <TouchableOpacity
             style={styles.videoCard}
@@ -126,7 +280,7 @@ export default function InfluencerScreen({ route, navigation }: Props) {
             {/* Thumbnail */}
             <View style={styles.thumbnail}>
               <Image
-                source={{ uri: getThumbnailForLocation(item.location) }}
+                source={{ uri: item.thumbnail }}
                 style={styles.thumbnailImage}
                 resizeMode="cover"
               />
@@ -143,7 +297,7 @@ export default function InfluencerScreen({ route, navigation }: Props) {
             </Text>
 
             {/* Price */}
-            <Text style={styles.videoPrice}>{item.price}</Text>
+            <PriceLabel price={item.price} style={styles.videoPrice} layout="stacked" />
           </TouchableOpacity>
         )}
       />
@@ -151,6 +305,12 @@ export default function InfluencerScreen({ route, navigation }: Props) {
   );
 }
 
+function formatCount(num: number): string {
+  if (num >= 1_000_000) return (num / 1_000_000).toFixed(1) + 'M';
+  if (num >= 1_000) return (num / 1_000).toFixed(1) + 'K';
+  return num.toString();
+}
+
 /* --------------------------------------------------------------------
    STYLES
 -------------------------------------------------------------------- */
@@ -181,7 +341,6 @@ const styles = StyleSheet.create({
     marginTop: 16,
   },
   avatar: {
-    fontSize: 64,
     marginBottom: 12,
   },
   name: {
@@ -190,10 +349,85 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginBottom: 4,
   },
+  username: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  bio: {
+    color: '#ccc',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 32,
+    marginBottom: 8,
+  },
+  counters: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 8,
+  },
+  counter: {
+    alignItems: 'center',
+  },
+  counterValue: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
   stats: {
     color: '#888',
     fontSize: 14,
   },
+  followBtn: {
+    marginTop: 16,
+  },
+
+  /* Category tabs */
+  tabs: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  tab: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  tabActive: {
+    backgroundColor: '#00D5FF',
+    borderColor: '#00D5FF',
+  },
+  tabText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tabTextActive: {
+    color: '#000',
+  },
+
+  /* States */
+  loader: {
+    marginTop: 48,
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 15,
+  },
 
   /* Video grid items */
   videoCard: {
@@ -5,23 +5,25 @@
  *
  * Responsibilities:
  * --------------------------------------------------------------------
- * ✔ Read liked video IDs from the storage helper
- * ✔ Filter MOCK_DATA to get full video objects for those IDs
+ * ✔ Load the user's rows from the `likes` table joined with videos and
+ *   profiles, most recently liked first, page by page
+ *   (hooks/useInteractionVideos.ts)
  * ✔ Display a 3-column grid of liked trips (similar to InfluencerScreen)
+ * ✔ Unlike from the grid (heart button), with "undo" for a few seconds
  * ✔ Navigate back to the Home feed and auto-scroll to a selected video
  * ✔ Show an empty state when there are no liked videos
  *
  * Data flow:
  * --------------------------------------------------------------------
- * - On focus (useFocusEffect): load liked video IDs via storage.getLikedVideos()
- * - Compute likedVideos by filtering MOCK_DATA
+ * - On focus (useFocusEffect): reload when likes changed elsewhere
+ * - Pull to refresh, onEndReached loads the next page
  * - Tapping a card:
  *      → Reset navigation stack
  *      → Go to MainTabs → Home tab
  *      → Pass { videoId } so the feed jumps to that video
  */
 
-import React, { useState, useCallback } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -30,18 +32,17 @@ import {
   TouchableOpacity,
   Dimensions,
   Image,
+  ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
-import {
-  useNavigation,
-  CommonActions,
-  useFocusEffect,
-} from '@react-navigation/native';
+import { useNavigation, CommonActions, useFocusEffect } from '@react-navigation/native';
 
-import { MOCK_DATA } from '../components/VideoFeed';
 import { storage } from '../utils/storage';
-import { getThumbnailForLocation } from '../utils/thumbnails';
+import { useInteractionVideos } from '../hooks/useInteractionVideos';
+import PriceLabel from '../components/PriceLabel';
+import UndoToast from '../components/UndoToast';
 
 const { width } = Dimensions.get('window');
 const itemWidth = (width - 4) / 3;
@@ -49,30 +50,33 @@ const itemWidth = (width - 4) / 3;
 export default function LikedScreen() {
   const navigation = useNavigation();
 
-  // All liked video IDs (strings), synced from storage
-  const [likedIds, setLikedIds] = useState<string[]>([]);
+  const {
+    videos,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    loadMore,
+    refresh,
+    reloadIfStale,
+    remove,
+    removed,
+    undoRemove,
+  } = useInteractionVideos('likes');
 
   /**
-   * When the screen comes into focus:
-   * - Pull the latest liked video IDs from storage
-   * - This ensures the list is always up to date when user returns
+   * Coming back to this screen: reload if liked videos changed
+   * meanwhile (e.g. in the feed).
    */
-  useFocusEffect(
-    useCallback(() => {
-      setLikedIds(storage.getLikedVideos());
-    }, [])
-  );
+  useFocusEffect(reloadIfStale);
 
-  /**
-   * Derive full video objects from the global MOCK_DATA list
-   * based on which IDs are liked.
-   */
-  const likedVideos = MOCK_DATA.filter((v) => likedIds.includes(v.id));
+  // All liked videos of the user (local state, not only loaded pages)
+  const total = Math.max(storage.getLikedVideos().length - (removed ? 1 : 0), 0);
 
   return (
     <View style={styles.container}>
       {/* ------------------------------------------------------------
-          HEADER: back arrow, title, count
+          HEADER: back button + title + video count
          ------------------------------------------------------------ */}
       <View style={styles.header}>
         <TouchableOpacity
@@ -84,33 +88,50 @@ export default function LikedScreen() {
 
         <View style={styles.headerText}>
           <Text style={styles.title}>אהבתי</Text>
-          <Text style={styles.count}>{likedVideos.length} סרטונים</Text>
+          <Text style={styles.count}>{total} סרטונים</Text>
         </View>
       </View>
 
-      {/* ------------------------------------------------------------
-          BODY: empty state vs grid of liked videos
-         ------------------------------------------------------------ */}
-      {likedVideos.length === 0 ? (
-        // Empty state when user hasn’t liked anything yet
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+      ) : videos.length === 0 ? (
+        /* ------------------------------------------------------------
+            EMPTY / ERROR STATE
+           ------------------------------------------------------------ */
         <View style={styles.empty}>
           <Text style={styles.emptyIcon}>❤️</Text>
-          <Text style={styles.emptyText}>אין סרטונים שאהבת</Text>
-          <Text style={styles.emptySubtext}>
-            לחץ על לייק כדי לראות כאן
-          </Text>
+          <Text style={styles.emptyText}>{error ?? 'אין סרטונים שאהבת'}</Text>
+          {error ? (
+            <TouchableOpacity onPress={refresh}>
+              <Text style={styles.retryText}>נסה שוב</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.emptySubtext}>
+              לחץ על לייק כדי לראות כאן
+            </Text>
+          )}
         </View>
       ) : (
-        // Grid of liked videos
+        /* ------------------------------------------------------------
+            GRID OF LIKED VIDEOS
+           ------------------------------------------------------------ */
         <FlatList
-          data={likedVideos}
+          data={videos}
           numColumns={3}
           keyExtractor={(item) => item.id}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#00D5FF" />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#00D5FF" /> : null
+          }
           renderItem={({ item }) => (
             <TouchableOpacity
               style={styles.videoCard}
               onPress={() => {
-                // Reset navigation and open Home tab with specific videoId
+                // Reset navigation and open the Home tab with this video preselected
                 navigation.dispatch(
                   CommonActions.reset({
                     index: 0,
@@ -130,15 +151,25 @@ export default function LikedScreen() {
               {/* Thumbnail */}
               <View style={styles.thumbnail}>
                 <Image
-                  source={{ uri: getThumbnailForLocation(item.location) }}
+                  source={{ uri: item.thumbnail }}
                   style={styles.thumbnailImage}
                   resizeMode="cover"
                 />
+
+                {/* Category badge */}
                 <View style={styles.overlay}>
-                  <Text style={styles.thumbnailCategory}>
-                    {item.category}
-                  </Text>
+                  <Text style={styles.thumbnailCategory}>{item.category}</Text>
                 </View>
+
+                {/* Unlike (undo in the toast) */}
+                <TouchableOpacity
+                  style={styles.removeBtn}
+                  onPress={() => remove(item.id)}
+                  hitSlop={8}
+                  accessibilityLabel="בטל לייק"
+                >
+                  <Ionicons name="heart" size={18} color="#FF3B5C" />
+                </TouchableOpacity>
               </View>
 
               {/* Title (2 lines max) */}
@@ -147,11 +178,13 @@ export default function LikedScreen() {
               </Text>
 
               {/* Price */}
-              <Text style={styles.videoPrice}>{item.price}</Text>
+              <PriceLabel price={item.price} style={styles.videoPrice} layout="stacked" />
             </TouchableOpacity>
           )}
         />
       )}
+
+      <UndoToast message={removed ? 'הוסר מהסרטונים שאהבת' : null} onUndo={undoRemove} />
     </View>
   );
 }
@@ -214,6 +247,29 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  retryText: {
+    color: '#00D5FF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+
+  /* Loading */
+  loader: {
+    marginTop: 48,
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
+
+  /* Remove button on thumbnail */
+  removeBtn: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 14,
+    padding: 5,
+  },
 
   /* Grid items */
   videoCard: {
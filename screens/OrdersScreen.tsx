@@ -6,16 +6,19 @@
  * Current behavior:
  * --------------------------------------------------------------------
  * ✔ Shows a header with a back button and screen title
- * ✔ Displays an empty state (no real orders yet)
- * ✔ Matches the dark aesthetic of Veeky
+ * ✔ Lists the user's orders from Supabase (bookingService.getMyOrders),
+ *   reloaded every time the screen is focused, pull-to-refresh
+ * ✔ Each order card shows:
+ *      - Trip thumbnail, title, location
+ *      - Dates, travellers, total price
+ *      - Status badge (pending / confirmed / cancelled / failed)
+ * ✔ Upcoming confirmed orders can be cancelled (refunded through
+ *   the payment provider)
+ * ✔ Tapping a card opens the trip video in the Home feed
+ * ✔ Displays an empty state when there are no orders
  *
  * Future directions:
  * --------------------------------------------------------------------
- * • Integrate backend orders / reservations API
- * • Each order card may show:
- *      - Trip thumbnail
- *      - Dates, price, status
- *      - View itinerary button
  * • Add filters (upcoming / past)
  * • Allow rebooking a trip
  *
@@ -24,14 +27,111 @@
  * - Tapping back returns to the Profile screen.
  */
 
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect, CommonActions } from '@react-navigation/native';
+
+import { Order, OrderStatus } from '../types/database';
+import { bookingService } from '../services/bookingService';
+import { toVideoData } from '../utils/videoMapper';
+import { formatDateRange, orderTotal, toISODate } from '../utils/booking';
+import { formatMoney } from '../utils/money';
+
+/**
+ * Label + color for each order status badge.
+ */
+const STATUS_BADGES: Record<OrderStatus, { label: string; color: string }> = {
+  pending: { label: 'ממתין לאישור', color: '#FFD700' },
+  confirmed: { label: 'מאושר', color: '#00D5FF' },
+  cancelled: { label: 'בוטל', color: '#888' },
+  failed: { label: 'התשלום נכשל', color: '#FF3B5C' },
+};
 
 export default function OrdersScreen() {
   const navigation = useNavigation();
 
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      setOrders(await bookingService.getMyOrders());
+      setError(null);
+    } catch (err) {
+      console.error('❌ Loading orders failed:', err);
+      setError(
+        err instanceof Error && err.message === 'Not authenticated'
+          ? 'יש להתחבר כדי לראות הזמנות'
+          : 'לא הצלחנו לטעון את ההזמנות'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Reload whenever the screen is opened (e.g. right after booking).
+   */
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [loadOrders])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadOrders();
+    setRefreshing(false);
+  };
+
+  const handleCancel = async (order: Order) => {
+    setCancellingId(order.id);
+    try {
+      const updated = await bookingService.cancelOrder(order);
+      setOrders((prev) => prev.map((o) => (o.id === updated.id ? updated : o)));
+    } catch (err) {
+      console.error('❌ Cancelling order failed:', err);
+      setError('לא הצלחנו לבטל את ההזמנה');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  /**
+   * Jump back into the Home feed at the booked trip's video.
+   */
+  const openVideoInFeed = (videoId: string) => {
+    navigation.dispatch(
+      CommonActions.reset({
+        index: 0,
+        routes: [
+          {
+            name: 'MainTabs',
+            state: {
+              index: 0,
+              routes: [{ name: 'Home', params: { videoId } }],
+            },
+          },
+        ],
+      })
+    );
+  };
+
+  const today = toISODate(new Date());
+
   return (
     <View style={styles.container}>
       {/* ------------------------------------------------------------
@@ -48,14 +148,90 @@ export default function OrdersScreen() {
         <Text style={styles.title}>ההזמנות שלי</Text>
       </View>
 
-      {/* ------------------------------------------------------------
-          EMPTY STATE (no reservations yet)
-         ------------------------------------------------------------ */}
-      <View style={styles.empty}>
-        <Text style={styles.emptyIcon}>📦</Text>
-        <Text style={styles.emptyText}>אין הזמנות</Text>
-        <Text style={styles.emptySubtext}>ההזמנות שלך יופיעו כאן</Text>
-      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+      ) : (
+        <FlatList
+          data={orders}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={orders.length === 0 ? styles.emptyList : styles.list}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="#00D5FF" />
+          }
+          renderItem={({ item }) => {
+            const video = item.video ? toVideoData(item.video) : null;
+            const badge = STATUS_BADGES[item.status];
+            const canCancel = item.status === 'confirmed' && item.start_date > today;
+
+            return (
+              <TouchableOpacity
+                style={styles.card}
+                onPress={() => video && openVideoInFeed(video.id)}
+                activeOpacity={0.85}
+              >
+                {/* Thumbnail */}
+                <View style={styles.thumbnail}>
+                  {video && (
+                    <Image
+                      source={{ uri: video.thumbnail }}
+                      style={styles.thumbnailImage}
+                      resizeMode="cover"
+                    />
+                  )}
+                </View>
+
+                {/* Details */}
+                <View style={styles.cardBody}>
+                  <View style={[styles.badge, { borderColor: badge.color }]}>
+                    <Text style={[styles.badgeText, { color: badge.color }]}>{badge.label}</Text>
+                  </View>
+
+                  <Text style={styles.cardTitle} numberOfLines={2}>
+                    {video?.title ?? 'טיול שהוסר'}
+                  </Text>
+                  {!!video?.location && (
+                    <Text style={styles.cardMeta} numberOfLines={1}>
+                      📍 {video.location}
+                    </Text>
+                  )}
+                  <Text style={styles.cardMeta}>
+                    🗓️ {formatDateRange(item.start_date, item.end_date)} • {item.travellers} נוסעים
+                  </Text>
+                  <Text style={styles.cardPrice}>
+                    {formatMoney(orderTotal(item))}
+                  </Text>
+
+                  {canCancel && (
+                    <TouchableOpacity
+                      style={styles.cancelBtn}
+                      onPress={() => handleCancel(item)}
+                      disabled={cancellingId === item.id}
+                    >
+                      {cancellingId === item.id ? (
+                        <ActivityIndicator size="small" color="#FF3B5C" />
+                      ) : (
+                        <Text style={styles.cancelText}>בטל הזמנה</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          }}
+          ListEmptyComponent={
+            /* ------------------------------------------------------------
+               EMPTY STATE (no reservations yet)
+               ------------------------------------------------------------ */
+            <View style={styles.empty}>
+              <Text style={styles.emptyIcon}>📦</Text>
+              <Text style={styles.emptyText}>אין הזמנות</Text>
+              <Text style={styles.emptySubtext}>ההזמנות שלך יופיעו כאן</Text>
+            </View>
+          }
+        />
+      )}
     </View>
   );
 }
@@ -90,7 +266,96 @@ const styles = StyleSheet.create({
     fontWeight: '700',
   },
 
+  loader: {
+    marginTop: 40,
+  },
+
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingTop: 12,
+  },
+
+  /* Orders list */
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+
+  card: {
+    flexDirection: 'row',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+
+  thumbnail: {
+    width: 90,
+    aspectRatio: 9 / 16,
+    backgroundColor: '#111',
+  },
+
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  cardBody: {
+    flex: 1,
+    padding: 12,
+    gap: 4,
+  },
+
+  badge: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginBottom: 4,
+  },
+
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+
+  cardTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+
+  cardMeta: {
+    color: '#888',
+    fontSize: 13,
+  },
+
+  cardPrice: {
+    color: '#00D5FF',
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+
+  cancelBtn: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    paddingVertical: 4,
+  },
+
+  cancelText: {
+    color: '#FF3B5C',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
   /* Empty state layout */
+  emptyList: {
+    flexGrow: 1,
+  },
+
   empty: {
     flex: 1,
     justifyContent: 'center',
@@ -6,15 +6,19 @@
  *
  * Responsibilities:
  * --------------------------------------------------------------------
- * ✔ Display user identity (avatar, name, email)
+ * ✔ Display user identity (avatar, name, @username, bio, email) from
+ *   the user's profile row (ProfileContext)
+ * ✔ "Edit profile" button (→ EditProfileScreen)
+ * ✔ Show followers / following counts (tap → FollowListScreen)
  * ✔ Show profile statistics:
  *      - Saved videos count
  *      - Liked videos count
- *      - Booked vacations count (not implemented yet)
+ *      - Booked vacations count (confirmed orders)
  * ✔ Provide navigation to:
  *      - Orders
  *      - Saves
  *      - Liked
+ *      - Creator dashboard (stats of the user's own videos)
  *      - Settings
  *      - About modal
  * ✔ Reactively update counts whenever the screen becomes active
@@ -25,6 +29,9 @@
  * --------------------------------------------------------------------
  * • Uses useFocusEffect so stats refresh immediately after navigation.
  * • Uses storage.getSavedVideos() and storage.getLikedVideos().
+ * • Booked count comes from bookingService.countMyConfirmedOrders().
+ * • Follow counts come from followService.getCounts().
+ * • Profile edits show up immediately: ProfileContext holds the row.
  * • MenuItem is a reusable sub-component inside this file.
  * • “Logout” currently does nothing; real logout logic will be added later.
  */
@@ -44,7 +51,11 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { ProfileStackParamList } from '../navigation/RootNavigator';
 import { storage } from '../utils/storage';
 import { useTheme } from '../context/ThemeContext';
+import { useMyProfile } from '../context/ProfileContext';
+import Avatar, { isAvatarImage } from '../components/Avatar';
 import { authService } from '../services/authService';
+import { bookingService } from '../services/bookingService';
+import { followService, FollowCounts, FollowListKind } from '../services/followService';
 
 export default function ProfileScreen() {
   const navigation =
@@ -53,9 +64,15 @@ export default function ProfileScreen() {
   // Global theme context
   const { isDarkMode } = useTheme();
 
+  // The user's profiles row (name, avatar, bio), kept fresh by ProfileContext
+  const { profile } = useMyProfile();
+
   // Numeric counters
   const [savedCount, setSavedCount] = useState(0);
   const [likedCount, setLikedCount] = useState(0);
+  const [bookedCount, setBookedCount] = useState(0);
+  const [followCounts, setFollowCounts] = useState<FollowCounts>({ followers: 0, following: 0 });
+  const [userId, setUserId] = useState<string | null>(null);
   const [aboutVisible, setAboutVisible] = useState(false);
   const [userEmail, setUserEmail] = useState('guest@veeky.com');
   const [userName, setUserName] = useState('משתמש אורח');
@@ -68,7 +85,9 @@ export default function ProfileScreen() {
     try {
       const user = await authService.getCurrentUser();
       if (user) {
+        setUserId(user.id);
         setUserEmail(user.email || 'guest@veeky.com');
+        // Until the profile row is loaded
         setUserName(user.user_metadata?.username || user.email?.split('@')[0] || 'משתמש');
       }
     } catch (error) {
@@ -91,16 +110,30 @@ export default function ProfileScreen() {
   };
 
   /**
-   * Refresh saved/liked counts every time user re-enters this screen.
-   * This keeps stats accurate when returning from Saves/Liked screens.
+   * Refresh saved/liked/booked counts every time user re-enters this screen.
+   * This keeps stats accurate when returning from Saves/Liked/Orders screens.
    */
   useFocusEffect(
     React.useCallback(() => {
       setSavedCount(storage.getSavedVideos().length);
       setLikedCount(storage.getLikedVideos().length);
-    }, [])
+      bookingService
+        .countMyConfirmedOrders()
+        .then(setBookedCount)
+        .catch((error) => console.error('Failed to count orders:', error));
+      if (userId) {
+        followService
+          .getCounts(userId)
+          .then(setFollowCounts)
+          .catch((error) => console.error('Failed to count follows:', error));
+      }
+    }, [userId])
   );
 
+  const openFollows = (kind: FollowListKind) => {
+    if (userId) navigation.navigate('Follows', { userId, kind });
+  };
+
   // Dynamic theme colors
   const bg = isDarkMode ? '#000' : '#fff';
   const border = isDarkMode ? '#222' : '#ddd';
@@ -111,15 +144,41 @@ export default function ProfileScreen() {
   return (
     <ScrollView style={[styles.container, { backgroundColor: bg }]}>
       {/* ------------------------------------------------------------
-          PROFILE HEADER (avatar + email)
+          PROFILE HEADER (avatar + name + email)
          ------------------------------------------------------------ */}
       <View style={[styles.header, { borderBottomColor: border }]}>
         <View style={[styles.avatarContainer, { backgroundColor: card }]}>
-          <Text style={styles.avatar}>👤</Text>
+          <Avatar avatar={profile?.avatar_url} profileId={profile?.id} size={isAvatarImage(profile?.avatar_url) ? 100 : 48} />
         </View>
 
-        <Text style={[styles.name, { color: text }]}>{userName}</Text>
+        <Text style={[styles.name, { color: text }]}>
+          {profile?.full_name || profile?.username || userName} {profile?.verified && '✓'}
+        </Text>
+        {!!profile?.username && (
+          <Text style={[styles.username, { color: subtext }]}>@{profile.username}</Text>
+        )}
         <Text style={[styles.email, { color: subtext }]}>{userEmail}</Text>
+        {!!profile?.bio && <Text style={[styles.bio, { color: text }]}>{profile.bio}</Text>}
+
+        <TouchableOpacity
+          style={[styles.editBtn, { borderColor: border }]}
+          onPress={() => navigation.navigate('EditProfile')}
+        >
+          <Text style={[styles.editText, { color: text }]}>ערוך פרופיל</Text>
+        </TouchableOpacity>
+
+        {/* Followers / following (open the lists) */}
+        <View style={styles.followRow}>
+          <TouchableOpacity style={styles.followStat} onPress={() => openFollows('followers')}>
+            <Text style={[styles.followNumber, { color: text }]}>{followCounts.followers}</Text>
+            <Text style={[styles.statLabel, { color: subtext }]}>עוקבים</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.followStat} onPress={() => openFollows('following')}>
+            <Text style={[styles.followNumber, { color: text }]}>{followCounts.following}</Text>
+            <Text style={[styles.statLabel, { color: subtext }]}>נעקבים</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* ------------------------------------------------------------
@@ -127,7 +186,7 @@ export default function ProfileScreen() {
          ------------------------------------------------------------ */}
       <View style={[styles.stats, { borderBottomColor: border }]}>
         <View style={styles.statItem}>
-          <Text style={[styles.statNumber, { color: text }]}>0</Text>
+          <Text style={[styles.statNumber, { color: text }]}>{bookedCount}</Text>
           <Text style={[styles.statLabel, { color: subtext }]}>
             חופשות שהוזמנו
           </Text>
@@ -173,6 +232,13 @@ export default function ProfileScreen() {
           onPress={() => navigation.navigate('Liked')}
         />
 
+        <MenuItem
+          isDark={isDarkMode}
+          icon="stats-chart-outline"
+          title="סטטיסטיקות יוצר"
+          onPress={() => navigation.navigate('CreatorDashboard')}
+        />
+
         {/* Disabled for now */}
         <MenuItem
           isDark={isDarkMode}
@@ -322,19 +388,52 @@ const styles = StyleSheet.create({
     borderRadius: 50,
     justifyContent: 'center',
     alignItems: 'center',
+    overflow: 'hidden',
     marginBottom: 16,
   },
-  avatar: {
-    fontSize: 48,
-  },
   name: {
     fontSize: 24,
     fontWeight: '700',
     marginBottom: 4,
   },
+  username: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
   email: {
     fontSize: 14,
   },
+  bio: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 32,
+    marginTop: 8,
+  },
+  editBtn: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  editText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  /* Followers / following */
+  followRow: {
+    flexDirection: 'row',
+    gap: 32,
+    marginTop: 16,
+  },
+  followStat: {
+    alignItems: 'center',
+  },
+  followNumber: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
 
   /* Stats row */
   stats: {
@@ -5,59 +5,131 @@
  *
  * Responsibilities:
  * --------------------------------------------------------------------
- * ✔ Load saved video IDs from the storage helper
- * ✔ Filter MOCK_DATA to show only the saved videos
+ * ✔ Load the user's rows from the `saves` table joined with videos and
+ *   profiles, most recently saved first, page by page
+ *   (hooks/useInteractionVideos.ts)
+ * ✔ Group by collection: a row of chips ("הכל" + the user's collections,
+ *   services/collectionService.ts) filters the grid to one collection;
+ *   "ניהול" opens CollectionsScreen (rename, reorder, share)
  * ✔ Display them in a 3-column visual grid (like TikTok profile)
+ * ✔ Unsave from the grid (bookmark button), with "undo" for a few seconds;
+ *   inside a collection the button only takes the video out of it
  * ✔ Navigate to a saved video inside the Home feed:
  *      → Reset stack → MainTabs → Home(videoId)
  * ✔ Show an empty state when no saved videos exist
  *
  * UX behavior:
  * --------------------------------------------------------------------
- * - useFocusEffect() ensures screen updates whenever it's re-opened
- * - Thumbnail images are generated via getThumbnailForLocation()
+ * - useFocusEffect() reloads when saves changed elsewhere (e.g. the feed)
+ *   and refetches the collections (they may have been edited meanwhile)
+ * - Pull to refresh, more videos load on scroll
+ * - Thumbnail images come from item.thumbnail (see utils/videoMapper.ts)
  * - Grid items show: thumbnail, category label, title (2 lines), price
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
+  ScrollView,
   TouchableOpacity,
   Dimensions,
   Image,
+  ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, CommonActions, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
-import { MOCK_DATA } from '../components/VideoFeed';
 import { storage } from '../utils/storage';
-import { getThumbnailForLocation } from '../utils/thumbnails';
+import { useInteractionVideos } from '../hooks/useInteractionVideos';
+import { collectionService, CollectionSummary } from '../services/collectionService';
+import { ProfileStackParamList } from '../navigation/RootNavigator';
+import PriceLabel from '../components/PriceLabel';
+import UndoToast from '../components/UndoToast';
 
 const { width } = Dimensions.get('window');
 const itemWidth = (width - 4) / 3;
 
 export default function SavesScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<NativeStackNavigationProp<ProfileStackParamList>>();
 
-  // Stores the list of video IDs the user saved
-  const [savedIds, setSavedIds] = useState<string[]>([]);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+
+  const {
+    videos,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    loadMore,
+    refresh,
+    reloadIfStale,
+    remove,
+    removed,
+    undoRemove,
+  } = useInteractionVideos('saves', collectionId ?? undefined);
+
+  /**
+   * Coming back to this screen: reload if saved videos changed
+   * meanwhile (e.g. in the feed).
+   */
+  useFocusEffect(reloadIfStale);
 
   /**
-   * Refresh saved videos list every time user enters this screen.
-   * This ensures the list is always fresh after liking/unliking inside feed.
+   * Collections for the chips, refetched on focus. A collection that
+   * was deleted meanwhile falls back to "all".
    */
   useFocusEffect(
     useCallback(() => {
-      setSavedIds(storage.getSavedVideos());
+      let cancelled = false;
+
+      collectionService
+        .getMyCollections()
+        .then((rows) => {
+          if (cancelled) return;
+          setCollections(rows);
+          setCollectionId((prev) => (prev && rows.some((c) => c.id === prev) ? prev : null));
+        })
+        .catch((err) => console.error('❌ Loading collections failed:', err));
+
+      return () => {
+        cancelled = true;
+      };
     }, [])
   );
 
-  /** Full video objects for the saved IDs */
-  const savedVideos = MOCK_DATA.filter((v) => savedIds.includes(v.id));
+  const selected = collections.find((c) => c.id === collectionId) ?? null;
+
+  // Keep the chip count in step with removals inside a collection
+  const adjustCount = (delta: number) => {
+    if (!collectionId) return;
+    setCollections((prev) =>
+      prev.map((c) =>
+        c.id === collectionId ? { ...c, item_count: Math.max(c.item_count + delta, 0) } : c
+      )
+    );
+  };
+
+  const handleRemove = (videoId: string) => {
+    adjustCount(-1);
+    remove(videoId);
+  };
+
+  const handleUndo = () => {
+    adjustCount(1);
+    undoRemove();
+  };
+
+  // All saved videos of the user (local state, not only loaded pages)
+  const total = selected
+    ? selected.item_count
+    : Math.max(storage.getSavedVideos().length - (removed ? 1 : 0), 0);
 
   return (
     <View style={styles.container}>
@@ -73,30 +145,90 @@ export default function SavesScreen() {
         </TouchableOpacity>
 
         <View style={styles.headerText}>
-          <Text style={styles.title}>שמורים</Text>
-          <Text style={styles.count}>{savedVideos.length} סרטונים</Text>
+          <Text style={styles.title}>{selected?.name ?? 'שמורים'}</Text>
+          <Text style={styles.count}>{total} סרטונים</Text>
         </View>
       </View>
 
       {/* ------------------------------------------------------------
-          EMPTY STATE
+          COLLECTION CHIPS: all saves / one collection / manage
          ------------------------------------------------------------ */}
-      {savedVideos.length === 0 ? (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chipsBar}
+        contentContainerStyle={styles.chips}
+      >
+        <TouchableOpacity
+          style={[styles.chip, !collectionId && styles.chipActive]}
+          onPress={() => setCollectionId(null)}
+        >
+          <Text style={[styles.chipText, !collectionId && styles.chipTextActive]}>הכל</Text>
+        </TouchableOpacity>
+
+        {collections.map((collection) => {
+          const active = collection.id === collectionId;
+          return (
+            <TouchableOpacity
+              key={collection.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setCollectionId(collection.id)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+                {collection.name} · {collection.item_count}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <TouchableOpacity
+          style={styles.chip}
+          onPress={() => navigation.navigate('Collections')}
+        >
+          <Ionicons name="albums-outline" size={14} color="#00D5FF" />
+          <Text style={styles.manageText}>ניהול</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+      ) : videos.length === 0 ? (
+        /* ------------------------------------------------------------
+            EMPTY / ERROR STATE
+           ------------------------------------------------------------ */
         <View style={styles.empty}>
           <Text style={styles.emptyIcon}>🔖</Text>
-          <Text style={styles.emptyText}>אין סרטונים שמורים</Text>
-          <Text style={styles.emptySubtext}>
-            שמור חופשות שאהבת כדי לראות אותן כאן
+          <Text style={styles.emptyText}>
+            {error ?? (selected ? 'האוסף ריק' : 'אין סרטונים שמורים')}
           </Text>
+          {error ? (
+            <TouchableOpacity onPress={refresh}>
+              <Text style={styles.retryText}>נסה שוב</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.emptySubtext}>
+              {selected
+                ? 'לחיצה ארוכה על "שמור" בסרטון מוסיפה אותו לאוסף'
+                : 'שמור חופשות שאהבת כדי לראות אותן כאן'}
+            </Text>
+          )}
         </View>
       ) : (
         /* ------------------------------------------------------------
             GRID OF SAVED VIDEOS
            ------------------------------------------------------------ */
         <FlatList
-          data={savedVideos}
+          data={videos}
           numColumns={3}
           keyExtractor={(item) => item.id}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#00D5FF" />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#00D5FF" /> : null
+          }
           renderItem={({ item }) => (
             <TouchableOpacity
               style={styles.videoCard}
@@ -121,7 +253,7 @@ export default function SavesScreen() {
               {/* Thumbnail */}
               <View style={styles.thumbnail}>
                 <Image
-                  source={{ uri: getThumbnailForLocation(item.location) }}
+                  source={{ uri: item.thumbnail }}
                   style={styles.thumbnailImage}
                   resizeMode="cover"
                 />
@@ -130,19 +262,34 @@ export default function SavesScreen() {
                 <View style={styles.overlay}>
                   <Text style={styles.thumbnailCategory}>{item.category}</Text>
                 </View>
+
+                {/* Unsave (undo in the toast) */}
+                <TouchableOpacity
+                  style={styles.removeBtn}
+                  onPress={() => handleRemove(item.id)}
+                  hitSlop={8}
+                  accessibilityLabel={selected ? 'הסר מהאוסף' : 'הסר מהשמורים'}
+                >
+                  <Ionicons name="bookmark" size={18} color="#00D5FF" />
+                </TouchableOpacity>
               </View>
 
-              {/* Title */}
+              {/* Title (2 lines max) */}
               <Text style={styles.videoTitle} numberOfLines={2}>
                 {item.title}
               </Text>
 
               {/* Price */}
-              <Text style={styles.videoPrice}>{item.price}</Text>
+              <PriceLabel price={item.price} style={styles.videoPrice} layout="stacked" />
             </TouchableOpacity>
           )}
         />
       )}
+
+      <UndoToast
+        message={removed ? (selected ? 'הוסר מהאוסף' : 'הוסר מהשמורים') : null}
+        onUndo={handleUndo}
+      />
     </View>
   );
 }
@@ -180,6 +327,47 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
 
+  /* Collection chips */
+  chipsBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  chips: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 180,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#00D5FF',
+    borderColor: '#00D5FF',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#000',
+  },
+  manageText: {
+    color: '#00D5FF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
   /* Empty state visuals */
   empty: {
     flex: 1,
@@ -199,6 +387,19 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  retryText: {
+    color: '#00D5FF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+
+  /* Loading */
+  loader: {
+    marginTop: 48,
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
 
   /* Grid items */
   videoCard: {
@@ -218,6 +419,16 @@ const styles = StyleSheet.create({
     height: '100%',
   },
 
+  /* Remove button on thumbnail */
+  removeBtn: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 14,
+    padding: 5,
+  },
+
   /* Category badge on thumbnail */
   overlay: {
     position: 'absolute',
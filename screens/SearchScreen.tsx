@@ -10,9 +10,13 @@
  *
  * Key behaviors:
  * --------------------------------------------------------------------
- * ✔ Text-based search with live filtering
+ * ✔ Text-based search against Supabase (videoService.search),
+ *   debounced while typing (hooks/useVideoSearch.ts)
+ * ✔ Hebrew-aware, typo-tolerant matching: niqqud, final letters,
+ *   "Santorini" ↔ "סנטוריני" (utils/searchNormalize.ts)
  * ✔ Multiple search modes (chips)
- * ✔ Results shown in a 3-column visual grid
+ * ✔ Results shown in a 3-column visual grid, next page loads
+ *   when scrolling near the end
  * ✔ Tapping a result jumps back into Home feed at the correct video
  *
  * Important design decision:
@@ -22,7 +26,7 @@
  * back to the HomeFeedScreen with a specific `videoId`.
  */
 
-import React, { useMemo, useState } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -32,25 +36,21 @@ import {
   FlatList,
   Dimensions,
   Image,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, CommonActions } from '@react-navigation/native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 
-import { MOCK_DATA, VideoData } from '../components/VideoFeed';
-import { getThumbnailForLocation } from '../utils/thumbnails';
+import { SearchMode } from '../services/videoService';
+import { useVideoSearch } from '../hooks/useVideoSearch';
 import { RootStackParamList } from '../navigation/RootNavigator';
 
 /**
- * Supported search modes.
+ * Supported search modes (defined next to videoService.search).
  * Determines which fields are matched against the query.
  */
-export type SearchMode =
-  | 'all'
-  | 'tags'
-  | 'location'
-  | 'influencer'
-  | 'title';
+export type { SearchMode };
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Search'>;
 
@@ -58,63 +58,6 @@ type Props = NativeStackScreenProps<RootStackParamList, 'Search'>;
 const { width } = Dimensions.get('window');
 const itemWidth = (width - 4) / 3;
 
-/**
- * Normalize strings for consistent searching:
- * - trim whitespace
- * - lowercase
- */
-function normalize(s: string): string {
-  return s.trim().toLowerCase();
-}
-
-/**
- * Simple helper for substring matching.
- * Used internally by videoMatchesMode().
- */
-function matchIncludes(haystack: string, needle: string): boolean {
-  if (!needle) return true;
-  return normalize(haystack).includes(normalize(needle));
-}
-
-/**
- * Core matching logic.
- *
- * Determines whether a video matches the search query
- * based on the selected search mode.
- */
-function videoMatchesMode(
-  video: VideoData,
-  q: string,
-  mode: SearchMode
-): boolean {
-  const query = normalize(q);
-  if (!query) return true;
-
-  const title = normalize(video.title);
-  const location = normalize(video.location);
-  const influencer = normalize(video.influencer.name);
-  const tags = (video.tags ?? []).map(normalize);
-
-  switch (mode) {
-    case 'tags':
-      return tags.some((t) => t.includes(query));
-    case 'location':
-      return location.includes(query);
-    case 'influencer':
-      return influencer.includes(query);
-    case 'title':
-      return title.includes(query);
-    case 'all':
-    default:
-      return (
-        title.includes(query) ||
-        location.includes(query) ||
-        influencer.includes(query) ||
-        tags.some((t) => t.includes(query))
-      );
-  }
-}
-
 export default function SearchScreen({ route }: Props) {
   const navigation = useNavigation();
 
@@ -130,15 +73,11 @@ export default function SearchScreen({ route }: Props) {
   const [mode, setMode] = useState<SearchMode>(initialMode);
 
   /**
-   * Compute filtered results whenever:
-   * - query changes
-   * - mode changes
-   *
-   * useMemo avoids unnecessary recalculations.
+   * Server-side results for the current query + mode.
+   * Re-fetched (debounced) whenever either changes.
    */
-  const results = useMemo(() => {
-    return MOCK_DATA.filter((v) => videoMatchesMode(v, query, mode));
-  }, [query, mode]);
+  const { results, loading, loadingMore, error, hasMore, loadMore } = useVideoSearch(query, mode);
+  const hasMoreLabel = hasMore ? '+' : '';
 
   /**
    * Mode selector configuration.
@@ -259,9 +198,13 @@ export default function SearchScreen({ route }: Props) {
          ------------------------------------------------------------ */}
       <View style={styles.summaryRow}>
         <Text style={styles.summaryText}>
-          {query
-            ? `נמצאו ${results.length} תוצאות`
-            : `הקלד כדי לחפש (${MOCK_DATA.length} סרטונים)`}
+          {loading
+            ? 'מחפש...'
+            : error
+            ? error
+            : query
+            ? `נמצאו ${results.length}${hasMoreLabel} תוצאות`
+            : 'הקלד כדי לחפש (מציג סרטונים אחרונים)'}
         </Text>
 
         <Text style={styles.summaryHint}>
@@ -286,6 +229,11 @@ export default function SearchScreen({ route }: Props) {
         numColumns={3}
         keyExtractor={(item) => item.id}
         contentContainerStyle={{ paddingBottom: 20 }}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footer} color="#00D5FF" /> : null
+        }
         renderItem={({ item }) => (
           <TouchableOpacity
             style={styles.videoCard}
@@ -295,7 +243,7 @@ export default function SearchScreen({ route }: Props) {
             {/* Thumbnail */}
             <View style={styles.thumbnail}>
               <Image
-                source={{ uri: getThumbnailForLocation(item.location) }}
+                source={{ uri: item.thumbnail }}
                 style={styles.thumbnailImage}
                 resizeMode="cover"
               />
@@ -318,13 +266,17 @@ export default function SearchScreen({ route }: Props) {
           </TouchableOpacity>
         )}
         ListEmptyComponent={
-          <View style={styles.empty}>
-            <Text style={styles.emptyIcon}>🔎</Text>
-            <Text style={styles.emptyTitle}>אין תוצאות</Text>
-            <Text style={styles.emptySub}>
-              נסה לשנות מצב חיפוש או מילת חיפוש
-            </Text>
-          </View>
+          loading ? (
+            <ActivityIndicator style={styles.footer} size="large" color="#00D5FF" />
+          ) : (
+            <View style={styles.empty}>
+              <Text style={styles.emptyIcon}>🔎</Text>
+              <Text style={styles.emptyTitle}>אין תוצאות</Text>
+              <Text style={styles.emptySub}>
+                נסה לשנות מצב חיפוש או מילת חיפוש
+              </Text>
+            </View>
+          )
         }
       />
     </View>
@@ -424,6 +376,8 @@ const styles = StyleSheet.create({
   title: { color: '#fff', fontSize: 11, marginBottom: 2 },
   meta: { color: '#777', fontSize: 10 },
 
+  footer: { marginVertical: 24 },
+
   empty: {
     marginTop: 40,
     alignItems: 'center',
@@ -6,6 +6,8 @@
  * Current responsibilities:
  * --------------------------------------------------------------------
  * ✔ Toggle dark/light mode (via ThemeContext)
+ * ✔ Choose the preferred display currency (via CurrencyContext),
+ *   see how old the exchange rates are and refresh them
  * ✔ Provide a clean, minimal settings layout
  * ✔ Provide navigation back to Profile
  *
@@ -21,14 +23,25 @@
  * --------------------------------------------------------------------
  * • Uses ThemeContext to store global app theme state.
  * • toggleTheme() flips between dark and light modes.
+ * • Prices stay stored in their own currency; the preference only
+ *   changes how they are displayed (converted, marked with "≈").
  * • Dark mode styling is applied inline using the current theme.
  */
 
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from '../context/ThemeContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { CURRENCIES, DEFAULT_LOCALE } from '../utils/money';
 
 export default function SettingsScreen() {
   const navigation = useNavigation();
@@ -37,6 +50,18 @@ export default function SettingsScreen() {
   const { isDarkMode, toggleTheme } = useTheme();
   const darkMode = isDarkMode;
 
+  // Preferred display currency + the rates used to convert to it
+  const { currency, setCurrency, rates, refreshRates, refreshing } = useCurrency();
+  const [ratesError, setRatesError] = useState<string | null>(null);
+
+  const ratesDate = new Date(rates.fetchedAt).toLocaleDateString(DEFAULT_LOCALE);
+
+  const handleRefreshRates = async () => {
+    setRatesError(null);
+    const ok = await refreshRates();
+    if (!ok) setRatesError('לא הצלחנו לעדכן שערים, מוצגים השערים השמורים');
+  };
+
   return (
     <View
       style={[
@@ -91,6 +116,57 @@ export default function SettingsScreen() {
             thumbColor={darkMode ? '#fff' : '#f4f3f4'}
           />
         </View>
+
+        {/* Preferred currency */}
+        <Text
+          style={[
+            styles.settingLabel,
+            styles.sectionTitle,
+            { color: darkMode ? '#fff' : '#000' },
+          ]}
+        >
+          מטבע מועדף
+        </Text>
+
+        <View style={styles.chipRow}>
+          {CURRENCIES.map((code) => (
+            <TouchableOpacity
+              key={code}
+              style={[
+                styles.chip,
+                { borderColor: darkMode ? '#333' : '#ccc' },
+                currency === code && styles.chipSelected,
+              ]}
+              onPress={() => setCurrency(code)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  { color: darkMode ? '#fff' : '#000' },
+                  currency === code && styles.chipTextSelected,
+                ]}
+              >
+                {code}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={styles.ratesInfo}>
+            שערי המרה מ-{ratesDate} ({rates.source})
+          </Text>
+
+          <TouchableOpacity onPress={handleRefreshRates} disabled={refreshing}>
+            {refreshing ? (
+              <ActivityIndicator size="small" color="#00D5FF" />
+            ) : (
+              <Text style={styles.refreshText}>עדכן שערים</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {ratesError && <Text style={styles.errorText}>{ratesError}</Text>}
       </View>
     </View>
   );
@@ -136,4 +212,46 @@ const styles = StyleSheet.create({
   settingLabel: {
     fontSize: 16,
   },
+
+  /* Currency */
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#00D5FF',
+    borderColor: '#00D5FF',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#000',
+  },
+  ratesInfo: {
+    color: '#888',
+    fontSize: 13,
+    flex: 1,
+  },
+  refreshText: {
+    color: '#00D5FF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#FF3B5C',
+    fontSize: 13,
+  },
 });
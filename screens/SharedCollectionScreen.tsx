@@ -0,0 +1,292 @@
+/**
+ * ./screens/SharedCollectionScreen.tsx
+ *
+ * Read-only view of a collection someone shared through a link
+ * (`collection/:token`, see CollectionsScreen).
+ *
+ * Responsibilities:
+ * --------------------------------------------------------------------
+ * ✔ Load the collection and its videos by the link token
+ *   (collectionService.getSharedCollection / getSharedCollectionVideos)
+ * ✔ Show the collection name, video count and a 3-column grid
+ * ✔ Tapping a video opens it in the Home feed:
+ *      → Reset stack → MainTabs → Home(videoId)
+ *   (signed out there is no feed: it goes to Login instead)
+ * ✔ "Not available" state when the link is wrong or sharing was stopped
+ *
+ * Notes:
+ * --------------------------------------------------------------------
+ * • Shows the newest videos only (up to the server's limit), no paging
+ * • Registered outside the login gate in RootNavigator, so a link works
+ *   without an account
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Dimensions,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { CommonActions } from '@react-navigation/native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/RootNavigator';
+
+import PriceLabel from '../components/PriceLabel';
+import { collectionService } from '../services/collectionService';
+import { Collection } from '../types/database';
+import { VideoData } from '../types/video';
+import { toVideoData } from '../utils/videoMapper';
+
+const { width } = Dimensions.get('window');
+const itemWidth = (width - 4) / 3;
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SharedCollection'>;
+
+export default function SharedCollectionScreen({ route, navigation }: Props) {
+  const { token } = route.params;
+
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [videos, setVideos] = useState<VideoData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+
+    Promise.all([
+      collectionService.getSharedCollection(token),
+      collectionService.getSharedCollectionVideos(token),
+    ])
+      .then(([row, rows]) => {
+        if (cancelled) return;
+        setCollection(row);
+        setVideos(row ? rows.map(toVideoData) : []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('❌ Loading shared collection failed:', err);
+        setError('לא הצלחנו לטעון את האוסף');
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // MainTabs is only registered while signed in
+  const signedIn = navigation.getState().routeNames.includes('MainTabs');
+
+  const openVideo = (videoId: string) => {
+    if (!signedIn) {
+      navigation.dispatch(CommonActions.reset({ index: 0, routes: [{ name: 'Login' }] }));
+      return;
+    }
+
+    // Reset navigation and open the Home tab with this video preselected
+    navigation.dispatch(
+      CommonActions.reset({
+        index: 0,
+        routes: [
+          {
+            name: 'MainTabs',
+            params: {
+              screen: 'Home',
+              params: { videoId },
+            },
+          },
+        ],
+      })
+    );
+  };
+
+  const goBack = () => {
+    if (navigation.canGoBack()) navigation.goBack();
+    else navigation.navigate(signedIn ? 'MainTabs' : 'Login');
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* ------------------------------------------------------------
+          HEADER: back button + collection name + video count
+         ------------------------------------------------------------ */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+
+        <View style={styles.headerText}>
+          <Text style={styles.title} numberOfLines={1}>
+            {collection?.name ?? 'אוסף משותף'}
+          </Text>
+          {collection && <Text style={styles.count}>{videos.length} סרטונים</Text>}
+        </View>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#00D5FF" />
+      ) : !collection || videos.length === 0 ? (
+        /* ------------------------------------------------------------
+            EMPTY / NOT AVAILABLE STATE
+           ------------------------------------------------------------ */
+        <View style={styles.empty}>
+          <Text style={styles.emptyIcon}>🗂️</Text>
+          <Text style={styles.emptyText}>
+            {error ?? (collection ? 'האוסף ריק' : 'האוסף לא זמין')}
+          </Text>
+          {!error && !collection && (
+            <Text style={styles.emptySubtext}>ייתכן שהקישור שגוי או שהשיתוף הופסק</Text>
+          )}
+        </View>
+      ) : (
+        /* ------------------------------------------------------------
+            GRID OF VIDEOS
+           ------------------------------------------------------------ */
+        <FlatList
+          data={videos}
+          numColumns={3}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <TouchableOpacity style={styles.videoCard} onPress={() => openVideo(item.id)}>
+              {/* Thumbnail */}
+              <View style={styles.thumbnail}>
+                <Image
+                  source={{ uri: item.thumbnail }}
+                  style={styles.thumbnailImage}
+                  resizeMode="cover"
+                />
+
+                {/* Category badge */}
+                <View style={styles.overlay}>
+                  <Text style={styles.thumbnailCategory}>{item.category}</Text>
+                </View>
+              </View>
+
+              {/* Title (2 lines max) */}
+              <Text style={styles.videoTitle} numberOfLines={2}>
+                {item.title}
+              </Text>
+
+              {/* Price */}
+              <PriceLabel price={item.price} style={styles.videoPrice} layout="stacked" />
+            </TouchableOpacity>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+/* --------------------------------------------------------------------
+   STYLES
+-------------------------------------------------------------------- */
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+
+  /* Header layout */
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+    gap: 12,
+  },
+  backBtn: { padding: 4 },
+  headerText: { flex: 1 },
+  title: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  count: {
+    color: '#888',
+    fontSize: 14,
+    marginTop: 4,
+  },
+
+  /* Empty state visuals */
+  empty: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyIcon: { fontSize: 64, marginBottom: 16 },
+  emptyText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+
+  loader: {
+    marginTop: 48,
+  },
+
+  /* Grid items */
+  videoCard: {
+    width: itemWidth,
+    padding: 1,
+  },
+  thumbnail: {
+    width: '100%',
+    aspectRatio: 9 / 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  /* Category badge on thumbnail */
+  overlay: {
+    position: 'absolute',
+    bottom: 4,
+    left: 4,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  thumbnailCategory: {
+    color: '#fff',
+    fontSize: 9,
+    fontWeight: '600',
+  },
+
+  /* Title + price */
+  videoTitle: {
+    color: '#fff',
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  videoPrice: {
+    color: '#00D5FF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -15,7 +15,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
 import { authService } from '../services/authService';
-import { supabase } from '../lib/supabase';
+import { profileService } from '../services/profileService';
+import { isValidUsername, USERNAME_MAX_LENGTH, USERNAME_MIN_LENGTH } from '../utils/mentions';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Signup'>;
 
@@ -36,7 +37,7 @@ export default function SignupScreen({ navigation }: Props) {
     [email]
   );
   const passwordValid = useMemo(() => password.length >= 8, [password]);
-  const usernameValid = useMemo(() => username.trim().length >= 3, [username]);
+  const usernameValid = useMemo(() => isValidUsername(username.trim()), [username]);
   const formValid = useMemo(
     () => emailValid && passwordValid && usernameValid,
     [emailValid, passwordValid, usernameValid]
@@ -57,13 +58,7 @@ export default function SignupScreen({ navigation }: Props) {
       setLoading(true);
 
       // Check if username already exists
-      const { data: existingUser } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('username', username.trim())
-        .maybeSingle();
-
-      if (existingUser) {
+      if (await profileService.isUsernameTaken(username)) {
         setError('שם המשתמש כבר תפוס, נסה שם אחר');
         return;
       }
@@ -87,6 +82,9 @@ export default function SignupScreen({ navigation }: Props) {
       console.error('Signup failed:', e);
       if (e.message?.includes('already registered') || e.message?.includes('already been registered')) {
         setError('כתובת המייל כבר רשומה במערכת');
+      } else if (e.code === '23505') {
+        // Someone took the username between the check above and the insert
+        setError('שם המשתמש כבר תפוס, נסה שם אחר');
       } else {
         setError(e.message || 'הרשמה נכשלה');
       }
@@ -111,7 +109,7 @@ export default function SignupScreen({ navigation }: Props) {
             <TextInput
               value={username}
               onChangeText={setUsername}
-              placeholder="לפחות 3 תווים"
+              placeholder="אותיות באנגלית, ספרות, _ או ."
               placeholderTextColor={c.placeholder}
               autoCapitalize="none"
               autoCorrect={false}
@@ -119,7 +117,9 @@ export default function SignupScreen({ navigation }: Props) {
               style={[styles.input, { color: c.text, borderColor: c.inputBorder, backgroundColor: c.inputBg }]}
             />
             {!usernameValid && username.length > 0 && (
-              <Text style={[styles.helper, { color: c.danger }]}>שם משתמש חייב להכיל 3 תווים לפחות</Text>
+              <Text style={[styles.helper, { color: c.danger }]}>
+                {`שם משתמש: ${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} תווים, אותיות באנגלית, ספרות, _ או .`}
+              </Text>
             )}
           </View>
 
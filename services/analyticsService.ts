@@ -0,0 +1,53 @@
+import { supabase } from '../lib/supabase';
+import { CreatorDailyStats, CreatorVideoStats } from '../types/database';
+
+// Inclusive range of calendar days, "YYYY-MM-DD"
+export type DateRange = {
+  from: string;
+  to: string;
+};
+
+// Longest range the RPCs accept (supabase-add-creator-analytics.sql)
+export const MAX_RANGE_DAYS = 366;
+
+// Device time zone, so "today" on the dashboard is the creator's today
+function timeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export const analyticsService = {
+  // Daily buckets over all of the current user's videos (or just one)
+  async getDailyStats(range: DateRange, videoId?: string): Promise<CreatorDailyStats[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase.rpc('creator_daily_stats', {
+      range_start: range.from,
+      range_end: range.to,
+      target_video: videoId ?? null,
+      tz: timeZone(),
+    });
+
+    if (error) throw error;
+    return (data ?? []) as CreatorDailyStats[];
+  },
+
+  // Per video totals within the range, newest video first
+  async getVideoStats(range: DateRange): Promise<CreatorVideoStats[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase.rpc('creator_video_stats', {
+      range_start: range.from,
+      range_end: range.to,
+      tz: timeZone(),
+    });
+
+    if (error) throw error;
+    return (data ?? []) as CreatorVideoStats[];
+  },
+};
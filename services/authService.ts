@@ -15,13 +15,16 @@ export const authService = {
 
     if (error) throw error;
 
-    // Create profile
-    if (data.user) {
-      await supabase.from('profiles').insert({
+    // Create profile (a repeat signup comes back with no identities and
+    // no real account behind it, so there is nothing to attach it to)
+    if (data.user?.identities?.length) {
+      const { error: profileError } = await supabase.from('profiles').insert({
         id: data.user.id,
         username,
         full_name: username,
       });
+
+      if (profileError) throw profileError;
     }
 
     return data;
@@ -0,0 +1,184 @@
+import { supabase } from '../lib/supabase';
+import { Order } from '../types/database';
+import { VideoData } from '../types/video';
+import { BookingQuote, orderTotal } from '../utils/booking';
+import { getPaymentProvider, PaymentProvider } from './paymentProvider';
+
+// Orders joined with their video (+ author) for OrdersScreen
+const ORDER_SELECT = `
+  *,
+  video:videos(
+    *,
+    profile:profiles(*)
+  )
+`;
+
+/**
+ * Thrown when the payment step failed. The order is kept with
+ * status "failed" so it still shows up in OrdersScreen.
+ */
+export class PaymentError extends Error {
+  orderId: string;
+
+  constructor(message: string, orderId: string) {
+    super(message);
+    this.name = 'PaymentError';
+    this.orderId = orderId;
+  }
+}
+
+/**
+ * Thrown when the server priced the order differently from the quote
+ * the user confirmed (the video's price changed meanwhile). Nothing
+ * was charged; the order is kept as "failed".
+ */
+export class PriceChangedError extends Error {
+  orderId: string;
+
+  constructor(orderId: string) {
+    super('The price has changed');
+    this.name = 'PriceChangedError';
+    this.orderId = orderId;
+  }
+}
+
+// Providers whose orders are confirmed / refunded from the client
+// (confirm_order needs app.fake_payments, dev databases only). Real
+// gateways confirm from their webhook and refund on the server when an
+// order is cancelled, both with the service role.
+const CLIENT_CONFIRMED_PROVIDERS = ['fake'];
+
+// Status-only update after a failed payment. Best effort: the caller
+// already reports the payment error, a leftover "pending" row is harmless.
+async function markFailed(orderId: string) {
+  const { error } = await supabase.rpc('fail_order', { order_id: orderId });
+
+  if (error) console.error('❌ Could not mark order as failed:', error);
+}
+
+export const bookingService = {
+  // Create a pending order, charge it and confirm it.
+  // Flow: insert (pending) → provider.charge → confirm_order | fail_order
+  // Prices are set by the server from the video (supabase-add-orders.sql);
+  // the quote is only used to check the user saw the same total.
+  // Once the charge went through this never throws: an order the client
+  // can't confirm comes back "pending" (paid, awaiting confirmation).
+  async book(
+    video: Pick<VideoData, 'id' | 'title'>,
+    quote: BookingQuote,
+    provider: PaymentProvider = getPaymentProvider()
+  ): Promise<Order> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: order, error } = await supabase
+      .from('orders')
+      .insert({
+        user_id: user.id,
+        video_id: video.id,
+        start_date: quote.startDate,
+        end_date: quote.endDate,
+        travellers: quote.travellers,
+        payment_provider: provider.name,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Charge what the server priced, and only if the user saw that price
+    const total = orderTotal(order as Order);
+    if (total.amountMinor !== quote.totalMinor || total.currency !== quote.currency) {
+      await markFailed(order.id);
+      throw new PriceChangedError(order.id);
+    }
+
+    let reference: string;
+    try {
+      const result = await provider.charge({
+        orderId: order.id,
+        amountMinor: total.amountMinor,
+        currency: total.currency,
+        description: video.title,
+      });
+
+      if (result.status === 'declined') {
+        await markFailed(order.id);
+        throw new PaymentError(result.reason, order.id);
+      }
+      reference = result.reference;
+    } catch (err) {
+      if (err instanceof PaymentError) throw err;
+      await markFailed(order.id);
+      throw new PaymentError(err instanceof Error ? err.message : 'Payment failed', order.id);
+    }
+
+    // Confirmed by the gateway's webhook later
+    if (!CLIENT_CONFIRMED_PROVIDERS.includes(provider.name)) return order as Order;
+
+    const { data: confirmed, error: confirmError } = await supabase
+      .rpc('confirm_order', { order_id: order.id, reference })
+      .select(ORDER_SELECT)
+      .single();
+
+    if (confirmError) {
+      // Paid already: never send the user back to pay again
+      console.error('❌ Could not confirm order:', confirmError);
+      return order as Order;
+    }
+    return confirmed as Order;
+  },
+
+  // Current user's orders, newest first
+  async getMyOrders(): Promise<Order[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(ORDER_SELECT)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Order[];
+  },
+
+  // Number of confirmed orders (ProfileScreen stats)
+  async countMyConfirmedOrders(): Promise<number> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return 0;
+
+    const { count, error } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('status', 'confirmed');
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  // Cancel an order, refunding it if it was paid. The server cancels
+  // first (it may refuse, e.g. the trip already started); only then is
+  // the money refunded, so a refund never leaves a confirmed order.
+  async cancelOrder(order: Order, provider: PaymentProvider = getPaymentProvider()): Promise<Order> {
+    const { data, error } = await supabase
+      .rpc('cancel_order', { order_id: order.id })
+      .select(ORDER_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    const reference = order.status === 'confirmed' ? order.payment_reference : null;
+    if (reference && CLIENT_CONFIRMED_PROVIDERS.includes(provider.name)) {
+      try {
+        await provider.refund(reference);
+      } catch (err) {
+        // Cancelled either way; the local provider moves no real money
+        console.error('❌ Could not refund cancelled order:', err);
+      }
+    }
+    return data as Order;
+  },
+};
@@ -0,0 +1,190 @@
+import { supabase } from '../lib/supabase';
+import { Collection, Video } from '../types/database';
+import { keysetFilter, VideoCursor, VideoPage } from './videoService';
+
+// A collection with how many videos it holds
+export type CollectionSummary = Collection & {
+  item_count: number;
+};
+
+// Same host as the first linking prefix in App.tsx
+const APP_URL = 'https://veeky-app.vercel.app';
+
+export const MAX_COLLECTION_NAME_LENGTH = 40;
+
+// Postgres "unique_violation" — the video is already in the collection
+const UNIQUE_VIOLATION = '23505';
+
+export const collectionService = {
+  // The current user's collections, in their chosen order
+  async getMyCollections(): Promise<CollectionSummary[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('collections')
+      .select('*, items:collection_items(count)')
+      .eq('user_id', user.id)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as (Collection & { items: { count: number }[] })[];
+    return rows.map(({ items, ...collection }) => ({
+      ...collection,
+      item_count: items[0]?.count ?? 0,
+    }));
+  },
+
+  // New collection, placed after the existing ones
+  async createCollection(name: string, position: number): Promise<Collection> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('collections')
+      .insert({ user_id: user.id, name: name.trim(), position })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as Collection;
+  },
+
+  async renameCollection(collectionId: string, name: string) {
+    const { error } = await supabase
+      .from('collections')
+      .update({ name: name.trim() })
+      .eq('id', collectionId);
+
+    if (error) throw error;
+  },
+
+  // Deleting a collection keeps its videos saved
+  async deleteCollection(collectionId: string) {
+    const { error } = await supabase.from('collections').delete().eq('id', collectionId);
+    if (error) throw error;
+  },
+
+  // Store a new order (all of the user's collection ids, first to last)
+  async reorderCollections(orderedIds: string[]) {
+    const { error } = await supabase.rpc('reorder_collections', { ordered_ids: orderedIds });
+    if (error) throw error;
+  },
+
+  // Ids of the current user's collections that hold this video
+  async getCollectionIdsForVideo(videoId: string): Promise<string[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('collection_items')
+      .select('collection_id')
+      .eq('user_id', user.id)
+      .eq('video_id', videoId);
+
+    if (error) throw error;
+    return (data ?? []).map((row) => row.collection_id as string);
+  },
+
+  // Add a video to a collection / take it out (idempotent, like likes/saves)
+  async setInCollection(collectionId: string, videoId: string, value: boolean) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    if (value) {
+      const { error } = await supabase
+        .from('collection_items')
+        .insert({ collection_id: collectionId, video_id: videoId, user_id: user.id });
+
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+    } else {
+      const { error } = await supabase
+        .from('collection_items')
+        .delete()
+        .eq('collection_id', collectionId)
+        .eq('video_id', videoId);
+
+      if (error) throw error;
+    }
+  },
+
+  // Videos of one collection, most recently added first, one page at a time.
+  // The cursor is the (created_at, id) of the collection_items row.
+  async getCollectionVideos(
+    collectionId: string,
+    cursor: VideoCursor | null = null,
+    limit = 30
+  ): Promise<VideoPage> {
+    let query = supabase
+      .from('collection_items')
+      .select(`
+        id,
+        created_at,
+        video:videos(
+          *,
+          profile:profiles(*)
+        )
+      `)
+      .eq('collection_id', collectionId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (cursor) {
+      query = query.or(keysetFilter('lt', cursor));
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as { id: string; created_at: string; video: Video | null }[];
+    const last = rows[rows.length - 1];
+
+    return {
+      videos: rows.map((row) => row.video).filter((video): video is Video => !!video),
+      nextCursor:
+        rows.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+    };
+  },
+
+  // Turn link sharing on/off
+  async setShared(collectionId: string, shared: boolean) {
+    const { error } = await supabase
+      .from('collections')
+      .update({ is_shared: shared })
+      .eq('id', collectionId);
+
+    if (error) throw error;
+  },
+
+  // Public link of a collection (works once it is shared)
+  getShareLink(collection: Pick<Collection, 'share_token'>): string {
+    return `${APP_URL}/collection/${collection.share_token}`;
+  },
+
+  // A shared collection by its link token (null when missing / not shared)
+  async getSharedCollection(token: string): Promise<Collection | null> {
+    const { data, error } = await supabase
+      .rpc('shared_collection', { token })
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Collection | null;
+  },
+
+  // Videos of a shared collection, most recently added first
+  async getSharedCollectionVideos(token: string, limit = 60): Promise<Video[]> {
+    const { data, error } = await supabase
+      .rpc('shared_collection_videos', { token, page_limit: limit })
+      .select(`
+        *,
+        profile:profiles(*)
+      `);
+
+    if (error) throw error;
+    return (data ?? []) as Video[];
+  },
+};
@@ -0,0 +1,119 @@
+/**
+ * ./services/commentModeration.ts
+ *
+ * Pluggable check every comment goes through before it is posted
+ * (commentService.addComment).
+ *
+ * Why an interface:
+ * --------------------------------------------------------------------
+ * ✔ commentService only needs "may this user post this text?"
+ * ✔ The default filter runs on the device: Hebrew + English word lists
+ *   (utils/profanity.ts) and a per-user rate limiter
+ * ✔ A hosted moderation API can be dropped in with setCommentFilter()
+ *   without touching the modal or the service
+ *
+ * A filter never throws for a rejected comment — it resolves with
+ * `{ allowed: false }`. Throwing means "could not run the check".
+ *
+ * The database repeats the rate limit (supabase-add-moderation.sql),
+ * so skipping the client does not skip the limit.
+ */
+
+import {
+  compileWordLists,
+  findProfanity,
+  ENGLISH_WORDS,
+  HEBREW_WORDS,
+  WordList,
+} from '../utils/profanity';
+
+export type RejectReason = 'profanity' | 'rate_limited';
+
+export type ModerationVerdict =
+  | { allowed: true }
+  | { allowed: false; reason: RejectReason; detail: string };
+
+export type CommentFilter = {
+  name: string;
+  check: (text: string, userId: string) => Promise<ModerationVerdict>;
+};
+
+const ALLOWED: ModerationVerdict = { allowed: true };
+
+/**
+ * Rejects comments containing a listed word / phrase.
+ */
+export function createWordListFilter(lists: WordList[] = [HEBREW_WORDS, ENGLISH_WORDS]): CommentFilter {
+  const compiled = compileWordLists(lists);
+
+  return {
+    name: 'word-list',
+
+    async check(text) {
+      const match = findProfanity(text, compiled);
+      return match ? { allowed: false, reason: 'profanity', detail: match } : ALLOWED;
+    },
+  };
+}
+
+export type RateLimitConfig = {
+  maxComments?: number;     // Comments allowed per window...
+  windowMs?: number;        // ...of this length (sliding)
+  now?: () => number;
+};
+
+/**
+ * Allows `maxComments` per user in any `windowMs`. Every allowed
+ * check counts as a comment, so run it LAST in a chain.
+ */
+export function createRateLimiter(config: RateLimitConfig = {}): CommentFilter {
+  const { maxComments = 5, windowMs = 60_000, now = Date.now } = config;
+  const history = new Map<string, number[]>();
+
+  return {
+    name: 'rate-limit',
+
+    async check(_text, userId) {
+      const time = now();
+      const recent = (history.get(userId) ?? []).filter((t) => time - t < windowMs);
+
+      if (recent.length >= maxComments) {
+        history.set(userId, recent);
+        const waitSeconds = Math.ceil((recent[0] + windowMs - time) / 1000);
+        return { allowed: false, reason: 'rate_limited', detail: `${waitSeconds}s` };
+      }
+
+      history.set(userId, [...recent, time]);
+      return ALLOWED;
+    },
+  };
+}
+
+/**
+ * Run filters in order; the first rejection wins.
+ */
+export function chainFilters(...filters: CommentFilter[]): CommentFilter {
+  return {
+    name: filters.map((f) => f.name).join('+'),
+
+    async check(text, userId) {
+      for (const filter of filters) {
+        const verdict = await filter.check(text, userId);
+        if (!verdict.allowed) return verdict;
+      }
+      return ALLOWED;
+    },
+  };
+}
+
+let current: CommentFilter = chainFilters(createWordListFilter(), createRateLimiter());
+
+// Filter used by commentService
+export function getCommentFilter(): CommentFilter {
+  return current;
+}
+
+// Swap the filter (hosted moderation API, stricter lists, tests)
+export function setCommentFilter(filter: CommentFilter): void {
+  current = filter;
+}
@@ -0,0 +1,268 @@
+import { supabase } from '../lib/supabase';
+import { Comment, CommentReportReason } from '../types/database';
+import { getCommentFilter, CommentFilter, RejectReason } from './commentModeration';
+
+// Comments are joined with their author for the avatar / username
+const COMMENT_SELECT = `
+  *,
+  profile:profiles(*)
+`;
+
+// Postgres "unique_violation" — the row already exists
+const UNIQUE_VIOLATION = '23505';
+
+// Raised by the comments_rate_limit trigger (supabase-add-moderation.sql)
+const RATE_LIMITED = 'P0429';
+
+// Longest comment accepted (same limit as the CHECK in supabase-add-comments.sql)
+export const MAX_COMMENT_LENGTH = 500;
+
+export type CommentSort = 'newest' | 'oldest';
+
+// Position in a comment list: the last (created_at, id) already loaded
+export type CommentCursor = {
+  createdAt: string;
+  id: string;
+};
+
+export type CommentPage = {
+  comments: Comment[];
+  nextCursor: CommentCursor | null; // null = no more pages
+  total: number | null;             // Only counted for the first page
+};
+
+// PostgREST `or` filter for rows after a cursor in the given sort order
+function afterCursor(sort: CommentSort, cursor: CommentCursor) {
+  const op = sort === 'newest' ? 'lt' : 'gt';
+  return (
+    `created_at.${op}."${cursor.createdAt}",` +
+    `and(created_at.eq."${cursor.createdAt}",id.${op}."${cursor.id}")`
+  );
+}
+
+/**
+ * Thrown when the comment filter (or the server's rate limit) refused
+ * a comment. Nothing was posted.
+ */
+export class CommentRejectedError extends Error {
+  reason: RejectReason;
+  detail: string;
+
+  constructor(reason: RejectReason, detail: string) {
+    super(`Comment rejected: ${reason}`);
+    this.name = 'CommentRejectedError';
+    this.reason = reason;
+    this.detail = detail;
+  }
+}
+
+// Keep a trace of refused comments for the video's creator. Best
+// effort: the user already sees the rejection either way.
+async function logRejection(userId: string, videoId: string, error: CommentRejectedError) {
+  const { error: logError } = await supabase.from('moderation_log').insert({
+    actor_id: userId,
+    video_id: videoId,
+    action: 'auto_reject',
+    reason: `${error.reason}: ${error.detail}`,
+  });
+
+  if (logError) console.error('❌ Could not log rejected comment:', logError);
+}
+
+export const commentService = {
+  // Top-level comments of a video, one page at a time (keyset on
+  // created_at, id, like videoService.getVideos). The first page also
+  // returns the total, replies included (same as videos.comments_count).
+  async getComments(
+    videoId: string,
+    sort: CommentSort = 'newest',
+    cursor: CommentCursor | null = null,
+    limit = 20
+  ): Promise<CommentPage> {
+    const ascending = sort === 'oldest';
+
+    let query = supabase
+      .from('comments')
+      .select(COMMENT_SELECT)
+      .eq('video_id', videoId)
+      .is('parent_id', null)
+      .order('created_at', { ascending })
+      .order('id', { ascending })
+      .limit(limit);
+
+    if (cursor) {
+      query = query.or(afterCursor(sort, cursor));
+    }
+
+    const [{ data, error }, total] = await Promise.all([
+      query,
+      cursor ? null : commentService.countComments(videoId),
+    ]);
+
+    if (error) throw error;
+
+    const comments = data as Comment[];
+    const last = comments[comments.length - 1];
+
+    return {
+      comments,
+      nextCursor:
+        comments.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+      total,
+    };
+  },
+
+  // Replies of one thread, oldest first (conversation order)
+  async getReplies(
+    parentId: string,
+    cursor: CommentCursor | null = null,
+    limit = 10
+  ): Promise<CommentPage> {
+    let query = supabase
+      .from('comments')
+      .select(COMMENT_SELECT)
+      .eq('parent_id', parentId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (cursor) {
+      query = query.or(afterCursor('oldest', cursor));
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const replies = data as Comment[];
+    const last = replies[replies.length - 1];
+
+    return {
+      comments: replies,
+      nextCursor:
+        replies.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+      total: null,
+    };
+  },
+
+  // All comments of a video, replies included
+  async countComments(videoId: string) {
+    const { count, error } = await supabase
+      .from('comments')
+      .select('id', { count: 'exact', head: true })
+      .eq('video_id', videoId);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  // Add a comment (or a reply, with parentId) as the current user.
+  // The text goes through the comment filter first (CommentRejectedError).
+  // videos.comments_count / replies_count are bumped by triggers, not here.
+  async addComment(
+    videoId: string,
+    text: string,
+    parentId: string | null = null,
+    filter: CommentFilter = getCommentFilter()
+  ): Promise<Comment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error('Comment is empty');
+    if (trimmed.length > MAX_COMMENT_LENGTH) throw new Error('Comment is too long');
+
+    const verdict = await filter.check(trimmed, user.id);
+    if (!verdict.allowed) {
+      const rejection = new CommentRejectedError(verdict.reason, verdict.detail);
+      await logRejection(user.id, videoId, rejection);
+      throw rejection;
+    }
+
+    const { data, error } = await supabase
+      .from('comments')
+      .insert({ user_id: user.id, video_id: videoId, parent_id: parentId, text: trimmed })
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (error?.code === RATE_LIMITED) throw new CommentRejectedError('rate_limited', error.message);
+    if (error) throw error;
+    return data as Comment;
+  },
+
+  // Delete a comment: the author's own, or any comment on the current
+  // user's videos (RLS decides; creator deletions are logged by a trigger)
+  async deleteComment(commentId: string) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) throw new Error('Comment not found or not yours to delete');
+  },
+
+  // Hide / show a comment on one of the current user's videos (logged)
+  async setCommentHidden(commentId: string, hidden: boolean): Promise<Comment> {
+    const { data, error } = await supabase
+      .rpc('set_comment_hidden', { target_comment: commentId, hide: hidden })
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data as Comment;
+  },
+
+  // Report a comment (once per user; reporting again is a no-op)
+  async reportComment(commentId: string, reason: CommentReportReason) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('comment_reports')
+      .insert({ comment_id: commentId, reporter_id: user.id, reason });
+
+    if (error && error.code !== UNIQUE_VIOLATION) throw error;
+  },
+
+  // Like / unlike a comment (idempotent, safe to retry)
+  async setCommentLike(commentId: string, liked: boolean) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    if (liked) {
+      const { error } = await supabase
+        .from('comment_likes')
+        .insert({ user_id: user.id, comment_id: commentId });
+
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+    } else {
+      const { error } = await supabase
+        .from('comment_likes')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('comment_id', commentId);
+
+      if (error) throw error;
+    }
+  },
+
+  // Which of these comments the current user liked (empty when logged out)
+  async getLikedCommentIds(commentIds: string[]): Promise<string[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || commentIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('comment_likes')
+      .select('comment_id')
+      .eq('user_id', user.id)
+      .in('comment_id', commentIds);
+
+    if (error) throw error;
+    return (data as { comment_id: string }[]).map((row) => row.comment_id);
+  },
+};
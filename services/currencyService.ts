@@ -0,0 +1,141 @@
+/**
+ * ./services/currencyService.ts
+ *
+ * Exchange rates for showing prices in the user's preferred currency.
+ *
+ * Where rates come from (first available wins):
+ * --------------------------------------------------------------------
+ * 1. Memory: the table loaded / refreshed during this session
+ * 2. Cache: last refreshed table, persisted on device (works offline)
+ * 3. Bundled: BUNDLED_RATES shipped with the app (always there)
+ *
+ * Refreshing:
+ * --------------------------------------------------------------------
+ * refresh() asks the current RateSource for a new table and caches it.
+ * The source is pluggable (setRateSource), so a paid API / own backend
+ * can replace the default public one. A failed refresh keeps the
+ * current table — prices never disappear because the network did.
+ *
+ * Every table carries `fetchedAt`, so the UI can say how old it is.
+ */
+
+import { CurrencyCode, RateTable } from '../types/money';
+import { CURRENCIES } from '../utils/money';
+import { persistence } from '../utils/persistence';
+
+export type RateSource = {
+  name: string;
+  fetchRates: (base: CurrencyCode) => Promise<RateTable>;
+};
+
+const CACHE_KEY = 'veeky:exchange-rates';
+
+// Older tables are refreshed on start
+export const RATES_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Shipped with the app, used until the first successful refresh.
+ */
+export const BUNDLED_RATES: RateTable = {
+  base: 'ILS',
+  rates: { ILS: 1, USD: 0.27, EUR: 0.25, GBP: 0.21 },
+  fetchedAt: '2025-01-01T00:00:00.000Z',
+  source: 'bundled',
+};
+
+function isRateTable(value: unknown): value is RateTable {
+  const table = value as RateTable | null;
+  return (
+    !!table &&
+    typeof table.fetchedAt === 'string' &&
+    typeof table.source === 'string' &&
+    CURRENCIES.includes(table.base) &&
+    !!table.rates &&
+    CURRENCIES.every((code) => typeof table.rates[code] === 'number' && table.rates[code] > 0)
+  );
+}
+
+/**
+ * Rates from the free ECB-backed Frankfurter API (no key needed).
+ */
+export function createFrankfurterRateSource(fetchImpl: typeof fetch = fetch): RateSource {
+  return {
+    name: 'frankfurter',
+
+    async fetchRates(base) {
+      const symbols = CURRENCIES.filter((code) => code !== base).join(',');
+      const res = await fetchImpl(`https://api.frankfurter.app/latest?from=${base}&to=${symbols}`);
+      if (!res.ok) throw new Error(`Rate source responded ${res.status}`);
+
+      const body = (await res.json()) as { date: string; rates: Record<string, number> };
+      const table = {
+        base,
+        rates: { ...body.rates, [base]: 1 },
+        fetchedAt: new Date(`${body.date}T00:00:00Z`).toISOString(),
+        source: 'frankfurter',
+      };
+
+      if (!isRateTable(table)) throw new Error('Rate source returned an incomplete table');
+      return table;
+    },
+  };
+}
+
+let current: RateTable = BUNDLED_RATES;
+let source: RateSource = createFrankfurterRateSource();
+let loaded: Promise<RateTable> | null = null;
+const listeners = new Set<(table: RateTable) => void>();
+
+function publish(table: RateTable) {
+  current = table;
+  listeners.forEach((listener) => listener(table));
+}
+
+export function setRateSource(next: RateSource): void {
+  source = next;
+}
+
+export const currencyService = {
+  // Rates in use right now (bundled until load / refresh finish)
+  getRates(): RateTable {
+    return current;
+  },
+
+  // Restore the cached table, once per session
+  load(): Promise<RateTable> {
+    if (!loaded) {
+      loaded = persistence.getItem(CACHE_KEY).then((raw) => {
+        if (!raw) return current;
+        try {
+          const cached = JSON.parse(raw);
+          // Never go back to an older table than the one in memory
+          if (isRateTable(cached) && cached.fetchedAt > current.fetchedAt) publish(cached);
+        } catch (err) {
+          console.error('currency: corrupted rate cache, ignoring it', err);
+        }
+        return current;
+      });
+    }
+    return loaded;
+  },
+
+  // Fetch fresh rates from the rate source and cache them
+  async refresh(): Promise<RateTable> {
+    const table = await source.fetchRates(current.base);
+    publish(table);
+    await persistence.setItem(CACHE_KEY, JSON.stringify(table));
+    return table;
+  },
+
+  isStale(now = Date.now()): boolean {
+    return now - Date.parse(current.fetchedAt) > RATES_MAX_AGE_MS;
+  },
+
+  // Called with the new table after every load / refresh
+  subscribe(listener: (table: RateTable) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
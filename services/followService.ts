@@ -0,0 +1,133 @@
+import { supabase } from '../lib/supabase';
+import { Follow, Profile } from '../types/database';
+
+// Which side of the follow graph to list
+export type FollowListKind = 'followers' | 'following';
+
+export type FollowCounts = {
+  followers: number;
+  following: number;
+};
+
+export type FollowPage = {
+  profiles: Profile[];
+  hasMore: boolean;
+};
+
+// Postgres "unique_violation" — the row already exists
+const UNIQUE_VIOLATION = '23505';
+
+// Two FKs point at profiles, so the embed has to name the one to follow
+const FOLLOW_LIST_SELECT: Record<FollowListKind, string> = {
+  followers: 'created_at, profile:profiles!follows_follower_id_fkey(*)',
+  following: 'created_at, profile:profiles!follows_following_id_fkey(*)',
+};
+
+export const followService = {
+  // Follow / unfollow a profile (idempotent, safe to retry)
+  async setFollowing(profileId: string, following: boolean) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    if (profileId === user.id) throw new Error('Cannot follow yourself');
+
+    if (following) {
+      const { error } = await supabase
+        .from('follows')
+        .insert({ follower_id: user.id, following_id: profileId });
+
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+    } else {
+      const { error } = await supabase
+        .from('follows')
+        .delete()
+        .eq('follower_id', user.id)
+        .eq('following_id', profileId);
+
+      if (error) throw error;
+    }
+  },
+
+  follow(profileId: string) {
+    return followService.setFollowing(profileId, true);
+  },
+
+  unfollow(profileId: string) {
+    return followService.setFollowing(profileId, false);
+  },
+
+  // Does the current user follow this profile? (false when logged out)
+  async isFollowing(profileId: string) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { count, error } = await supabase
+      .from('follows')
+      .select('id', { count: 'exact', head: true })
+      .eq('follower_id', user.id)
+      .eq('following_id', profileId);
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  },
+
+  // Follower / following counts of a profile
+  async getCounts(profileId: string): Promise<FollowCounts> {
+    const count = async (column: 'following_id' | 'follower_id') => {
+      const { count: total, error } = await supabase
+        .from('follows')
+        .select('id', { count: 'exact', head: true })
+        .eq(column, profileId);
+
+      if (error) throw error;
+      return total ?? 0;
+    };
+
+    const [followers, following] = await Promise.all([
+      count('following_id'),
+      count('follower_id'),
+    ]);
+    return { followers, following };
+  },
+
+  // Followers of a profile, or the profiles it follows, newest first
+  async getFollowList(
+    profileId: string,
+    kind: FollowListKind,
+    page = 0,
+    limit = 30
+  ): Promise<FollowPage> {
+    const from = page * limit;
+
+    // One extra row tells us whether another page exists
+    const { data, error } = await supabase
+      .from('follows')
+      .select(FOLLOW_LIST_SELECT[kind])
+      .eq(kind === 'followers' ? 'following_id' : 'follower_id', profileId)
+      .order('created_at', { ascending: false })
+      .range(from, from + limit);
+
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as (Pick<Follow, 'created_at'> & { profile: Profile | null })[];
+    const profiles = rows.map((row) => row.profile).filter((p): p is Profile => !!p);
+    return { profiles: profiles.slice(0, limit), hasMore: rows.length > limit };
+  },
+
+  // Creators the current user doesn't follow yet, most followed first
+  // (`suggested_creators` RPC, supabase-add-following-feed.sql)
+  async getSuggestedCreators(limit = 10): Promise<Profile[]> {
+    const { data, error } = await supabase.rpc('suggested_creators', { page_limit: limit });
+
+    if (error) throw error;
+    return (data ?? []) as Profile[];
+  },
+
+  getFollowers(profileId: string, page = 0) {
+    return followService.getFollowList(profileId, 'followers', page);
+  },
+
+  getFollowing(profileId: string, page = 0) {
+    return followService.getFollowList(profileId, 'following', page);
+  },
+};
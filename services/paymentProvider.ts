@@ -0,0 +1,79 @@
+/**
+ * ./services/paymentProvider.ts
+ *
+ * Pluggable payment step of the booking flow (services/bookingService.ts).
+ *
+ * Why an interface:
+ * --------------------------------------------------------------------
+ * ✔ The booking flow only needs "charge this order" / "refund it"
+ * ✔ A real gateway (Stripe, Tranzila, PayPlus...) can be dropped in
+ *   with setPaymentProvider() without touching screens or the service
+ * ✔ Until then `createFakePaymentProvider()` approves payments locally
+ *
+ * A provider never throws for a declined card — it resolves with
+ * `{ status: 'declined' }`. Throwing means "could not reach the gateway".
+ */
+
+import { CurrencyCode } from '../types/money';
+
+export type PaymentRequest = {
+  orderId: string;
+  amountMinor: number;   // Minor units (agorot, cents), like most gateways
+  currency: CurrencyCode;
+  description: string;
+};
+
+export type PaymentResult =
+  | { status: 'succeeded'; reference: string }
+  | { status: 'declined'; reason: string };
+
+export type PaymentProvider = {
+  name: string;
+  charge: (request: PaymentRequest) => Promise<PaymentResult>;
+  refund: (reference: string) => Promise<void>;
+};
+
+export type FakePaymentConfig = {
+  delayMs?: number;          // Simulated gateway latency
+  declineAbove?: number;     // Decline charges above this amount (minor units)
+};
+
+/**
+ * Local stand-in for a payment gateway. Approves everything (up to
+ * `declineAbove`) after a short delay and hands out fake references.
+ */
+export function createFakePaymentProvider(config: FakePaymentConfig = {}): PaymentProvider {
+  const { delayMs = 800, declineAbove = Infinity } = config;
+  const wait = () => new Promise<void>((resolve) => setTimeout(resolve, delayMs));
+
+  return {
+    name: 'fake',
+
+    async charge(request) {
+      await wait();
+
+      if (request.amountMinor > declineAbove) {
+        return { status: 'declined', reason: 'Amount exceeds the card limit' };
+      }
+
+      const random = Math.random().toString(36).slice(2, 10);
+      return { status: 'succeeded', reference: `fake_${request.orderId.slice(0, 8)}_${random}` };
+    },
+
+    async refund() {
+      await wait();
+    },
+  };
+}
+
+let current: PaymentProvider = createFakePaymentProvider();
+
+// Provider used by bookingService
+export function getPaymentProvider(): PaymentProvider {
+  return current;
+}
+
+// Swap the provider (real gateway, tests, demo setups)
+export function setPaymentProvider(provider: PaymentProvider): void {
+  current = provider;
+}
@@ -0,0 +1,319 @@
+/**
+ * ./services/playbackAnalytics.ts
+ *
+ * Watch-time and view tracking for the native (expo-video) and web
+ * (<video>) players.
+ *
+ * How it works:
+ * --------------------------------------------------------------------
+ * 1. Session: a feed item opens a WatchSession while it is the active
+ *    video (hooks/useViewTracking.ts) and reports the playback
+ *    position on every time update. The session adds up the time
+ *    actually played (seeks are ignored), the furthest position
+ *    reached and the number of loops.
+ * 2. Qualify: when the session ends (scrolled away, app backgrounded,
+ *    unmounted) it becomes a view only if at least QUALIFIED_VIEW_MS
+ *    were watched. Shorter sessions are dropped.
+ * 3. Queue: views are queued and persisted, so they survive reloads
+ *    and offline periods. Every view is tagged with the user who
+ *    watched; views of another account (signed out on this device)
+ *    are dropped, never sent as the current user.
+ * 4. Flush: the queue is uploaded in batches to `video_views`
+ *    (supabase-add-video-views.sql), retried with exponential backoff.
+ *    Every view carries a client id, so a batch that is sent twice
+ *    is only stored once. A trigger adds each row to
+ *    videos.views_count / watch_time_ms / avg_completion.
+ */
+
+import { AppState, NativeEventSubscription } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { persistence } from '../utils/persistence';
+
+export type PendingView = {
+  clientId: string;
+  videoId: string;
+  watchedMs: number;
+  durationMs: number | null;
+  completion: number; // 0..1, furthest position reached (1 after a loop)
+  loops: number;
+  viewedAt: string;   // ISO, when the session ended
+  userId: string | null; // Who watched (null = before the session was known)
+};
+
+export type WatchSession = {
+  // Current playback position and duration, in seconds
+  progress: (positionSec: number, durationSec: number) => void;
+  // Close the session; returns the view it queued (null = not qualified)
+  end: () => PendingView | null;
+};
+
+const QUEUE_KEY = 'veeky:view-queue';
+
+// Minimum watch time for a session to count as a view
+export const QUALIFIED_VIEW_MS = 2_000;
+
+// Position jumps larger than this are seeks, not playback
+const MAX_TICK_SEC = 2;
+
+// A jump from the last LOOP_EDGE_SEC to the first LOOP_EDGE_SEC is a loop
+const LOOP_EDGE_SEC = 1;
+
+// Rows per insert
+const BATCH_SIZE = 50;
+
+// Oldest views are dropped beyond this (long offline periods)
+const MAX_QUEUE_SIZE = 1_000;
+
+// Debounce between a recorded view and the flush it triggers
+const FLUSH_DELAY_MS = 10_000;
+
+// Retry backoff: 5s, 10s, 20s ... capped at 5 minutes
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 300_000;
+
+// Postgres errors that will never succeed on retry
+// (invalid uuid, missing video, row-level security, check violation)
+const PERMANENT_ERROR_CODES = ['22P02', '23503', '42501', '23514'];
+
+let queue: PendingView[] = [];
+let queueLoaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let failedFlushes = 0;
+let appStateSub: NativeEventSubscription | null = null;
+// Signed-in user the queue works for (null until the session is read)
+let userId: string | null = null;
+
+function loadQueue(): Promise<void> {
+  if (!queueLoaded) {
+    queueLoaded = persistence.getItem(QUEUE_KEY).then((raw) => {
+      if (!raw) return;
+      try {
+        const stored = JSON.parse(raw);
+        // Views recorded before the load finished come after the stored ones.
+        // Views without an owner (older app versions) can't be trusted.
+        if (Array.isArray(stored)) {
+          queue = [...stored.filter((v: PendingView) => !!v.userId), ...queue].slice(-MAX_QUEUE_SIZE);
+        }
+      } catch (err) {
+        console.error('views: corrupted queue, dropping it', err);
+      }
+    });
+  }
+  return queueLoaded;
+}
+
+function saveQueue(): Promise<void> {
+  return persistence
+    .setItem(QUEUE_KEY, JSON.stringify(queue))
+    .catch((err) => console.error('views: failed to persist queue', err));
+}
+
+function isPermanentError(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && PERMANENT_ERROR_CODES.includes(code);
+}
+
+function scheduleFlush(delay: number) {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    playbackAnalytics.flush();
+  }, delay);
+}
+
+function createClientId() {
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${Date.now().toString(36)}-${random}`;
+}
+
+function enqueue(view: PendingView) {
+  queue.push(view);
+  if (queue.length > MAX_QUEUE_SIZE) queue = queue.slice(-MAX_QUEUE_SIZE);
+
+  loadQueue().then(saveQueue);
+  scheduleFlush(FLUSH_DELAY_MS);
+}
+
+async function insertBatch(batch: PendingView[]) {
+  const { error } = await supabase.from('video_views').upsert(
+    batch.map((view) => ({
+      client_id: view.clientId,
+      video_id: view.videoId,
+      watched_ms: view.watchedMs,
+      duration_ms: view.durationMs,
+      completion: view.completion,
+      loops: view.loops,
+      viewed_at: view.viewedAt,
+    })),
+    // Already stored (an earlier attempt timed out after the insert)
+    { onConflict: 'client_id', ignoreDuplicates: true }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Read the signed-in user and make the queue theirs: untagged views
+ * (recorded in this session before it was known) get the user id,
+ * views of another account are dropped.
+ * Returns null when nobody is signed in.
+ */
+async function claimQueue(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  userId = session?.user.id ?? null;
+  if (!userId) return null;
+
+  const owner = userId;
+  const before = queue.length;
+  queue = queue.filter((view) => {
+    if (!view.userId) view.userId = owner;
+    return view.userId === owner;
+  });
+  if (queue.length !== before) await saveQueue();
+
+  return owner;
+}
+
+async function flushQueue(): Promise<void> {
+  await loadQueue();
+  if (!(await claimQueue())) return;
+
+  while (queue.length > 0) {
+    const batch = queue.slice(0, BATCH_SIZE);
+
+    try {
+      await insertBatch(batch);
+    } catch (err) {
+      if (!isPermanentError(err)) {
+        failedFlushes += 1;
+        await saveQueue();
+        scheduleFlush(Math.min(BASE_BACKOFF_MS * 2 ** (failedFlushes - 1), MAX_BACKOFF_MS));
+        return;
+      }
+
+      // One bad row fails the whole batch: send them one by one, drop the bad ones
+      if (batch.length > 1) {
+        for (const view of batch) {
+          await insertBatch([view]).catch((rowErr) => {
+            if (!isPermanentError(rowErr)) throw rowErr;
+            console.warn('views: dropping view that cannot be stored', view, rowErr);
+          });
+        }
+      } else {
+        console.warn('views: dropping view that cannot be stored', batch[0], err);
+      }
+    }
+
+    queue = queue.filter((view) => !batch.includes(view));
+    failedFlushes = 0;
+  }
+
+  await saveQueue();
+}
+
+export const playbackAnalytics = {
+  // Start tracking one playback of a video (see WatchSession)
+  startSession(videoId: string): WatchSession {
+    let lastPosition: number | null = null;
+    let furthest = 0;
+    let duration = 0;
+    let watchedSec = 0;
+    let loops = 0;
+    let ended = false;
+
+    return {
+      progress(positionSec, durationSec) {
+        if (ended || !Number.isFinite(positionSec)) return;
+        if (Number.isFinite(durationSec) && durationSec > 0) duration = durationSec;
+
+        if (lastPosition !== null) {
+          const delta = positionSec - lastPosition;
+
+          if (delta > 0 && delta <= MAX_TICK_SEC) {
+            watchedSec += delta;
+          } else if (
+            delta < 0 &&
+            duration > 0 &&
+            lastPosition >= duration - LOOP_EDGE_SEC &&
+            positionSec <= LOOP_EDGE_SEC
+          ) {
+            // Wrapped around: the rest of the last pass + the start of the new one
+            loops += 1;
+            watchedSec += duration - lastPosition + positionSec;
+          }
+        }
+
+        lastPosition = positionSec;
+        furthest = Math.max(furthest, positionSec);
+      },
+
+      end() {
+        if (ended) return null;
+        ended = true;
+
+        const watchedMs = Math.round(watchedSec * 1000);
+        if (watchedMs < QUALIFIED_VIEW_MS) return null;
+
+        const completion = loops > 0 ? 1 : duration > 0 ? Math.min(1, furthest / duration) : 0;
+        const view: PendingView = {
+          clientId: createClientId(),
+          videoId,
+          watchedMs,
+          durationMs: duration > 0 ? Math.round(duration * 1000) : null,
+          completion: Math.round(completion * 1000) / 1000,
+          loops,
+          viewedAt: new Date().toISOString(),
+          userId,
+        };
+
+        enqueue(view);
+        return view;
+      },
+    };
+  },
+
+  // Views still waiting for the server
+  async getPending(): Promise<PendingView[]> {
+    await loadQueue();
+    return [...queue];
+  },
+
+  // Upload queued views, oldest first
+  flush(): Promise<void> {
+    if (!flushing) {
+      flushing = flushQueue()
+        .catch((err) => {
+          console.error('views: flush failed', err);
+          scheduleFlush(BASE_BACKOFF_MS);
+        })
+        .finally(() => {
+          flushing = null;
+        });
+    }
+    return flushing;
+  },
+
+  // Flush on start and whenever the app comes back to the foreground (idempotent)
+  start() {
+    if (appStateSub) return;
+
+    appStateSub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') playbackAnalytics.flush();
+    });
+
+    playbackAnalytics.flush();
+  },
+
+  // Stop background flushing (e.g. on logout). The queue is kept, but
+  // its views are only ever sent for the user who watched them.
+  stop() {
+    userId = null;
+    appStateSub?.remove();
+    appStateSub = null;
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+  },
+};
@@ -0,0 +1,110 @@
+import { supabase } from '../lib/supabase';
+import { Profile } from '../types/database';
+
+export type ProfileStats = {
+  videos: number;
+  likes: number; // Likes on all of the profile's videos
+};
+
+// LIKE wildcards must match literally ("_" is common in usernames)
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Fields a user can edit on their own profile
+export type ProfileChanges = Partial<Pick<Profile, 'username' | 'full_name' | 'avatar_url' | 'bio'>>;
+
+/**
+ * Thrown by updateMyProfile() when somebody else already has the username.
+ */
+export class UsernameTakenError extends Error {
+  constructor() {
+    super('Username is already taken');
+    this.name = 'UsernameTakenError';
+  }
+}
+
+// Postgres "unique_violation" (profiles_username_lower_idx)
+const UNIQUE_VIOLATION = '23505';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const profileService = {
+  // Find a profile by username, case-insensitive (for @mentions).
+  // Resolves null when nobody has that username.
+  async getProfileByUsername(username: string): Promise<Profile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .ilike('username', escapeLike(username))
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Profile | null;
+  },
+
+  // Whether another profile already uses this username (case-insensitive,
+  // like the unique index). `exceptId` skips the user's own row.
+  async isUsernameTaken(username: string, exceptId?: string): Promise<boolean> {
+    const existing = await profileService.getProfileByUsername(username.trim());
+    return !!existing && existing.id !== exceptId;
+  },
+
+  // Get a profile by id (null when it doesn't exist)
+  async getProfile(id: string): Promise<Profile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Profile | null;
+  },
+
+  // Resolve a deep link / route param: a profile id, a username or "@username"
+  resolveProfile(idOrUsername: string): Promise<Profile | null> {
+    const value = idOrUsername.trim();
+    if (UUID_PATTERN.test(value)) return profileService.getProfile(value);
+    return profileService.getProfileByUsername(value.replace(/^@/, ''));
+  },
+
+  // Profile of the signed-in user
+  async getMyProfile(): Promise<Profile | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    return profileService.getProfile(user.id);
+  },
+
+  // Save changes to the signed-in user's profile, returns the updated row
+  async updateMyProfile(changes: ProfileChanges): Promise<Profile> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('id', user.id)
+      .select('*')
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) throw new UsernameTakenError();
+    if (error) throw error;
+    return data as Profile;
+  },
+
+  // Video count and total likes of a profile
+  // (`profile_stats` RPC, supabase-add-profile-stats.sql)
+  async getStats(profileId: string): Promise<ProfileStats> {
+    const { data, error } = await supabase
+      .rpc('profile_stats', { target_profile: profileId })
+      .single();
+
+    if (error) throw error;
+
+    const row = data as { videos_count: number; likes_count: number } | null;
+    return { videos: row?.videos_count ?? 0, likes: row?.likes_count ?? 0 };
+  },
+};
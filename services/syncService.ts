@@ -0,0 +1,312 @@
+/**
+ * ./services/syncService.ts
+ *
+ * Sync engine between local likes/saves (utils/storage.ts) and the
+ * Supabase `likes` / `saves` tables.
+ *
+ * How it works:
+ * --------------------------------------------------------------------
+ * 1. Optimistic: toggleLike/toggleSave update local storage first,
+ *    so the UI reacts instantly (even offline).
+ * 2. Queue: every toggle is recorded as a PendingInteraction holding
+ *    the DESIRED final state. A newer toggle for the same video
+ *    replaces the older one, so rapid taps send a single request.
+ *    The queue is persisted, so it survives reloads. Every entry is
+ *    tagged with the user who acted; entries of another account
+ *    (signed out on this device) are dropped, never sent as the
+ *    current user.
+ * 3. Flush: pending interactions are written with idempotent
+ *    inserts/deletes, retried with exponential backoff on network
+ *    errors and dropped on errors that can never succeed.
+ * 4. Reconcile: on start and whenever the app returns to foreground
+ *    we pull the user's rows and rebuild local state as
+ *    "server state + pending local intent".
+ *
+ * Conflict resolution (same account on two devices):
+ * --------------------------------------------------------------------
+ * • Last writer wins, using the time the user acted (`at`) against
+ *   the server row's `created_at`.
+ * • If this device un-liked offline, but the server row was created
+ *   AFTER that (another device liked again), the server wins.
+ * • Deletes leave no row behind, so a pending local like always
+ *   wins over an older remote unlike.
+ * • Anything without a pending local change follows the server.
+ */
+
+import { AppState, NativeEventSubscription } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { persistence } from '../utils/persistence';
+import { storage } from '../utils/storage';
+import { videoService, InteractionTable } from './videoService';
+
+type InteractionKind = 'like' | 'save';
+
+export type PendingInteraction = {
+  kind: InteractionKind;
+  videoId: string;
+  value: boolean;   // Desired final state (true = liked/saved)
+  at: number;       // When the user acted (ms since epoch)
+  attempts: number; // Failed flush attempts so far
+  userId: string | null; // Who acted (null = before the session was known)
+};
+
+const QUEUE_KEY = 'veeky:sync-queue';
+
+const TABLES: Record<InteractionKind, InteractionTable> = {
+  like: 'likes',
+  save: 'saves',
+};
+
+// Debounce between a toggle and the flush it triggers
+const FLUSH_DELAY_MS = 500;
+
+// Retry backoff: 2s, 4s, 8s ... capped at 1 minute
+const BASE_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+
+// Postgres errors that will never succeed on retry
+// (invalid uuid, missing video, row-level security)
+const PERMANENT_ERROR_CODES = ['22P02', '23503', '42501'];
+
+let queue: PendingInteraction[] = [];
+let queueLoaded: Promise<void> | null = null;
+let syncing: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let appStateSub: NativeEventSubscription | null = null;
+let started = false;
+// Signed-in user the queue works for (null until the session is read)
+let userId: string | null = null;
+
+function loadQueue(): Promise<void> {
+  if (!queueLoaded) {
+    queueLoaded = persistence.getItem(QUEUE_KEY).then((raw) => {
+      if (!raw) return;
+      try {
+        const stored = JSON.parse(raw);
+        if (Array.isArray(stored)) {
+          // Keep anything queued in memory before the load finished;
+          // it is newer, so it replaces stored ops for the same video
+          const fresh = new Set(queue.map((o) => `${o.kind}:${o.videoId}`));
+          queue = [
+            ...stored.filter(
+              // Entries without an owner (older app versions) can't be trusted
+              (o: PendingInteraction) => !!o.userId && !fresh.has(`${o.kind}:${o.videoId}`)
+            ),
+            ...queue,
+          ];
+        }
+      } catch (err) {
+        console.error('sync: corrupted queue, dropping it', err);
+      }
+    });
+  }
+  return queueLoaded;
+}
+
+function saveQueue(): Promise<void> {
+  return persistence
+    .setItem(QUEUE_KEY, JSON.stringify(queue))
+    .catch((err) => console.error('sync: failed to persist queue', err));
+}
+
+function removeOp(op: PendingInteraction) {
+  queue = queue.filter((o) => o !== op);
+}
+
+function isPermanentError(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && PERMANENT_ERROR_CODES.includes(code);
+}
+
+function scheduleFlush(delay: number) {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    syncService.flush();
+  }, delay);
+}
+
+function enqueue(kind: InteractionKind, videoId: string, value: boolean) {
+  queue = queue.filter((o) => !(o.kind === kind && o.videoId === videoId));
+  queue.push({ kind, videoId, value, at: Date.now(), attempts: 0, userId });
+
+  loadQueue().then(saveQueue);
+  scheduleFlush(FLUSH_DELAY_MS);
+}
+
+/**
+ * Merge the server rows of one kind with pending local intent,
+ * and write the result into local storage.
+ */
+function applyServerState(
+  kind: InteractionKind,
+  rows: { video_id: string; created_at: string }[]
+) {
+  const serverAt = new Map(rows.map((r) => [r.video_id, Date.parse(r.created_at)]));
+  const next = new Set(serverAt.keys());
+
+  queue
+    .filter((op) => op.kind === kind)
+    .forEach((op) => {
+      const remoteAt = serverAt.get(op.videoId);
+
+      // Already applied on the server — nothing left to send
+      if (op.value && remoteAt !== undefined) {
+        removeOp(op);
+        return;
+      }
+
+      // Re-liked/saved on another device after our offline removal
+      if (!op.value && remoteAt !== undefined && remoteAt > op.at) {
+        removeOp(op);
+        return;
+      }
+
+      if (op.value) next.add(op.videoId);
+      else next.delete(op.videoId);
+    });
+
+  if (kind === 'like') storage.replaceLiked(Array.from(next));
+  else storage.replaceSaved(Array.from(next));
+}
+
+/**
+ * Read the signed-in user and make the queue theirs: untagged entries
+ * (queued in this session before it was known) get the user id,
+ * entries of another account are dropped.
+ * Returns null when nobody is signed in.
+ */
+async function claimQueue(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  userId = session?.user.id ?? null;
+  if (!userId) return null;
+
+  const owner = userId;
+  const before = queue.length;
+  queue = queue.filter((op) => {
+    if (!op.userId) op.userId = owner;
+    return op.userId === owner;
+  });
+  if (queue.length !== before) await saveQueue();
+
+  return owner;
+}
+
+async function flushQueue(): Promise<void> {
+  await loadQueue();
+  if (!(await claimQueue())) return;
+
+  while (queue.length > 0) {
+    const op = queue[0];
+
+    try {
+      await videoService.setInteraction(TABLES[op.kind], op.videoId, op.value);
+      removeOp(op);
+    } catch (err) {
+      if (isPermanentError(err)) {
+        console.warn('sync: dropping interaction that cannot be applied', op, err);
+        removeOp(op);
+        continue;
+      }
+
+      op.attempts += 1;
+      await saveQueue();
+      scheduleFlush(Math.min(BASE_BACKOFF_MS * 2 ** (op.attempts - 1), MAX_BACKOFF_MS));
+      return;
+    }
+  }
+
+  await saveQueue();
+}
+
+export const syncService = {
+  // Optimistically toggle a like and queue it for the server
+  toggleLike(videoId: string): boolean {
+    const liked = storage.toggleLike(videoId);
+    enqueue('like', videoId, liked);
+    return liked;
+  },
+
+  // Optimistically toggle a save and queue it for the server
+  toggleSave(videoId: string): boolean {
+    const saved = storage.toggleSave(videoId);
+    enqueue('save', videoId, saved);
+    return saved;
+  },
+
+  // Interactions still waiting for the server
+  async getPending(): Promise<PendingInteraction[]> {
+    await loadQueue();
+    return [...queue];
+  },
+
+  // Push pending interactions to the server, oldest first
+  flush(): Promise<void> {
+    if (!flushing) {
+      flushing = flushQueue()
+        .catch((err) => console.error('sync: flush failed', err))
+        .finally(() => {
+          flushing = null;
+        });
+    }
+    return flushing;
+  },
+
+  // Pull server state and merge it with pending local intent
+  async reconcile(): Promise<void> {
+    await Promise.all([loadQueue(), storage.ready()]);
+    if (!(await claimQueue())) return;
+
+    const [likes, saves] = await Promise.all([
+      videoService.getInteractions('likes'),
+      videoService.getInteractions('saves'),
+    ]);
+
+    applyServerState('like', likes);
+    applyServerState('save', saves);
+    await saveQueue();
+  },
+
+  // Full round trip: resolve conflicts first, then send what's left
+  sync(): Promise<void> {
+    if (!syncing) {
+      syncing = syncService
+        .reconcile()
+        .then(() => syncService.flush())
+        .catch((err) => {
+          console.error('sync: failed', err);
+          scheduleFlush(BASE_BACKOFF_MS);
+        })
+        .finally(() => {
+          syncing = null;
+        });
+    }
+    return syncing;
+  },
+
+  // Start syncing for the signed-in user (idempotent)
+  start() {
+    if (started) return;
+    started = true;
+
+    appStateSub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') syncService.sync();
+    });
+
+    syncService.sync();
+  },
+
+  // Stop background syncing (e.g. on logout). The queue is kept, but
+  // its entries are only ever sent for the user who made them.
+  stop() {
+    started = false;
+    userId = null;
+    appStateSub?.remove();
+    appStateSub = null;
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+  },
+};
@@ -0,0 +1,365 @@
+/**
+ * ./services/uploadService.ts
+ *
+ * Resumable uploads to Supabase Storage (TUS protocol).
+ *
+ * Why TUS and not `supabase.storage.upload()`:
+ * --------------------------------------------------------------------
+ * ✔ Travel videos are big; a single request fails on flaky mobile data
+ * ✔ Chunks give us real upload progress
+ * ✔ A failed / cancelled upload continues where it stopped
+ *
+ * Avatars are small images, uploadAvatar() sends them in one request.
+ *
+ * How it works:
+ * --------------------------------------------------------------------
+ * 1. POST {endpoint}          → create the upload, server returns its URL
+ * 2. PATCH {uploadUrl}        → send 6 MB chunks, server returns the offset
+ * 3. HEAD {uploadUrl}         → ask for the offset before resuming
+ *
+ * Upload URLs are remembered per (bucket, path, size), so calling
+ * upload() again for the same file resumes instead of starting over.
+ *
+ * Testing:
+ * --------------------------------------------------------------------
+ * createUploader() takes the endpoint, token provider, fetch and file
+ * reader as config, so it can run against a local Supabase / storage
+ * stand-in. `uploadService` is the instance wired to the app's project.
+ */
+
+import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabase';
+
+const TUS_VERSION = '1.0.0';
+
+// Supabase requires exactly 6 MB for every chunk except the last one
+export const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Retries per chunk, with exponential backoff (1s, 2s, 4s)
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1_000;
+
+// Statuses worth retrying (server busy / transient conflicts)
+const RETRYABLE_STATUSES = [409, 423, 429, 500, 502, 503, 504];
+
+export const VIDEO_BUCKET = 'videos';
+export const AVATAR_BUCKET = 'avatars';
+
+export type UploadFile = {
+  uri: string;                  // Local file / blob URL (from the picker)
+  contentType?: string | null;  // e.g. "video/mp4"
+  fileName?: string | null;
+};
+
+export type UploadProgress = {
+  bytesSent: number;
+  bytesTotal: number;
+};
+
+export type UploadOptions = {
+  bucket: string;
+  path: string;                 // Object path inside the bucket
+  contentType?: string;
+  signal?: AbortSignal;         // Abort to cancel
+  onProgress?: (progress: UploadProgress) => void;
+};
+
+export type UploaderConfig = {
+  endpoint: string;                          // .../storage/v1/upload/resumable
+  getToken: () => Promise<string | null>;    // User access token
+  apiKey?: string;                           // Supabase anon key
+  fetchImpl?: typeof fetch;
+  readFile?: (uri: string) => Promise<Blob>;
+  chunkSize?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+};
+
+/**
+ * Thrown when the caller aborted the upload.
+ */
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+/**
+ * Thrown when the storage server rejected the upload.
+ */
+export class UploadError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+function isAbortError(err: unknown): boolean {
+  return (err as { name?: unknown } | null)?.name === 'AbortError';
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof UploadError) {
+    return err.status === null || RETRYABLE_STATUSES.includes(err.status);
+  }
+  // fetch() rejects with TypeError on network failures
+  return err instanceof TypeError;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadCancelledError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * TUS "Upload-Metadata": comma separated `key base64(value)` pairs.
+ * Values here are ASCII (bucket, generated path, mime type).
+ */
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+}
+
+async function defaultReadFile(uri: string): Promise<Blob> {
+  const res = await fetch(uri);
+  return res.blob();
+}
+
+/**
+ * Create a resumable uploader bound to one storage endpoint.
+ */
+export function createUploader(config: UploaderConfig) {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const readFile = config.readFile ?? defaultReadFile;
+  const chunkSize = config.chunkSize ?? CHUNK_SIZE;
+  const maxRetries = config.maxRetries ?? MAX_RETRIES;
+  const retryDelayMs = config.retryDelayMs ?? RETRY_DELAY_MS;
+
+  // "bucket/path:size" → upload URL, so retries resume
+  const uploadUrls = new Map<string, string>();
+
+  async function headers(extra: Record<string, string> = {}) {
+    const token = await config.getToken();
+    if (!token) throw new Error('Not authenticated');
+
+    return {
+      authorization: `Bearer ${token}`,
+      ...(config.apiKey ? { apikey: config.apiKey } : {}),
+      'tus-resumable': TUS_VERSION,
+      ...extra,
+    };
+  }
+
+  // POST: create the upload and return its URL
+  async function createUpload(size: number, options: UploadOptions): Promise<string> {
+    const res = await fetchImpl(config.endpoint, {
+      method: 'POST',
+      headers: await headers({
+        'upload-length': String(size),
+        'upload-metadata': encodeMetadata({
+          bucketName: options.bucket,
+          objectName: options.path,
+          contentType: options.contentType ?? 'application/octet-stream',
+          cacheControl: '3600',
+        }),
+        'x-upsert': 'true',
+      }),
+      signal: options.signal,
+    });
+
+    const location = res.headers.get('location');
+    if (res.status !== 201 || !location) {
+      throw new UploadError(`Could not create upload (${res.status})`, res.status);
+    }
+    return new URL(location, config.endpoint).toString();
+  }
+
+  // HEAD: how many bytes the server already has (null = upload is gone)
+  async function getOffset(url: string, signal?: AbortSignal): Promise<number | null> {
+    const res = await fetchImpl(url, { method: 'HEAD', headers: await headers(), signal });
+
+    if (res.status === 404 || res.status === 410) return null;
+    if (!res.ok) throw new UploadError(`Could not resume upload (${res.status})`, res.status);
+
+    return Number(res.headers.get('upload-offset') ?? 0);
+  }
+
+  // PATCH: send one chunk, return the new offset
+  async function sendChunk(
+    url: string,
+    offset: number,
+    chunk: Blob,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const res = await fetchImpl(url, {
+      method: 'PATCH',
+      headers: await headers({
+        'upload-offset': String(offset),
+        'content-type': 'application/offset+octet-stream',
+      }),
+      body: chunk,
+      signal,
+    });
+
+    if (res.status !== 204) {
+      throw new UploadError(`Chunk upload failed (${res.status})`, res.status);
+    }
+    return Number(res.headers.get('upload-offset') ?? offset + chunk.size);
+  }
+
+  return {
+    /**
+     * Upload a local file. Resolves once every byte is stored.
+     */
+    async upload(file: UploadFile, options: UploadOptions): Promise<void> {
+      const { signal, onProgress } = options;
+
+      try {
+        const blob = await readFile(file.uri);
+        const total = blob.size;
+        const key = `${options.bucket}/${options.path}:${total}`;
+
+        // Resume a previous attempt when the server still has it
+        let url = uploadUrls.get(key) ?? null;
+        let offset = url ? await getOffset(url, signal) : null;
+
+        if (!url || offset === null) {
+          url = await createUpload(total, options);
+          uploadUrls.set(key, url);
+          offset = 0;
+        }
+
+        onProgress?.({ bytesSent: offset, bytesTotal: total });
+
+        let attempt = 0;
+        while (offset < total) {
+          if (signal?.aborted) throw new UploadCancelledError();
+
+          try {
+            const chunk = blob.slice(offset, offset + chunkSize);
+            offset = await sendChunk(url, offset, chunk, signal);
+            attempt = 0;
+            onProgress?.({ bytesSent: offset, bytesTotal: total });
+          } catch (err) {
+            if (isAbortError(err) || !isRetryable(err) || attempt >= maxRetries) throw err;
+
+            await wait(retryDelayMs * 2 ** attempt, signal);
+            attempt += 1;
+
+            // The server may have stored part of the failed chunk
+            const serverOffset = await getOffset(url, signal);
+            if (serverOffset === null) {
+              uploadUrls.delete(key);
+              throw new UploadError('Upload expired, please try again', 404);
+            }
+            offset = serverOffset;
+          }
+        }
+
+        uploadUrls.delete(key);
+      } catch (err) {
+        if (isAbortError(err) || signal?.aborted) throw new UploadCancelledError();
+        throw err;
+      }
+    },
+  };
+}
+
+const uploader = createUploader({
+  endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+  apiKey: supabaseAnonKey,
+  async getToken() {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.access_token ?? null;
+  },
+});
+
+// Local file URI → object path, so a retry reuses the same upload
+const videoPaths = new Map<string, string>();
+
+function extensionOf(file: UploadFile, fallback = 'mp4'): string {
+  const fromName = file.fileName?.split('.').pop();
+  if (fromName && fromName.length <= 5) return fromName.toLowerCase();
+  return file.contentType?.split('/')[1] ?? fallback;
+}
+
+export const uploadService = {
+  // Upload a picked video into the `videos` bucket, returns its public URL
+  async uploadVideo(
+    file: UploadFile,
+    options: Pick<UploadOptions, 'signal' | 'onProgress'> = {}
+  ): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    // Objects live under the owner's folder (see supabase-add-storage.sql)
+    let path = videoPaths.get(file.uri);
+    if (!path) {
+      path = `${user.id}/${Date.now()}.${extensionOf(file)}`;
+      videoPaths.set(file.uri, path);
+    }
+
+    await uploader.upload(file, {
+      bucket: VIDEO_BUCKET,
+      path,
+      contentType: file.contentType ?? 'video/mp4',
+      ...options,
+    });
+
+    videoPaths.delete(file.uri);
+    return supabase.storage.from(VIDEO_BUCKET).getPublicUrl(path).data.publicUrl;
+  },
+
+  // Upload a (cropped) avatar image into the `avatars` bucket, returns its
+  // public URL. Avatars are small, so a single request is enough.
+  // Every upload gets a new path, so cached copies of the old one never show.
+  async uploadAvatar(file: UploadFile): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const path = `${user.id}/${Date.now()}.${extensionOf(file, 'jpg')}`;
+    const body = await (await fetch(file.uri)).arrayBuffer();
+
+    const { error } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .upload(path, body, { contentType: file.contentType ?? 'image/jpeg' });
+
+    if (error) throw error;
+    return supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path).data.publicUrl;
+  },
+
+  // Delete the user's avatars except `keepUrl` (best effort, failures
+  // only leave an unused file behind)
+  async removeOldAvatars(keepUrl: string | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const bucket = supabase.storage.from(AVATAR_BUCKET);
+    const { data, error } = await bucket.list(user.id);
+    if (error) throw error;
+
+    const stale = (data ?? [])
+      .map((object) => `${user.id}/${object.name}`)
+      .filter((path) => bucket.getPublicUrl(path).data.publicUrl !== keepUrl);
+
+    if (stale.length > 0) {
+      const { error: removeError } = await bucket.remove(stale);
+      if (removeError) throw removeError;
+    }
+  },
+};
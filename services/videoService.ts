@@ -1,19 +1,111 @@
 import { supabase } from '../lib/supabase';
-import { Video } from '../types/database';
+import { Video, VideoCategory } from '../types/database';
+import { FeedFilter } from '../types/video';
+import { parseItinerary, ItineraryValidationError } from '../utils/itinerary';
+import { expandQuery } from '../utils/searchNormalize';
+
+export type InteractionTable = 'likes' | 'saves';
+
+// Position in the feed: the last (created_at, id) already loaded
+export type VideoCursor = {
+  createdAt: string;
+  id: string;
+};
+
+export type VideoPage = {
+  videos: Video[];
+  nextCursor: VideoCursor | null; // null = no more pages
+};
+
+// Which fields a search query is matched against
+export type SearchMode = 'all' | 'tags' | 'location' | 'influencer' | 'title';
+
+export type SearchPage = {
+  videos: Video[];
+  hasMore: boolean;
+};
+
+// Postgres "unique_violation" — the row already exists
+const UNIQUE_VIOLATION = '23505';
+
+// PostgREST `or` filter for rows before ('lt') or after ('gt') a cursor
+// in (created_at, id) order
+export function keysetFilter(op: 'lt' | 'gt', cursor: VideoCursor) {
+  return (
+    `created_at.${op}."${cursor.createdAt}",` +
+    `and(created_at.eq."${cursor.createdAt}",id.${op}."${cursor.id}")`
+  );
+}
+
+// Where a feed's rows come from: the `following_videos` view
+// (supabase-add-following-feed.sql) or `videos`, optionally by category.
+// 'ForYou' loads every video; the client ranks them (utils/feedRanking.ts).
+function feedSource(filter: FeedFilter) {
+  if (filter === 'Following') return { table: 'following_videos', category: undefined };
+  if (filter === 'All' || filter === 'ForYou') return { table: 'videos', category: undefined };
+  return { table: 'videos', category: filter };
+}
 
 export const videoService = {
-  // Get all videos with pagination
-  async getVideos(page = 0, limit = 10, category?: string) {
+  // Get videos, newest first, one page at a time.
+  // Keyset pagination on (created_at, id): stable even when new videos are
+  // inserted between requests, unlike offset-based `range`.
+  async getVideos(
+    cursor: VideoCursor | null = null,
+    limit = 10,
+    filter: FeedFilter = 'All'
+  ): Promise<VideoPage> {
+    const { table, category } = feedSource(filter);
     let query = supabase
-      .from('videos')
+      .from(table)
       .select(`
         *,
         profile:profiles(*)
       `)
       .order('created_at', { ascending: false })
-      .range(page * limit, (page + 1) * limit - 1);
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    // Only rows strictly "older" than the last row of the previous page
+    if (cursor) {
+      query = query.or(keysetFilter('lt', cursor));
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const videos = data as Video[];
+    const last = videos[videos.length - 1];
+
+    return {
+      videos,
+      nextCursor:
+        videos.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+    };
+  },
+
+  // Get videos newer than `since`, OLDEST first, one page at a time.
+  // Used by pull-to-refresh: keep calling with the last returned row
+  // until fewer than `limit` rows come back.
+  async getNewerVideos(since: VideoCursor, limit = 10, filter: FeedFilter = 'All') {
+    const { table, category } = feedSource(filter);
+    let query = supabase
+      .from(table)
+      .select(`
+        *,
+        profile:profiles(*)
+      `)
+      .or(keysetFilter('gt', since))
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
 
-    if (category && category !== 'All') {
+    if (category) {
       query = query.eq('category', category);
     }
 
@@ -23,6 +115,105 @@ export const videoService = {
     return data as Video[];
   },
 
+  // Count videos newer than `since` (for the "N new videos" pill)
+  async countNewerVideos(since: VideoCursor, filter: FeedFilter = 'All') {
+    const { table, category } = feedSource(filter);
+    let query = supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .or(keysetFilter('gt', since));
+
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    const { count, error } = await query;
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  // Videos of one profile, newest first, one page at a time (same keyset
+  // pagination as getVideos), optionally of a single category
+  async getUserVideos(
+    userId: string,
+    cursor: VideoCursor | null = null,
+    limit = 18,
+    category?: VideoCategory
+  ): Promise<VideoPage> {
+    let query = supabase
+      .from('videos')
+      .select(`
+        *,
+        profile:profiles(*)
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    if (cursor) {
+      query = query.or(keysetFilter('lt', cursor));
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const videos = data as Video[];
+    const last = videos[videos.length - 1];
+
+    return {
+      videos,
+      nextCursor:
+        videos.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+    };
+  },
+
+  // Search videos by mode, best match first, one page at a time.
+  // The query is normalized / expanded on the client (utils/searchNormalize.ts)
+  // and matched against the normalized columns by the `search_videos` RPC
+  // (supabase-add-search.sql). An empty query returns the latest videos.
+  async search(query: string, mode: SearchMode = 'all', page = 0, limit = 24): Promise<SearchPage> {
+    const terms = expandQuery(query);
+    const from = page * limit;
+
+    // One extra row tells us whether another page exists
+    const request =
+      terms.length > 0
+        ? supabase
+            .rpc('search_videos', {
+              terms,
+              search_mode: mode,
+              page_offset: from,
+              page_limit: limit + 1,
+            })
+            .select(`
+              *,
+              profile:profiles(*)
+            `)
+        : supabase
+            .from('videos')
+            .select(`
+              *,
+              profile:profiles(*)
+            `)
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .range(from, from + limit);
+
+    const { data, error } = await request;
+
+    if (error) throw error;
+
+    const rows = data as Video[];
+    return { videos: rows.slice(0, limit), hasMore: rows.length > limit };
+  },
+
   // Get single video
   async getVideo(id: string) {
     const { data, error } = await supabase
@@ -38,11 +229,36 @@ export const videoService = {
     return data as Video;
   },
 
+  // Get several videos by id (order not guaranteed, missing ids are skipped)
+  async getVideosByIds(ids: string[]) {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('videos')
+      .select(`
+        *,
+        profile:profiles(*)
+      `)
+      .in('id', ids);
+
+    if (error) throw error;
+    return data as Video[];
+  },
+
   // Create video
   async createVideo(video: Partial<Video>) {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
+    // Reject broken itineraries instead of storing them
+    if (video.itinerary) {
+      const { issues, valid } = parseItinerary(video.itinerary, {
+        expectedDays: video.days,
+        repair: false,
+      });
+      if (!valid) throw new ItineraryValidationError(issues);
+    }
+
     const { data, error } = await supabase
       .from('videos')
       .insert({
@@ -109,4 +325,84 @@ export const videoService = {
       return true;
     }
   },
+
+  // Set like/save state explicitly (idempotent, safe to retry)
+  async setInteraction(table: InteractionTable, videoId: string, value: boolean) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    if (value) {
+      const { error } = await supabase
+        .from(table)
+        .insert({ user_id: user.id, video_id: videoId });
+
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+    } else {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('user_id', user.id)
+        .eq('video_id', videoId);
+
+      if (error) throw error;
+    }
+  },
+
+  // Videos the current user liked/saved, most recently liked/saved first,
+  // one page at a time. The cursor is the (created_at, id) of the like/save
+  // row, not of the video. Videos that were deleted are left out.
+  async getInteractionVideos(
+    table: InteractionTable,
+    cursor: VideoCursor | null = null,
+    limit = 30
+  ): Promise<VideoPage> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    let query = supabase
+      .from(table)
+      .select(`
+        id,
+        created_at,
+        video:videos(
+          *,
+          profile:profiles(*)
+        )
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (cursor) {
+      query = query.or(keysetFilter('lt', cursor));
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as { id: string; created_at: string; video: Video | null }[];
+    const last = rows[rows.length - 1];
+
+    return {
+      videos: rows.map((row) => row.video).filter((video): video is Video => !!video),
+      nextCursor:
+        rows.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+    };
+  },
+
+  // Get all liked/saved video IDs of the current user (with timestamps)
+  async getInteractions(table: InteractionTable) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from(table)
+      .select('video_id, created_at')
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+    return data as { video_id: string; created_at: string }[];
+  },
 };
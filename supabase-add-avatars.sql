@@ -0,0 +1,62 @@
+-- Editable profiles + avatar images (see screens/EditProfileScreen.tsx)
+-- Run after supabase-add-comment-threads.sql (case-insensitive unique username)
+
+-- Each user edits only their own row
+DROP POLICY IF EXISTS "Users update their own profile" ON profiles;
+CREATE POLICY "Users update their own profile"
+ON profiles FOR UPDATE
+TO authenticated
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
+
+-- ...but only the columns the app edits. `verified` (and anything added
+-- later) stays server-managed: it is shown as a badge and boosts ranking
+-- (supabase-add-following-feed.sql). Column grants also cover INSERT,
+-- so a new profile can't start out verified either.
+REVOKE UPDATE ON profiles FROM anon, authenticated;
+GRANT UPDATE (username, full_name, avatar_url, bio) ON profiles TO authenticated;
+
+REVOKE INSERT ON profiles FROM anon, authenticated;
+GRANT INSERT (id, username, full_name, avatar_url, bio) ON profiles TO anon, authenticated;
+
+-- Same rules as the client (utils/mentions.ts isValidUsername), so every
+-- saved username can be @mentioned. NOT VALID keeps older rows as they are.
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_username_format
+  CHECK (username ~ '^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$' AND char_length(username) BETWEEN 3 AND 30)
+  NOT VALID;
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_bio_length CHECK (char_length(bio) <= 160) NOT VALID;
+
+-- Storage bucket for avatars (services/uploadService.ts uploadAvatar)
+-- Public read, each user writes only inside their own folder: <user_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  true,
+  5242880, -- 5 MB
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Avatars are publicly readable"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users upload their own avatar"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users delete their own avatar"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,112 @@
+-- Collections ("trip boards") of saved videos (see services/collectionService.ts)
+-- A video in a collection is always saved too: the client saves it when
+-- adding, and un-saving removes it from every collection (trigger below).
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  position integer NOT NULL DEFAULT 0,  -- order on the Saves screen, ascending
+  share_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  is_shared boolean NOT NULL DEFAULT false,  -- readable through the link
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS collections_user_position_idx ON collections (user_id, position);
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id uuid NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  video_id uuid NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (collection_id, video_id)
+);
+
+-- Items of a collection, newest first, keyset paginated on (created_at, id)
+CREATE INDEX IF NOT EXISTS collection_items_collection_created_idx
+  ON collection_items (collection_id, created_at DESC, id DESC);
+-- "Which of my collections hold this video" + the un-save trigger
+CREATE INDEX IF NOT EXISTS collection_items_user_video_idx ON collection_items (user_id, video_id);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+
+-- Shared collections are NOT listable: others only reach them through
+-- the token (shared_collection / shared_collection_videos below)
+CREATE POLICY "Users manage their own collections"
+ON collections FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users manage their own collection items"
+ON collection_items FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+);
+
+-- Un-saving a video takes it out of the user's collections
+CREATE OR REPLACE FUNCTION collection_items_on_unsave()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM collection_items WHERE user_id = OLD.user_id AND video_id = OLD.video_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS saves_remove_collection_items ON saves;
+CREATE TRIGGER saves_remove_collection_items
+AFTER DELETE ON saves
+FOR EACH ROW EXECUTE FUNCTION collection_items_on_unsave();
+
+-- New order of the caller's collections in one request (ids in order)
+CREATE OR REPLACE FUNCTION reorder_collections(ordered_ids uuid[])
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE collections c
+  SET position = o.ord
+  FROM unnest(ordered_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE c.id = o.id AND c.user_id = auth.uid();
+$$;
+
+-- A shared collection by its link token (empty when not shared)
+CREATE OR REPLACE FUNCTION shared_collection(token text)
+RETURNS SETOF collections
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM collections WHERE share_token = token AND is_shared;
+$$;
+
+-- Videos of a shared collection, newest item first.
+-- Returns videos rows, so the client can embed `profile:profiles(*)`.
+CREATE OR REPLACE FUNCTION shared_collection_videos(token text, page_limit integer DEFAULT 60)
+RETURNS SETOF videos
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.*
+  FROM collections c
+  JOIN collection_items i ON i.collection_id = c.id
+  JOIN videos v ON v.id = i.video_id
+  WHERE c.share_token = token AND c.is_shared
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT least(page_limit, 200);
+$$;
+
+-- Share links work without an account too (SharedCollectionScreen is
+-- reachable while signed out)
+GRANT EXECUTE ON FUNCTION shared_collection(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION shared_collection_videos(text, integer) TO anon, authenticated;
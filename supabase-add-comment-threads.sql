@@ -0,0 +1,108 @@
+-- Reply threads + comment likes (see services/commentService.ts)
+-- Run after supabase-add-comments.sql
+
+-- Threads are one level deep: a reply to a reply joins the root thread
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES comments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS replies_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS likes_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS comments_parent_created_idx ON comments (parent_id, created_at, id);
+
+CREATE OR REPLACE FUNCTION comments_attach_to_root()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  parent comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM comments WHERE id = NEW.parent_id;
+  IF NOT FOUND OR parent.video_id <> NEW.video_id THEN
+    RAISE EXCEPTION 'Parent comment not found on this video';
+  END IF;
+
+  NEW.parent_id := coalesce(parent.parent_id, parent.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_attach_to_root_trigger ON comments;
+CREATE TRIGGER comments_attach_to_root_trigger
+BEFORE INSERT ON comments
+FOR EACH ROW EXECUTE FUNCTION comments_attach_to_root();
+
+-- comments.replies_count follows replies
+CREATE OR REPLACE FUNCTION comments_update_replies_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE comments SET replies_count = replies_count + 1 WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.parent_id IS NOT NULL THEN
+    UPDATE comments SET replies_count = GREATEST(replies_count - 1, 0) WHERE id = OLD.parent_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_replies_count_trigger ON comments;
+CREATE TRIGGER comments_replies_count_trigger
+AFTER INSERT OR DELETE ON comments
+FOR EACH ROW EXECUTE FUNCTION comments_update_replies_count();
+
+-- One like per user per comment
+CREATE TABLE IF NOT EXISTS comment_likes (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  comment_id uuid NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, comment_id)
+);
+
+ALTER TABLE comment_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own comment likes"
+ON comment_likes FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users like as themselves"
+ON comment_likes FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users remove their own comment likes"
+ON comment_likes FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- comments.likes_count follows comment_likes
+CREATE OR REPLACE FUNCTION comment_likes_update_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE comments SET likes_count = likes_count + 1 WHERE id = NEW.comment_id;
+  ELSE
+    UPDATE comments SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.comment_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comment_likes_count_trigger ON comment_likes;
+CREATE TRIGGER comment_likes_count_trigger
+AFTER INSERT OR DELETE ON comment_likes
+FOR EACH ROW EXECUTE FUNCTION comment_likes_update_count();
+
+-- Profiles are looked up by username for @mentions
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_username_lower_idx ON profiles (lower(username));
@@ -0,0 +1,55 @@
+-- Video comments (see services/commentService.ts)
+CREATE TABLE IF NOT EXISTS comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  video_id uuid NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  text text NOT NULL CHECK (char_length(btrim(text)) BETWEEN 1 AND 500),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Keyset pagination per video, both directions
+CREATE INDEX IF NOT EXISTS comments_video_created_idx ON comments (video_id, created_at, id);
+
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+-- Comments are public, like the videos they belong to
+CREATE POLICY "Anyone reads comments"
+ON comments FOR SELECT
+USING (true);
+
+CREATE POLICY "Users create their own comments"
+ON comments FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users delete their own comments"
+ON comments FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- videos.comments_count follows inserts / deletes. SECURITY DEFINER:
+-- commenters are not allowed to update other people's videos.
+CREATE OR REPLACE FUNCTION comments_update_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE videos SET comments_count = comments_count + 1 WHERE id = NEW.video_id;
+  ELSE
+    UPDATE videos SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.video_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_count_trigger ON comments;
+CREATE TRIGGER comments_count_trigger
+AFTER INSERT OR DELETE ON comments
+FOR EACH ROW EXECUTE FUNCTION comments_update_count();
+
+-- Seeded counts were made up; start from the real number of rows
+UPDATE videos v
+SET comments_count = (SELECT count(*) FROM comments c WHERE c.video_id = v.id);
@@ -0,0 +1,159 @@
+-- Creator dashboard aggregations (see services/analyticsService.ts)
+-- Run after supabase-add-video-views.sql, supabase-add-comments.sql
+-- and supabase-add-orders.sql
+--
+-- Both functions only ever look at the caller's own videos. They run
+-- as SECURITY DEFINER because likes / saves / orders of other users
+-- are not readable by the creator row by row, only as counts.
+-- Days are calendar days in the caller's time zone (`tz`).
+
+-- Longest range a single request may cover
+CREATE OR REPLACE FUNCTION creator_stats_check_range(range_start date, range_end date)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF range_end < range_start OR range_end - range_start > 366 THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+END;
+$$;
+
+-- One row per day of the range, summed over the caller's videos
+-- (or over one of them with target_video)
+CREATE OR REPLACE FUNCTION creator_daily_stats(
+  range_start date,
+  range_end date,
+  target_video uuid DEFAULT NULL,
+  tz text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day date,
+  views bigint,
+  watch_time_ms bigint,
+  avg_completion real,
+  likes bigint,
+  saves bigint,
+  comments bigint,
+  bookings bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM creator_stats_check_range(range_start, range_end);
+
+  RETURN QUERY
+  WITH mine AS (
+    SELECT id FROM videos
+    WHERE user_id = auth.uid() AND (target_video IS NULL OR id = target_video)
+  ),
+  bounds AS (
+    SELECT range_start::timestamp AT TIME ZONE tz AS from_ts,
+           (range_end + 1)::timestamp AT TIME ZONE tz AS to_ts
+  ),
+  v AS (
+    SELECT (x.viewed_at AT TIME ZONE tz)::date AS d,
+           count(*) AS n, sum(x.watched_ms)::bigint AS ms, avg(x.completion)::real AS completion
+    FROM video_views x, bounds b
+    WHERE x.video_id IN (SELECT id FROM mine) AND x.viewed_at >= b.from_ts AND x.viewed_at < b.to_ts
+    GROUP BY 1
+  ),
+  l AS (
+    SELECT (x.created_at AT TIME ZONE tz)::date AS d, count(*) AS n
+    FROM likes x, bounds b
+    WHERE x.video_id IN (SELECT id FROM mine) AND x.created_at >= b.from_ts AND x.created_at < b.to_ts
+    GROUP BY 1
+  ),
+  s AS (
+    SELECT (x.created_at AT TIME ZONE tz)::date AS d, count(*) AS n
+    FROM saves x, bounds b
+    WHERE x.video_id IN (SELECT id FROM mine) AND x.created_at >= b.from_ts AND x.created_at < b.to_ts
+    GROUP BY 1
+  ),
+  c AS (
+    SELECT (x.created_at AT TIME ZONE tz)::date AS d, count(*) AS n
+    FROM comments x, bounds b
+    WHERE x.video_id IN (SELECT id FROM mine) AND x.created_at >= b.from_ts AND x.created_at < b.to_ts
+    GROUP BY 1
+  ),
+  o AS (
+    SELECT (x.created_at AT TIME ZONE tz)::date AS d, count(*) AS n
+    FROM orders x, bounds b
+    WHERE x.video_id IN (SELECT id FROM mine) AND x.status = 'confirmed'
+      AND x.created_at >= b.from_ts AND x.created_at < b.to_ts
+    GROUP BY 1
+  )
+  SELECT days.d::date,
+         coalesce(v.n, 0), coalesce(v.ms, 0), v.completion,
+         coalesce(l.n, 0), coalesce(s.n, 0), coalesce(c.n, 0), coalesce(o.n, 0)
+  FROM generate_series(range_start, range_end, interval '1 day') AS days(d)
+  LEFT JOIN v ON v.d = days.d::date
+  LEFT JOIN l ON l.d = days.d::date
+  LEFT JOIN s ON s.d = days.d::date
+  LEFT JOIN c ON c.d = days.d::date
+  LEFT JOIN o ON o.d = days.d::date
+  ORDER BY 1;
+END;
+$$;
+
+-- One row per video of the caller: totals within the range.
+-- shares_count has no history, so `shares` is the all-time total.
+CREATE OR REPLACE FUNCTION creator_video_stats(
+  range_start date,
+  range_end date,
+  tz text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  video_id uuid,
+  title text,
+  thumbnail_url text,
+  created_at timestamptz,
+  views bigint,
+  watch_time_ms bigint,
+  avg_completion real,
+  likes bigint,
+  saves bigint,
+  shares bigint,
+  comments bigint,
+  bookings bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM creator_stats_check_range(range_start, range_end);
+
+  RETURN QUERY
+  WITH bounds AS (
+    SELECT range_start::timestamp AT TIME ZONE tz AS from_ts,
+           (range_end + 1)::timestamp AT TIME ZONE tz AS to_ts
+  )
+  SELECT
+    vid.id,
+    vid.title,
+    vid.thumbnail_url,
+    vid.created_at,
+    (SELECT count(*) FROM video_views x WHERE x.video_id = vid.id AND x.viewed_at >= b.from_ts AND x.viewed_at < b.to_ts),
+    (SELECT coalesce(sum(x.watched_ms), 0)::bigint FROM video_views x WHERE x.video_id = vid.id AND x.viewed_at >= b.from_ts AND x.viewed_at < b.to_ts),
+    (SELECT avg(x.completion)::real FROM video_views x WHERE x.video_id = vid.id AND x.viewed_at >= b.from_ts AND x.viewed_at < b.to_ts),
+    (SELECT count(*) FROM likes x WHERE x.video_id = vid.id AND x.created_at >= b.from_ts AND x.created_at < b.to_ts),
+    (SELECT count(*) FROM saves x WHERE x.video_id = vid.id AND x.created_at >= b.from_ts AND x.created_at < b.to_ts),
+    vid.shares_count::bigint,
+    (SELECT count(*) FROM comments x WHERE x.video_id = vid.id AND x.created_at >= b.from_ts AND x.created_at < b.to_ts),
+    (SELECT count(*) FROM orders x WHERE x.video_id = vid.id AND x.status = 'confirmed' AND x.created_at >= b.from_ts AND x.created_at < b.to_ts)
+  FROM videos vid, bounds b
+  WHERE vid.user_id = auth.uid()
+  ORDER BY vid.created_at DESC;
+END;
+$$;
+
+-- likes / saves / orders are filtered by video and date
+CREATE INDEX IF NOT EXISTS likes_video_created_idx ON likes (video_id, created_at);
+CREATE INDEX IF NOT EXISTS saves_video_created_idx ON saves (video_id, created_at);
+CREATE INDEX IF NOT EXISTS orders_video_created_idx ON orders (video_id, created_at);
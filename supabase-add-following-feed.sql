@@ -0,0 +1,41 @@
+-- "Following" home feed (see services/videoService.ts, services/followService.ts)
+-- Run after supabase-add-follows.sql
+
+-- Videos of the creators the current user follows.
+-- security_invoker: evaluated with the caller's auth.uid() and RLS.
+-- Queried like the videos table (same columns, same profile embed).
+CREATE OR REPLACE VIEW following_videos
+WITH (security_invoker = true) AS
+SELECT v.*
+FROM videos v
+WHERE EXISTS (
+  SELECT 1 FROM follows f
+  WHERE f.follower_id = auth.uid() AND f.following_id = v.user_id
+);
+
+-- The feed filters videos by author, newest first
+CREATE INDEX IF NOT EXISTS videos_user_created_idx ON videos (user_id, created_at DESC, id DESC);
+
+GRANT SELECT ON following_videos TO authenticated;
+
+-- Creators to suggest on the empty "Following" feed: people who posted
+-- videos, not followed yet, most followed first
+CREATE OR REPLACE FUNCTION suggested_creators(page_limit integer DEFAULT 10)
+RETURNS SETOF profiles
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM profiles p
+  WHERE EXISTS (SELECT 1 FROM videos v WHERE v.user_id = p.id)
+    AND p.id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM follows f
+      WHERE f.follower_id = auth.uid() AND f.following_id = p.id
+    )
+  ORDER BY
+    (SELECT count(*) FROM follows f WHERE f.following_id = p.id) DESC,
+    p.verified DESC,
+    p.created_at DESC
+  LIMIT page_limit;
+$$;
@@ -0,0 +1,29 @@
+-- Follow graph (see services/followService.ts)
+CREATE TABLE IF NOT EXISTS follows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+-- The UNIQUE index serves "who do I follow"; this one serves "who follows X"
+CREATE INDEX IF NOT EXISTS follows_following_created_idx ON follows (following_id, created_at DESC);
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+-- Follower lists are public, like on every social app
+CREATE POLICY "Anyone reads follows"
+ON follows FOR SELECT
+USING (true);
+
+CREATE POLICY "Users follow as themselves"
+ON follows FOR INSERT
+TO authenticated
+WITH CHECK (follower_id = auth.uid());
+
+CREATE POLICY "Users unfollow as themselves"
+ON follows FOR DELETE
+TO authenticated
+USING (follower_id = auth.uid());
@@ -0,0 +1,4 @@
+-- Saves / Liked screens: the user's rows, newest first, keyset paginated
+-- on (created_at, id) (see videoService.getInteractionVideos)
+CREATE INDEX IF NOT EXISTS likes_user_created_idx ON likes (user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS saves_user_created_idx ON saves (user_id, created_at DESC, id DESC);
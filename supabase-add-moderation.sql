@@ -0,0 +1,184 @@
+-- Comment moderation: hiding, reports, creator deletion, action log
+-- (see services/commentService.ts, services/commentModeration.ts)
+-- Run after supabase-add-comment-threads.sql
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS hidden boolean NOT NULL DEFAULT false;
+
+-- Every moderation action, newest first per video
+CREATE TABLE IF NOT EXISTS moderation_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,  -- null = automatic
+  video_id uuid REFERENCES videos(id) ON DELETE CASCADE,
+  comment_id uuid,                                          -- no FK: deleted comments stay logged
+  action text NOT NULL
+    CHECK (action IN ('report', 'hide', 'unhide', 'delete', 'auto_hide', 'auto_reject')),
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS moderation_log_video_created_idx ON moderation_log (video_id, created_at DESC);
+
+ALTER TABLE moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- Creators see what happened on their videos, users see their own actions
+CREATE POLICY "Creators and actors read the moderation log"
+ON moderation_log FOR SELECT
+TO authenticated
+USING (
+  actor_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM videos v WHERE v.id = video_id AND v.user_id = auth.uid())
+);
+
+-- The only entry written by the client: its own filter rejections.
+-- Everything else is logged by the triggers / functions below.
+CREATE POLICY "Users log their own rejected comments"
+ON moderation_log FOR INSERT
+TO authenticated
+WITH CHECK (actor_id = auth.uid() AND action = 'auto_reject');
+
+CREATE OR REPLACE FUNCTION is_video_owner(target_video uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM videos WHERE id = target_video AND user_id = auth.uid());
+$$;
+
+-- Hidden comments are only shown to their author and the video's creator
+DROP POLICY IF EXISTS "Anyone reads comments" ON comments;
+CREATE POLICY "Anyone reads visible comments"
+ON comments FOR SELECT
+USING (NOT hidden OR user_id = auth.uid() OR is_video_owner(video_id));
+
+-- Creators may delete any comment on their own videos
+CREATE POLICY "Creators delete comments on their videos"
+ON comments FOR DELETE
+TO authenticated
+USING (is_video_owner(video_id));
+
+-- Log deletions done by the creator (not the author's own)
+CREATE OR REPLACE FUNCTION comments_log_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Replies removed together with their thread are not separate actions
+  IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.user_id AND pg_trigger_depth() = 1 THEN
+    INSERT INTO moderation_log (actor_id, video_id, comment_id, action)
+    VALUES (auth.uid(), OLD.video_id, OLD.id, 'delete');
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_log_delete_trigger ON comments;
+CREATE TRIGGER comments_log_delete_trigger
+AFTER DELETE ON comments
+FOR EACH ROW EXECUTE FUNCTION comments_log_delete();
+
+-- Hide / unhide: creators only, always logged.
+-- A function instead of an UPDATE policy so creators can't edit the text.
+CREATE OR REPLACE FUNCTION set_comment_hidden(target_comment uuid, hide boolean)
+RETURNS comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result comments;
+BEGIN
+  SELECT * INTO result FROM comments WHERE id = target_comment;
+  IF NOT FOUND OR NOT is_video_owner(result.video_id) THEN
+    RAISE EXCEPTION 'Only the video creator can hide comments';
+  END IF;
+
+  UPDATE comments SET hidden = hide WHERE id = target_comment RETURNING * INTO result;
+
+  INSERT INTO moderation_log (actor_id, video_id, comment_id, action)
+  VALUES (auth.uid(), result.video_id, result.id, CASE WHEN hide THEN 'hide' ELSE 'unhide' END);
+
+  RETURN result;
+END;
+$$;
+
+-- One report per user per comment
+CREATE TABLE IF NOT EXISTS comment_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'abuse', 'hate', 'other')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (comment_id, reporter_id)
+);
+
+ALTER TABLE comment_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users report as themselves"
+ON comment_reports FOR INSERT
+TO authenticated
+WITH CHECK (reporter_id = auth.uid());
+
+CREATE POLICY "Users read their own reports"
+ON comment_reports FOR SELECT
+TO authenticated
+USING (reporter_id = auth.uid());
+
+-- Log every report; hide a comment automatically once enough users reported it
+CREATE OR REPLACE FUNCTION comment_reports_after_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target comments%ROWTYPE;
+  report_count integer;
+BEGIN
+  SELECT * INTO target FROM comments WHERE id = NEW.comment_id;
+
+  INSERT INTO moderation_log (actor_id, video_id, comment_id, action, reason)
+  VALUES (NEW.reporter_id, target.video_id, NEW.comment_id, 'report', NEW.reason);
+
+  SELECT count(*) INTO report_count FROM comment_reports WHERE comment_id = NEW.comment_id;
+
+  IF report_count >= 3 AND NOT target.hidden THEN
+    UPDATE comments SET hidden = true WHERE id = NEW.comment_id;
+    INSERT INTO moderation_log (actor_id, video_id, comment_id, action, reason)
+    VALUES (NULL, target.video_id, NEW.comment_id, 'auto_hide', report_count || ' reports');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comment_reports_after_insert_trigger ON comment_reports;
+CREATE TRIGGER comment_reports_after_insert_trigger
+AFTER INSERT ON comment_reports
+FOR EACH ROW EXECUTE FUNCTION comment_reports_after_insert();
+
+-- Server-side copy of the client rate limit (createRateLimiter defaults)
+CREATE OR REPLACE FUNCTION comments_rate_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (
+    SELECT count(*) FROM comments
+    WHERE user_id = NEW.user_id AND created_at > now() - interval '1 minute'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many comments, try again in a minute'
+      USING ERRCODE = 'P0429';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_rate_limit_trigger ON comments;
+CREATE TRIGGER comments_rate_limit_trigger
+BEFORE INSERT ON comments
+FOR EACH ROW EXECUTE FUNCTION comments_rate_limit();
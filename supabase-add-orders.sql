@@ -0,0 +1,164 @@
+-- Trip orders created by the booking flow (see services/bookingService.ts)
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  video_id uuid NOT NULL REFERENCES videos(id) ON DELETE RESTRICT,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  travellers integer NOT NULL CHECK (travellers BETWEEN 1 AND 10),
+  unit_price numeric(12, 2) NOT NULL CHECK (unit_price >= 0),
+  total_price numeric(12, 2) NOT NULL CHECK (total_price >= 0),
+  currency text NOT NULL DEFAULT 'ILS',
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'cancelled', 'failed')),
+  payment_provider text,
+  payment_reference text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS orders_user_created_idx ON orders (user_id, created_at DESC);
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+
+-- Users only ever see and create their own orders
+CREATE POLICY "Users read their own orders"
+ON orders FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users create their own orders"
+ON orders FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- No UPDATE policy: clients never write prices or statuses directly.
+-- Status changes go through the functions below (or the service role).
+
+-- Prices come from the video, not from the client. Same rules as
+-- quoteBooking() in utils/booking.ts (amounts in minor units, all
+-- supported currencies have 2 decimals). New orders always start
+-- pending and unpaid.
+CREATE OR REPLACE FUNCTION orders_price_from_video()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v videos%ROWTYPE;
+  trip_days integer := NEW.end_date - NEW.start_date + 1;
+  scaled bigint;
+  unit_minor bigint;
+  total_minor bigint;
+BEGIN
+  SELECT * INTO v FROM videos WHERE id = NEW.video_id;
+
+  IF v.price_amount_minor IS NULL THEN
+    RAISE EXCEPTION 'Video % has no price', NEW.video_id USING ERRCODE = '22023';
+  END IF;
+  IF trip_days > 30 THEN
+    RAISE EXCEPTION 'Trips are at most 30 days' USING ERRCODE = '22023';
+  END IF;
+
+  scaled := CASE
+    WHEN v.days > 0 THEN round(v.price_amount_minor * trip_days::numeric / v.days)
+    ELSE v.price_amount_minor
+  END;
+
+  CASE v.price_basis
+    WHEN 'per_person' THEN
+      unit_minor := scaled;
+      total_minor := scaled * NEW.travellers;
+    WHEN 'per_package' THEN
+      unit_minor := scaled;
+      total_minor := scaled;
+    ELSE -- per_night
+      unit_minor := v.price_amount_minor * greatest(trip_days - 1, 1);
+      total_minor := unit_minor;
+  END CASE;
+
+  NEW.unit_price := unit_minor / 100.0;
+  NEW.total_price := total_minor / 100.0;
+  NEW.currency := v.price_currency;
+  NEW.status := 'pending';
+  NEW.payment_reference := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_set_price ON orders;
+CREATE TRIGGER orders_set_price
+BEFORE INSERT ON orders
+FOR EACH ROW EXECUTE FUNCTION orders_price_from_video();
+
+-- Confirm a paid order from the client. Only for the local fake
+-- provider, and only on databases that allow it:
+--   ALTER DATABASE postgres SET app.fake_payments = 'on';  -- dev only
+-- With a real gateway, its webhook confirms orders (service role)
+-- after checking the payment reference with the gateway.
+CREATE OR REPLACE FUNCTION confirm_order(order_id uuid, reference text)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result orders;
+BEGIN
+  IF coalesce(current_setting('app.fake_payments', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'Orders are confirmed by the payment gateway' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE orders o
+  SET status = 'confirmed', payment_reference = reference
+  WHERE o.id = order_id
+    AND o.user_id = auth.uid()
+    AND o.status = 'pending'
+    AND o.payment_provider = 'fake'
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Order % cannot be confirmed', order_id USING ERRCODE = 'P0002';
+  END IF;
+  RETURN result;
+END;
+$$;
+
+-- A pending order whose payment did not go through
+CREATE OR REPLACE FUNCTION fail_order(order_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE orders o
+  SET status = 'failed'
+  WHERE o.id = order_id AND o.user_id = auth.uid() AND o.status = 'pending';
+$$;
+
+-- Cancel an order that hasn't started yet. Refunds come after this
+-- succeeded: the gateway's server side for real payments, the client
+-- for the local fake provider (see bookingService.cancelOrder)
+CREATE OR REPLACE FUNCTION cancel_order(order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result orders;
+BEGIN
+  UPDATE orders o
+  SET status = 'cancelled'
+  WHERE o.id = order_id
+    AND o.user_id = auth.uid()
+    AND o.status IN ('pending', 'confirmed')
+    AND o.start_date > current_date
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Order % cannot be cancelled', order_id USING ERRCODE = 'P0002';
+  END IF;
+  RETURN result;
+END;
+$$;
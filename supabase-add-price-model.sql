@@ -0,0 +1,51 @@
+-- Structured package prices (see types/money.ts, utils/money.ts)
+-- Amount in minor units (agorot / cents), ISO currency, and what the price covers.
+-- The old free-text `price` column stays for older clients.
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS price_amount_minor bigint CHECK (price_amount_minor > 0),
+  ADD COLUMN IF NOT EXISTS price_currency text CHECK (price_currency IN ('ILS', 'USD', 'EUR', 'GBP')),
+  ADD COLUMN IF NOT EXISTS price_basis text NOT NULL DEFAULT 'per_person'
+    CHECK (price_basis IN ('per_person', 'per_night', 'per_package'));
+
+-- Amount and currency are set together
+ALTER TABLE videos
+  ADD CONSTRAINT videos_price_complete
+  CHECK ((price_amount_minor IS NULL) = (price_currency IS NULL));
+
+-- Migrate existing strings ("₪3,500", "3 500 ש״ח", "$1,200.50", "€90 ללילה").
+-- Same rules as parsePrice() in utils/money.ts (keep the patterns in sync,
+-- currencies checked in the same order); rows it cannot read, or whose
+-- amount rounds to 0, stay NULL and the app keeps falling back to the text.
+WITH parsed AS (
+  SELECT
+    id,
+    price,
+    regexp_replace(
+      substring(price FROM '\d{1,3}(?:[,\s]\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?'),
+      '[,\s]', '', 'g'
+    )::numeric AS amount
+  FROM videos
+  WHERE price_amount_minor IS NULL
+    AND price ~ '\d'
+)
+UPDATE videos v
+SET
+  price_amount_minor = round(p.amount * 100),
+  price_currency = CASE
+    WHEN p.price ~* '₪|(?:^|[^א-ת])ש["״'']?ח(?![א-ת])|שקל|\ynis\y|\yils\y' THEN 'ILS'
+    WHEN p.price ~* '\$|דולר|\yusd\y' THEN 'USD'
+    WHEN p.price ~* '€|יורו|\yeur\y' THEN 'EUR'
+    WHEN p.price ~* '£|ליש"ט|\ygbp\y' THEN 'GBP'
+    ELSE 'ILS'
+  END,
+  price_basis = CASE
+    WHEN p.price ~* 'ללילה|/\s*לילה|per\s*night|/\s*night' THEN 'per_night'
+    WHEN p.price ~* 'לחבילה|per\s*package|/\s*package' THEN 'per_package'
+    ELSE 'per_person'
+  END
+FROM parsed p
+WHERE v.id = p.id
+  AND round(p.amount * 100) > 0;
+
+-- Sorting / filtering by price within a currency
+CREATE INDEX IF NOT EXISTS videos_price_idx ON videos (price_currency, price_amount_minor);
@@ -0,0 +1,10 @@
+-- Public numbers shown on a profile page (see services/profileService.ts)
+CREATE OR REPLACE FUNCTION profile_stats(target_profile uuid)
+RETURNS TABLE (videos_count bigint, likes_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*), coalesce(sum(v.likes_count), 0)::bigint
+  FROM videos v
+  WHERE v.user_id = target_profile;
+$$;
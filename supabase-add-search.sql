@@ -0,0 +1,108 @@
+-- Server side of Hebrew-aware search (see utils/searchNormalize.ts)
+-- The client sends already-normalized terms to search_videos(); the
+-- videos/profiles rows carry normalized copies of the searchable fields.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Mirror of normalizeSearchText() - KEEP THE TWO IN SYNC
+-- niqqud / accents removed, lowercase, final letters folded,
+-- geresh / gershayim unified, punctuation -> single spaces
+CREATE OR REPLACE FUNCTION normalize_search_text(input text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      translate(
+        lower(regexp_replace(
+          normalize(coalesce(input, ''), NFD),
+          '[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7\u0300-\u036F]', '', 'g'
+        )),
+        'ךםןףץ׳‘’`´״“”',
+        'כמנפצ' || repeat(chr(39), 5) || repeat('"', 3)
+      ),
+      '[]\u05BE\u2010-\u2015_/\\,.;:!?()[{}|#-]+', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- Normalized copies of the searchable fields
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS search_title text,
+  ADD COLUMN IF NOT EXISTS search_location text,
+  ADD COLUMN IF NOT EXISTS search_tags text;
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS search_name text;
+
+CREATE OR REPLACE FUNCTION videos_set_search_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_title := normalize_search_text(NEW.title);
+  NEW.search_location := normalize_search_text(NEW.location);
+  NEW.search_tags := normalize_search_text(array_to_string(NEW.tags, ' '));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER videos_search_columns
+BEFORE INSERT OR UPDATE OF title, location, tags ON videos
+FOR EACH ROW EXECUTE FUNCTION videos_set_search_columns();
+
+CREATE OR REPLACE FUNCTION profiles_set_search_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_name := normalize_search_text(concat_ws(' ', NEW.full_name, NEW.username));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_search_columns
+BEFORE INSERT OR UPDATE OF full_name, username ON profiles
+FOR EACH ROW EXECUTE FUNCTION profiles_set_search_columns();
+
+-- Backfill existing rows (fires the triggers)
+UPDATE videos SET title = title;
+UPDATE profiles SET full_name = full_name;
+
+CREATE INDEX IF NOT EXISTS videos_search_title_trgm ON videos USING gin (search_title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS videos_search_location_trgm ON videos USING gin (search_location gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS videos_search_tags_trgm ON videos USING gin (search_tags gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS profiles_search_name_trgm ON profiles USING gin (search_name gin_trgm_ops);
+
+-- Fuzzy search used by videoService.search()
+-- terms: output of expandQuery() (query + transliterations), already normalized
+-- search_mode: 'all' | 'title' | 'location' | 'tags' | 'influencer'
+-- Best match first, newest first on ties
+CREATE OR REPLACE FUNCTION search_videos(
+  terms text[],
+  search_mode text DEFAULT 'all',
+  page_offset integer DEFAULT 0,
+  page_limit integer DEFAULT 24
+)
+RETURNS SETOF videos
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT v.*
+  FROM videos v
+  LEFT JOIN profiles p ON p.id = v.user_id
+  CROSS JOIN LATERAL (
+    SELECT max(greatest(
+      CASE WHEN search_mode IN ('all', 'title') THEN word_similarity(t, v.search_title) END,
+      CASE WHEN search_mode IN ('all', 'location') THEN word_similarity(t, v.search_location) END,
+      CASE WHEN search_mode IN ('all', 'tags') THEN word_similarity(t, v.search_tags) END,
+      CASE WHEN search_mode IN ('all', 'influencer') THEN word_similarity(t, p.search_name) END
+    )) AS score
+    FROM unnest(terms) AS t
+  ) s
+  WHERE s.score >= 0.5
+  ORDER BY s.score DESC, v.created_at DESC, v.id DESC
+  OFFSET page_offset
+  LIMIT page_limit;
+$$;
@@ -0,0 +1,42 @@
+-- Storage bucket for uploaded videos (see services/uploadService.ts)
+-- Public read, each user writes only inside their own folder: <user_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'videos',
+  'videos',
+  true,
+  524288000, -- 500 MB
+  ARRAY['video/mp4', 'video/quicktime', 'video/webm']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Anyone can watch
+CREATE POLICY "Videos are publicly readable"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'videos');
+
+-- Upload only into your own folder
+CREATE POLICY "Users upload their own videos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'videos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Needed for x-upsert (resumed uploads overwrite the same object)
+CREATE POLICY "Users update their own videos"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'videos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users delete their own videos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'videos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
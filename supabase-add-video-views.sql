@@ -0,0 +1,58 @@
+-- Playback analytics: one row per qualified view (see services/playbackAnalytics.ts)
+-- Run after supabase-add-moderation.sql (uses is_video_owner)
+CREATE TABLE IF NOT EXISTS video_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id text NOT NULL UNIQUE,  -- generated on the device, makes retried batches idempotent
+  video_id uuid NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  watched_ms integer NOT NULL CHECK (watched_ms >= 0),
+  duration_ms integer CHECK (duration_ms >= 0),
+  completion real NOT NULL CHECK (completion BETWEEN 0 AND 1),
+  loops integer NOT NULL DEFAULT 0 CHECK (loops >= 0),
+  viewed_at timestamptz NOT NULL,  -- when the view ended on the device (may be offline, long before the upload)
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS video_views_video_viewed_idx ON video_views (video_id, viewed_at DESC);
+
+ALTER TABLE video_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users record their own views"
+ON video_views FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- Creators see the views of their videos, users their own history
+CREATE POLICY "Viewers and creators read views"
+ON video_views FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR is_video_owner(video_id));
+
+-- Aggregates on the video (views_count already exists)
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS tracked_views integer NOT NULL DEFAULT 0,  -- views that have a video_views row
+  ADD COLUMN IF NOT EXISTS watch_time_ms bigint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS avg_completion real;                       -- null = not watched yet
+
+CREATE OR REPLACE FUNCTION video_views_aggregate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE videos
+  SET
+    views_count = views_count + 1,
+    watch_time_ms = watch_time_ms + NEW.watched_ms,
+    avg_completion = (coalesce(avg_completion, 0) * tracked_views + NEW.completion) / (tracked_views + 1),
+    tracked_views = tracked_views + 1
+  WHERE id = NEW.video_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS video_views_aggregate_trigger ON video_views;
+CREATE TRIGGER video_views_aggregate_trigger
+AFTER INSERT ON video_views
+FOR EACH ROW EXECUTE FUNCTION video_views_aggregate();
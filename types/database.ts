@@ -1,3 +1,6 @@
+import { Itinerary } from './itinerary';
+import { CurrencyCode, PriceBasis } from './money';
+
 export type Profile = {
   id: string;
   username: string | null;
@@ -8,6 +11,8 @@ export type Profile = {
   created_at: string;
 };
 
+export type VideoCategory = 'Trips' | 'Lodging' | 'Entertainment';
+
 export type Video = {
   id: string;
   user_id: string;
@@ -15,20 +20,39 @@ export type Video = {
   description: string | null;
   video_url: string;
   thumbnail_url: string | null;
-  category: 'Trips' | 'Lodging' | 'Entertainment';
+  category: VideoCategory;
   location: string | null;
-  price: string | null;
+  price: string | null;                   // Legacy free text ("₪3,500"), see utils/money.ts
+  price_amount_minor: number | null;      // Structured price (types/money.ts)
+  price_currency: CurrencyCode | null;
+  price_basis: PriceBasis | null;
   days: number | null;
-  itinerary: any;
+  itinerary: Itinerary | null; // JSONB, run through parseItinerary() before use
   tags: string[] | null;
   likes_count: number;
   comments_count: number;
   shares_count: number;
   views_count: number;
+  tracked_views: number;                  // Views recorded in video_views (supabase-add-video-views.sql)
+  watch_time_ms: number;
+  avg_completion: number | null;          // 0..1, null = not watched yet
   created_at: string;
   profile?: Profile;
 };
 
+export type VideoView = {
+  id: string;
+  client_id: string;
+  video_id: string;
+  user_id: string;
+  watched_ms: number;
+  duration_ms: number | null;
+  completion: number;
+  loops: number;
+  viewed_at: string;
+  created_at: string;
+};
+
 export type Like = {
   id: string;
   user_id: string;
@@ -43,18 +67,105 @@ export type Save = {
   created_at: string;
 };
 
+export type Collection = {
+  id: string;
+  user_id: string;
+  name: string;
+  position: number;
+  share_token: string;
+  is_shared: boolean;
+  created_at: string;
+};
+
+export type CollectionItem = {
+  id: string;
+  collection_id: string;
+  video_id: string;
+  user_id: string;
+  created_at: string;
+};
+
 export type Comment = {
   id: string;
   user_id: string;
   video_id: string;
+  parent_id: string | null;  // Root comment of the thread, null for top-level
   text: string;
+  replies_count: number;     // Top-level comments only
+  likes_count: number;
+  hidden: boolean;           // Hidden by the video's creator / reports
   created_at: string;
   profile?: Profile;
 };
 
+export type CommentLike = {
+  user_id: string;
+  comment_id: string;
+  created_at: string;
+};
+
+export type CommentReportReason = 'spam' | 'abuse' | 'hate' | 'other';
+
+export type ModerationAction =
+  | 'report'
+  | 'hide'
+  | 'unhide'
+  | 'delete'
+  | 'auto_hide'
+  | 'auto_reject';
+
+export type ModerationLogEntry = {
+  id: string;
+  actor_id: string | null;   // null = automatic (report threshold)
+  video_id: string | null;
+  comment_id: string | null;
+  action: ModerationAction;
+  reason: string | null;
+  created_at: string;
+};
+
 export type Follow = {
   id: string;
   follower_id: string;
   following_id: string;
   created_at: string;
 };
+
+export type OrderStatus = 'pending' | 'confirmed' | 'cancelled' | 'failed';
+
+export type Order = {
+  id: string;
+  user_id: string;
+  video_id: string;
+  start_date: string;        // YYYY-MM-DD
+  end_date: string;          // YYYY-MM-DD (inclusive)
+  travellers: number;
+  unit_price: number;        // Major units; per traveller / package / stay (see utils/booking.ts)
+  total_price: number;       // Major units
+  currency: CurrencyCode;   // ISO 4217
+  status: OrderStatus;
+  payment_provider: string | null;
+  payment_reference: string | null;
+  created_at: string;
+  video?: Video;
+};
+
+// Rows of the creator dashboard RPCs (supabase-add-creator-analytics.sql)
+export type CreatorDailyStats = {
+  day: string;                    // YYYY-MM-DD, in the requested time zone
+  views: number;
+  watch_time_ms: number;
+  avg_completion: number | null;  // 0..1, null = no views that day
+  likes: number;
+  saves: number;
+  comments: number;
+  bookings: number;               // Confirmed orders
+};
+
+export type CreatorVideoStats = Omit<CreatorDailyStats, 'day'> & {
+  video_id: string;
+  title: string;
+  thumbnail_url: string | null;
+  created_at: string;
+  shares: number;                 // All-time (shares have no history)
+};
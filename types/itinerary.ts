@@ -0,0 +1,77 @@
+/**
+ * ./types/itinerary.ts
+ *
+ * Typed model for a trip itinerary (day-by-day plan).
+ *
+ * Matches the JSONB stored in `videos.itinerary` (see the SQL seed):
+ *
+ * [
+ *   { "day": 1, "activities": [{ "time": "11:00", "activity": "..." }] },
+ *   { "day": 4, "isFree": true, "activities": [{ "time": "", "activity": "יום חופשי" }] }
+ * ]
+ *
+ * Raw JSON should never be trusted — run it through parseItinerary()
+ * (utils/itinerary.ts) to get a valid Itinerary plus a list of issues.
+ */
+
+/**
+ * Single timed activity inside a day.
+ * `time` is "HH:MM" (24h) or an empty string when it has no fixed time.
+ */
+export type Activity = {
+  time: string;
+  activity: string;
+};
+
+/**
+ * One day of the trip.
+ * `day` is 1-based and unique within the itinerary.
+ */
+export type ItineraryDay = {
+  day: number;
+  isFree?: boolean;
+  activities: Activity[];
+};
+
+/**
+ * Full trip plan, ordered by day.
+ */
+export type Itinerary = ItineraryDay[];
+
+/**
+ * Machine-readable issue codes reported by the validator.
+ */
+export type ItineraryIssueCode =
+  | 'not_an_array'
+  | 'invalid_day'
+  | 'invalid_day_number'
+  | 'duplicate_day'
+  | 'missing_day'
+  | 'unsorted_days'
+  | 'invalid_activity'
+  | 'invalid_time'
+  | 'unsorted_times'
+  | 'empty_day'
+  | 'too_many_days';
+
+/**
+ * Structured validation issue.
+ * - path    : where it happened, e.g. [2, 'activities', 1, 'time']
+ * - repaired: true when the parser fixed it automatically
+ */
+export type ItineraryIssue = {
+  code: ItineraryIssueCode;
+  path: (string | number)[];
+  message: string;
+  repaired: boolean;
+};
+
+/**
+ * Result of parseItinerary().
+ * `valid` is true only when no issues were found at all.
+ */
+export type ItineraryParseResult = {
+  itinerary: Itinerary;
+  issues: ItineraryIssue[];
+  valid: boolean;
+};
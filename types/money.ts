@@ -0,0 +1,48 @@
+/**
+ * ./types/money.ts
+ *
+ * Typed money model for package prices (replaces free-text "₪3,500").
+ *
+ * Amounts are integers in the currency's MINOR unit (agorot, cents),
+ * so they can be summed, compared and sorted without floating point
+ * surprises: ₪3,500 → { amountMinor: 350000, currency: 'ILS' }.
+ *
+ * Stored in `videos.price_amount_minor / price_currency / price_basis`
+ * (see supabase-add-price-model.sql). Parsing + formatting live in
+ * utils/money.ts.
+ */
+
+/**
+ * ISO 4217 codes we accept for prices.
+ */
+export type CurrencyCode = 'ILS' | 'USD' | 'EUR' | 'GBP';
+
+/**
+ * What one price covers:
+ * - per_person:  one traveller, whole package
+ * - per_night:   one night (room / lodging rate)
+ * - per_package: the whole package, any number of travellers
+ */
+export type PriceBasis = 'per_person' | 'per_night' | 'per_package';
+
+export type Money = {
+  amountMinor: number;     // Integer, minor units
+  currency: CurrencyCode;
+};
+
+export type Price = Money & {
+  basis: PriceBasis;
+};
+
+/**
+ * Exchange rates, all relative to `base`:
+ * 1 base = rates[X] units of X (rates[base] is always 1).
+ * Bundled with the app, cached on device and refreshed from a
+ * RateSource (services/currencyService.ts).
+ */
+export type RateTable = {
+  base: CurrencyCode;
+  rates: Record<CurrencyCode, number>;
+  fetchedAt: string;       // ISO timestamp the rates are valid for
+  source: string;          // "bundled", "frankfurter"...
+};
@@ -0,0 +1,61 @@
+/**
+ * ./types/video.ts
+ *
+ * View model for a single video, as rendered by the app.
+ *
+ * Purpose:
+ * --------------------------------------------------------------------
+ * Database rows (`Video` in types/database.ts) use column names such as
+ * `video_url`, `likes_count` and a joined `profile`. The UI reads a
+ * flatter, always-populated shape: `uri`, `likes`, `influencer.name`...
+ *
+ * Rows are converted with toVideoData() (utils/videoMapper.ts), so
+ * every screen and feed works with the same type no matter whether the
+ * data came from Supabase or from local mock data.
+ */
+
+import { VideoCategory } from './database';
+import { Itinerary, ItineraryIssue } from './itinerary';
+import { Price } from './money';
+
+/**
+ * What a video feed shows: everything, a single category, only
+ * videos of creators the current user follows, or everything
+ * ranked for the user ('ForYou', see utils/feedRanking.ts).
+ */
+export type FeedFilter = 'All' | VideoCategory | 'Following' | 'ForYou';
+
+/**
+ * Author of a video, flattened from the joined `profiles` row.
+ */
+export type VideoInfluencer = {
+  id: string;              // Profile ID (same as videos.user_id)
+  name: string;            // Display name (full_name → username → fallback)
+  username: string | null; // Unique handle, if set
+  avatar: string;          // Emoji or image URL
+  verified: boolean;
+};
+
+/**
+ * Single video as used by feeds, grids and modals.
+ */
+export type VideoData = {
+  id: string;
+  uri: string;              // Playable video URL
+  thumbnail: string;        // Image URL for grids
+  category: VideoCategory;
+  influencer: VideoInfluencer;
+  title: string;
+  description: string | null;
+  location: string;
+  price: Price | null;      // null = no price (cannot be booked)
+  days: number | null;
+  itinerary: Itinerary;     // Validated + repaired (utils/itinerary.ts)
+  itineraryIssues: ItineraryIssue[];
+  tags: string[];
+  likes: number;
+  comments: number;
+  shares: number;
+  views: number;
+  createdAt: string;        // ISO timestamp (used for ordering)
+};
@@ -0,0 +1,138 @@
+import { VideoData } from '../../types/video';
+import {
+  buildTasteProfile,
+  EMPTY_TASTE,
+  rankForYou,
+  RankingContext,
+  scoreForYou,
+} from '../feedRanking';
+
+const NOW = Date.parse('2025-06-01T12:00:00.000Z');
+const HOUR = 3_600_000;
+
+// A candidate with neutral stats; each test changes only what it checks
+function video(id: string, overrides: Partial<VideoData> = {}): VideoData {
+  return {
+    id,
+    uri: `https://example.com/${id}.mp4`,
+    thumbnail: `https://example.com/${id}.jpg`,
+    category: 'Trips',
+    influencer: { id: `creator-${id}`, name: id, username: null, avatar: '👤', verified: false },
+    title: id,
+    description: null,
+    location: 'Athens, Greece',
+    price: null,
+    days: null,
+    itinerary: [],
+    itineraryIssues: [],
+    tags: [],
+    likes: 10,
+    comments: 2,
+    shares: 1,
+    views: 200,
+    createdAt: new Date(NOW - 24 * HOUR).toISOString(),
+    ...overrides,
+  };
+}
+
+function context(overrides: Partial<RankingContext> = {}): RankingContext {
+  return { now: NOW, taste: EMPTY_TASTE, likedIds: new Set(), savedIds: new Set(), ...overrides };
+}
+
+const ids = (videos: VideoData[]) => videos.map((v) => v.id);
+
+describe('buildTasteProfile', () => {
+  it('weighs saves twice as much as likes and scales the top entry to 1', () => {
+    const taste = buildTasteProfile(
+      [video('l1', { category: 'Lodging' }), video('l2', { category: 'Lodging' })],
+      [video('s1', { category: 'Trips' }), video('s2', { category: 'Trips' })]
+    );
+
+    expect(taste.categories).toEqual({ Trips: 1, Lodging: 0.5 });
+  });
+
+  it('learns every part of a location and normalized tags', () => {
+    const taste = buildTasteProfile([video('a', { location: 'Santorini, Greece', tags: ['Beach'] })], []);
+
+    expect(Object.keys(taste.locations).sort()).toEqual(['greece', 'santorini', 'santorini greece']);
+    expect(taste.tags).toEqual({ beach: 1 });
+  });
+
+  it('is empty without likes and saves', () => {
+    expect(buildTasteProfile([], [])).toEqual(EMPTY_TASTE);
+  });
+});
+
+describe('scoreForYou', () => {
+  it('prefers videos that match the taste profile', () => {
+    const taste = buildTasteProfile([video('liked', { category: 'Lodging', location: 'Rome, Italy' })], []);
+    const match = video('match', { category: 'Lodging', location: 'Rome, Italy' });
+    const other = video('other');
+
+    expect(scoreForYou(match, context({ taste }))).toBeGreaterThan(scoreForYou(other, context({ taste })));
+  });
+
+  it('prefers fresh videos, but never drops old ones to zero', () => {
+    const fresh = video('fresh', { createdAt: new Date(NOW - HOUR).toISOString() });
+    const old = video('old', { createdAt: new Date(NOW - 365 * 24 * HOUR).toISOString() });
+
+    expect(scoreForYou(fresh, context())).toBeGreaterThan(scoreForYou(old, context()));
+    expect(scoreForYou(old, context())).toBeGreaterThan(0);
+  });
+
+  it('pushes down videos the user already liked or saved', () => {
+    const candidate = video('seen');
+    const unseen = scoreForYou(candidate, context());
+
+    expect(scoreForYou(candidate, context({ likedIds: new Set(['seen']) }))).toBeLessThan(unseen);
+    expect(scoreForYou(candidate, context({ savedIds: new Set(['seen']) }))).toBeLessThan(unseen);
+  });
+
+  it('uses watch completion when there is one', () => {
+    const candidate = video('watched');
+
+    expect(scoreForYou(candidate, context({ completion: { watched: 0.9 } }))).toBeGreaterThan(
+      scoreForYou(candidate, context({ completion: { watched: 0.1 } }))
+    );
+  });
+});
+
+describe('rankForYou', () => {
+  const candidates = [
+    video('a', { likes: 300, views: 1000 }),
+    video('b', { likes: 50, views: 1000 }),
+    video('c', { likes: 120, views: 1000 }),
+    video('d'),
+    video('e'),
+  ];
+
+  it('orders by score, equal scores by id', () => {
+    expect(ids(rankForYou(candidates, context()))).toEqual(['a', 'c', 'b', 'd', 'e']);
+  });
+
+  it('gives the same order for the same input, whatever the input order', () => {
+    const first = ids(rankForYou(candidates, context()));
+    const reversed = ids(rankForYou([...candidates].reverse(), context()));
+
+    expect(reversed).toEqual(first);
+  });
+
+  it('spreads out videos of the same creator', () => {
+    const prolific = { id: 'creator-x', name: 'x', username: null, avatar: '👤', verified: false };
+    const ranked = rankForYou(
+      [
+        video('x1', { influencer: prolific, likes: 300, views: 1000 }),
+        video('x2', { influencer: prolific, likes: 290, views: 1000 }),
+        video('x3', { influencer: prolific, likes: 280, views: 1000 }),
+        video('y1', { likes: 200, views: 1000 }),
+      ],
+      context()
+    );
+
+    expect(ids(ranked).slice(0, 2)).toEqual(['x1', 'y1']);
+  });
+
+  it('keeps every candidate exactly once', () => {
+    expect(ids(rankForYou(candidates, context())).sort()).toEqual(ids(candidates).sort());
+  });
+});
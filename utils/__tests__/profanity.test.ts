@@ -0,0 +1,29 @@
+import { compileWordLists, ENGLISH_WORDS, findProfanity, HEBREW_WORDS } from '../profanity';
+
+const LISTS = compileWordLists([HEBREW_WORDS, ENGLISH_WORDS]);
+
+describe('findProfanity', () => {
+  it('finds listed words with character swaps undone', () => {
+    expect(findProfanity('what a sh1t hotel', LISTS)).toBe('shit');
+    expect(findProfanity('you a$$', LISTS)).toBe('ass');
+  });
+
+  it('leaves plain numbers alone', () => {
+    expect(findProfanity('Room 455, flight LY 315', LISTS)).toBeNull();
+    expect(findProfanity('Paid 455 for 3 nights, 5105 in total', LISTS)).toBeNull();
+    expect(findProfanity('₪455 ל-4 לילות', LISTS)).toBeNull();
+  });
+
+  it('only matches short words exactly', () => {
+    expect(findProfanity('first class seats', LISTS)).toBeNull();
+  });
+
+  it('strips Hebrew prefixes and matches phrases', () => {
+    expect(findProfanity('והמניאק הזה', LISTS)).toBe('והמניאק');
+    expect(findProfanity('כוס אמק', LISTS)).toBe('כוס אמק');
+  });
+
+  it('skips @mentions', () => {
+    expect(findProfanity('@ass123 great trip', LISTS)).toBeNull();
+  });
+});
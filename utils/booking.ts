@@ -0,0 +1,157 @@
+/**
+ * ./utils/booking.ts
+ *
+ * Pricing + date helpers for the booking flow (components/BookingModal.tsx).
+ *
+ * Pricing rules (by `video.price.basis`, amounts in minor units):
+ * --------------------------------------------------------------------
+ * ✔ per_person:  package price for ONE traveller for the whole package
+ *   (`video.days` days). Booking a different length scales it per day:
+ *      unit = price × tripDays / packageDays   (rounded)
+ *      total = unit × travellers
+ * ✔ per_package: same scaling, but the unit covers everyone (total = unit)
+ * ✔ per_night:   unit = price × nights (tripDays - 1, at least 1), total = unit
+ * ✔ Packages without `days` are not scaled
+ *
+ * Dates are plain "YYYY-MM-DD" strings (local calendar days, no time
+ * zone surprises), end date is inclusive: 7 days from 2025-06-01 end
+ * on 2025-06-07.
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * quoteBooking(video, { startDate: '2025-06-01', tripDays: 7, travellers: 2 })
+ *   → { endDate: '2025-06-07', unitAmountMinor: 350000, totalMinor: 700000, currency: 'ILS', ... }
+ */
+
+import { VideoData } from '../types/video';
+import { Order } from '../types/database';
+import { CurrencyCode, Money, PriceBasis } from '../types/money';
+import { toMinorUnits } from './money';
+
+export const MAX_TRAVELLERS = 10;
+export const MAX_TRIP_DAYS = 30;
+
+export type BookingSelection = {
+  startDate: string;   // YYYY-MM-DD
+  tripDays: number;
+  travellers: number;
+};
+
+export type BookingQuote = BookingSelection & {
+  endDate: string;            // YYYY-MM-DD (inclusive)
+  basis: PriceBasis;
+  unitAmountMinor: number;    // Per traveller / package / whole stay (see basis)
+  totalMinor: number;
+  currency: CurrencyCode;
+};
+
+/**
+ * Nights in a stay of `tripDays` calendar days (at least one).
+ */
+export function nightsFor(tripDays: number): number {
+  return Math.max(1, tripDays - 1);
+}
+
+/**
+ * Price + dates for a selection, or null if the video has no price.
+ */
+export function quoteBooking(
+  video: Pick<VideoData, 'price' | 'days'>,
+  selection: BookingSelection
+): BookingQuote | null {
+  const { price, days } = video;
+  if (!price) return null;
+
+  const scaled = days
+    ? Math.round((price.amountMinor * selection.tripDays) / days)
+    : price.amountMinor;
+
+  let unitAmountMinor: number;
+  let totalMinor: number;
+  switch (price.basis) {
+    case 'per_person':
+      unitAmountMinor = scaled;
+      totalMinor = scaled * selection.travellers;
+      break;
+    case 'per_package':
+      unitAmountMinor = scaled;
+      totalMinor = scaled;
+      break;
+    case 'per_night':
+      unitAmountMinor = price.amountMinor * nightsFor(selection.tripDays);
+      totalMinor = unitAmountMinor;
+      break;
+  }
+
+  return {
+    ...selection,
+    endDate: addDays(selection.startDate, selection.tripDays - 1),
+    basis: price.basis,
+    unitAmountMinor,
+    totalMinor,
+    currency: price.currency,
+  };
+}
+
+/**
+ * Quote total as Money.
+ */
+export function quoteTotal(quote: BookingQuote): Money {
+  return { amountMinor: quote.totalMinor, currency: quote.currency };
+}
+
+/**
+ * Order total as Money (orders store major units, see supabase-add-orders.sql).
+ */
+export function orderTotal(order: Pick<Order, 'total_price' | 'currency'>): Money {
+  return {
+    amountMinor: toMinorUnits(Number(order.total_price), order.currency),
+    currency: order.currency,
+  };
+}
+
+/* --------------------------------------------------------------------
+   DATES
+-------------------------------------------------------------------- */
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Local calendar day of a Date as "YYYY-MM-DD".
+ */
+export function toISODate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromISODate(iso: string): Date {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * Shift a "YYYY-MM-DD" date by whole days (negative = back).
+ */
+export function addDays(iso: string, days: number): string {
+  const date = fromISODate(iso);
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+}
+
+/**
+ * Earliest date a trip can start (tomorrow).
+ */
+export function earliestStartDate(now = new Date()): string {
+  return addDays(toISODate(now), 1);
+}
+
+/**
+ * "01/06 – 07/06/2025" (day/month, Israeli order).
+ */
+export function formatDateRange(startDate: string, endDate: string): string {
+  const start = fromISODate(startDate);
+  const end = fromISODate(endDate);
+  const short = (d: Date) => `${pad(d.getDate())}/${pad(d.getMonth() + 1)}`;
+  return `${short(start)} – ${short(end)}/${end.getFullYear()}`;
+}
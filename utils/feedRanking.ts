@@ -0,0 +1,238 @@
+/**
+ * ./utils/feedRanking.ts
+ *
+ * "For You" ranking of the home feed.
+ *
+ * What this module does:
+ * --------------------------------------------------------------------
+ * ✔ buildTasteProfile(): what the user is into, learned from the
+ *   videos they liked and saved (categories, tags, locations)
+ * ✔ scoreForYou(): one number per candidate video, from
+ *    - engagement: likes / shares / comments, per view
+ *    - watch completion (videos.avg_completion, recorded by
+ *      services/playbackAnalytics.ts; neutral until watched)
+ *    - affinity with the taste profile
+ *    - freshness: exponential decay with the age of the video
+ *   Videos the user already liked or saved are pushed down.
+ * ✔ rankForYou(): orders candidates by score, then spreads creators
+ *   out so one creator never fills the screen (diversity)
+ *
+ * Important notes:
+ * --------------------------------------------------------------------
+ * • Pure and deterministic: no I/O, no Date.now(), no randomness.
+ *   The caller passes `now`, ties are broken by video id. The same
+ *   input always produces the same order, so fixtures are enough
+ *   to test it (utils/__tests__/feedRanking.test.ts, `npm test`).
+ * • Candidates are loaded by hooks/usePaginatedVideos.ts (newest
+ *   first, one batch per page) and ranked batch by batch.
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const taste = buildTasteProfile(likedVideos, savedVideos);
+ * rankForYou(candidates, { now: Date.now(), taste, likedIds, savedIds });
+ */
+
+import { VideoData } from '../types/video';
+import { normalizeSearchText } from './searchNormalize';
+
+/**
+ * How much the user likes each category / tag / location, 0..1
+ * (1 = the most frequent one among their likes and saves).
+ */
+export type TasteProfile = {
+  categories: Record<string, number>;
+  tags: Record<string, number>;
+  locations: Record<string, number>;
+};
+
+/**
+ * Everything about the user the ranking depends on.
+ */
+export type RankingContext = {
+  now: number;                            // ms timestamp, passed in to stay deterministic
+  taste: TasteProfile;
+  likedIds: ReadonlySet<string>;
+  savedIds: ReadonlySet<string>;
+  completion?: Readonly<Record<string, number>>; // Average watch completion per video id, 0..1
+};
+
+/**
+ * Weights of the score components (they add up to 1).
+ */
+export const RANKING_WEIGHTS = {
+  engagement: 0.35,
+  completion: 0.2,
+  affinity: 0.45,
+};
+
+// A video loses half of its freshness every FRESHNESS_HALF_LIFE_HOURS...
+const FRESHNESS_HALF_LIFE_HOURS = 72;
+
+// ...but keeps at least this share of its score, so great old videos still show
+const FRESHNESS_FLOOR = 0.25;
+
+// Completion assumed for videos nobody watched yet
+const DEFAULT_COMPLETION = 0.5;
+
+// Views added to every video, so 3 likes out of 4 views don't beat 3k out of 10k
+const PRIOR_VIEWS = 50;
+
+// Weight of a saved video in the taste profile (a like counts 1)
+const SAVE_WEIGHT = 2;
+
+// Score multiplier for videos the user already liked or saved
+const SEEN_PENALTY = 0.3;
+
+// Each earlier pick by the same creator multiplies the score by this
+const CREATOR_REPEAT_PENALTY = 0.6;
+
+// Affinity split between category, tags and location
+const AFFINITY_WEIGHTS = { category: 0.4, tags: 0.35, location: 0.25 };
+
+export const EMPTY_TASTE: TasteProfile = { categories: {}, tags: {}, locations: {} };
+
+/**
+ * Comparable keys of a location: the full text and every
+ * comma separated part ("Santorini, Greece" → also "greece").
+ */
+function locationKeys(location: string): string[] {
+  const parts = location.split(',').map(normalizeSearchText).filter(Boolean);
+  const full = normalizeSearchText(location);
+  return Array.from(new Set(full ? [full, ...parts] : parts));
+}
+
+/**
+ * Scale counts so the largest one becomes 1.
+ */
+function normalizeCounts(counts: Map<string, number>): Record<string, number> {
+  const max = Math.max(0, ...Array.from(counts.values()));
+  const result: Record<string, number> = {};
+  if (max === 0) return result;
+
+  counts.forEach((count, key) => {
+    result[key] = count / max;
+  });
+  return result;
+}
+
+function add(counts: Map<string, number>, key: string, weight: number) {
+  if (key) counts.set(key, (counts.get(key) ?? 0) + weight);
+}
+
+/**
+ * Taste profile from the videos the user liked and saved.
+ */
+export function buildTasteProfile(liked: VideoData[], saved: VideoData[]): TasteProfile {
+  const categories = new Map<string, number>();
+  const tags = new Map<string, number>();
+  const locations = new Map<string, number>();
+
+  const collect = (videos: VideoData[], weight: number) => {
+    for (const video of videos) {
+      add(categories, video.category, weight);
+      video.tags.forEach((tag) => add(tags, normalizeSearchText(tag), weight));
+      locationKeys(video.location).forEach((key) => add(locations, key, weight));
+    }
+  };
+
+  collect(liked, 1);
+  collect(saved, SAVE_WEIGHT);
+
+  return {
+    categories: normalizeCounts(categories),
+    tags: normalizeCounts(tags),
+    locations: normalizeCounts(locations),
+  };
+}
+
+/**
+ * Engagement of a video, 0..1: interactions per view (smoothed),
+ * blended with overall popularity.
+ */
+function engagementScore(video: VideoData): number {
+  const interactions = video.likes + 2 * video.comments + 3 * video.shares;
+  const rate = Math.min(1, (interactions / (video.views + PRIOR_VIEWS)) * 4);
+  const popularity = Math.min(1, Math.log10(1 + interactions) / 6);
+  return 0.6 * rate + 0.4 * popularity;
+}
+
+/**
+ * How well a video matches the taste profile, 0..1.
+ */
+function affinityScore(video: VideoData, taste: TasteProfile): number {
+  const category = taste.categories[video.category] ?? 0;
+  const tags = Math.max(0, ...video.tags.map((tag) => taste.tags[normalizeSearchText(tag)] ?? 0));
+  const location = Math.max(0, ...locationKeys(video.location).map((key) => taste.locations[key] ?? 0));
+
+  return (
+    AFFINITY_WEIGHTS.category * category +
+    AFFINITY_WEIGHTS.tags * tags +
+    AFFINITY_WEIGHTS.location * location
+  );
+}
+
+/**
+ * Freshness multiplier, FRESHNESS_FLOOR..1.
+ */
+function freshness(video: VideoData, now: number): number {
+  const created = Date.parse(video.createdAt);
+  const ageHours = Number.isNaN(created) ? Infinity : Math.max(0, (now - created) / 3_600_000);
+  const decay = Math.pow(0.5, ageHours / FRESHNESS_HALF_LIFE_HOURS);
+  return FRESHNESS_FLOOR + (1 - FRESHNESS_FLOOR) * decay;
+}
+
+// Plain code unit order (localeCompare would depend on the device locale)
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * "For You" score of a single video (higher = show earlier).
+ */
+export function scoreForYou(video: VideoData, context: RankingContext): number {
+  const completion = Math.min(1, Math.max(0, context.completion?.[video.id] ?? DEFAULT_COMPLETION));
+
+  const base =
+    RANKING_WEIGHTS.engagement * engagementScore(video) +
+    RANKING_WEIGHTS.completion * completion +
+    RANKING_WEIGHTS.affinity * affinityScore(video, context.taste);
+
+  const seen = context.likedIds.has(video.id) || context.savedIds.has(video.id);
+  return base * freshness(video, context.now) * (seen ? SEEN_PENALTY : 1);
+}
+
+/**
+ * Order candidates for the "For You" feed.
+ * Greedy: always take the best remaining video, after lowering the
+ * score of creators that were already picked.
+ */
+export function rankForYou(candidates: VideoData[], context: RankingContext): VideoData[] {
+  const remaining = candidates
+    .map((video) => ({ video, score: scoreForYou(video, context) }))
+    .sort((a, b) => b.score - a.score || compareIds(a.video.id, b.video.id));
+
+  const picks = new Map<string, number>(); // creator id → videos picked so far
+  const ranked: VideoData[] = [];
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const repeats = picks.get(candidate.video.influencer.id) ?? 0;
+      const score = candidate.score * Math.pow(CREATOR_REPEAT_PENALTY, repeats);
+      // Strictly greater: equal scores keep the (score, id) order
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    const creatorId = best.video.influencer.id;
+    picks.set(creatorId, (picks.get(creatorId) ?? 0) + 1);
+    ranked.push(best.video);
+  }
+
+  return ranked;
+}
@@ -0,0 +1,334 @@
+/**
+ * ./utils/itinerary.ts
+ *
+ * Runtime validator / parser for trip itineraries.
+ *
+ * Purpose:
+ * --------------------------------------------------------------------
+ * `videos.itinerary` is free-form JSONB. Creators (and old data) can
+ * produce missing days, duplicate day numbers, unsorted times, etc.
+ * This file turns any raw value into a valid `Itinerary` and reports
+ * every problem it found as a structured ItineraryIssue.
+ *
+ * Modes:
+ * --------------------------------------------------------------------
+ * ✔ repair: true (default)
+ *      - Fixes what it can and flags each issue with repaired: true
+ *      - Used when READING data (feed, ItineraryModal)
+ * ✔ repair: false
+ *      - Reports issues only; the returned itinerary is empty when
+ *        anything is wrong
+ *      - Used when WRITING data (upload flow), so bad input is rejected
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const { itinerary, issues, valid } = parseItinerary(row.itinerary, {
+ *   expectedDays: row.days,
+ * });
+ */
+
+import {
+  Activity,
+  Itinerary,
+  ItineraryDay,
+  ItineraryIssue,
+  ItineraryIssueCode,
+  ItineraryParseResult,
+} from '../types/itinerary';
+
+type ParseOptions = {
+  /** Number of days the trip is supposed to have (videos.days) */
+  expectedDays?: number | null;
+  /** Fix problems instead of only reporting them (default: true) */
+  repair?: boolean;
+};
+
+/**
+ * Text used for auto-inserted / emptied days (same as the seed data).
+ */
+export const FREE_DAY_LABEL = 'יום חופשי';
+
+/**
+ * "HH:MM" 24h time, hour may have 1 digit ("9:30").
+ */
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Thrown by services when an itinerary is rejected on write.
+ */
+export class ItineraryValidationError extends Error {
+  issues: ItineraryIssue[];
+
+  constructor(issues: ItineraryIssue[]) {
+    super(issues[0]?.message ?? 'Invalid itinerary');
+    this.name = 'ItineraryValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Human-readable (Hebrew) message per issue code.
+ */
+function describe(code: ItineraryIssueCode, day?: number): string {
+  const dayLabel = day !== undefined ? `יום ${day}: ` : '';
+
+  switch (code) {
+    case 'not_an_array':
+      return 'המסלול אינו רשימת ימים';
+    case 'invalid_day':
+      return 'נמצא יום לא תקין במסלול';
+    case 'invalid_day_number':
+      return 'נמצא יום ללא מספר תקין';
+    case 'duplicate_day':
+      return `${dayLabel}מופיע יותר מפעם אחת`;
+    case 'missing_day':
+      return `${dayLabel}חסר במסלול`;
+    case 'unsorted_days':
+      return 'הימים אינם מסודרים לפי הסדר';
+    case 'invalid_activity':
+      return `${dayLabel}פעילות ללא תיאור`;
+    case 'invalid_time':
+      return `${dayLabel}שעה לא תקינה (יש להשתמש בפורמט HH:MM)`;
+    case 'unsorted_times':
+      return `${dayLabel}הפעילויות אינן מסודרות לפי שעה`;
+    case 'empty_day':
+      return `${dayLabel}אין פעילויות`;
+    case 'too_many_days':
+      return `${dayLabel}חורג ממספר הימים של הטיול`;
+  }
+}
+
+/**
+ * Normalize a time string to "HH:MM". Returns null when invalid.
+ */
+export function normalizeTime(time: string): string | null {
+  const trimmed = time.trim();
+  if (!trimmed) return '';
+
+  const match = TIME_PATTERN.exec(trimmed);
+  if (!match) return null;
+
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+/**
+ * Sort activities by time; untimed activities keep their order at the end.
+ */
+export function sortActivities(activities: Activity[]): Activity[] {
+  const timed = activities.filter((a) => a.time);
+  const untimed = activities.filter((a) => !a.time);
+  return [...timed.sort((a, b) => a.time.localeCompare(b.time)), ...untimed];
+}
+
+/**
+ * Build the placeholder content of a free day.
+ */
+export function createFreeDay(day: number): ItineraryDay {
+  return { day, isFree: true, activities: [{ time: '', activity: FREE_DAY_LABEL }] };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate a raw itinerary value.
+ */
+export function parseItinerary(raw: unknown, options: ParseOptions = {}): ItineraryParseResult {
+  const repair = options.repair ?? true;
+  const expectedDays = options.expectedDays ?? null;
+  const issues: ItineraryIssue[] = [];
+
+  const report = (
+    code: ItineraryIssueCode,
+    path: (string | number)[],
+    day?: number,
+    repaired = repair
+  ) => {
+    issues.push({ code, path, message: describe(code, day), repaired });
+  };
+
+  // Nothing stored is a valid (empty) itinerary
+  if (raw === null || raw === undefined) {
+    return { itinerary: [], issues, valid: true };
+  }
+
+  // JSONB sometimes arrives as a string
+  let value: unknown = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = null;
+    }
+  }
+
+  if (!Array.isArray(value)) {
+    report('not_an_array', [], undefined, false);
+    return { itinerary: [], issues, valid: false };
+  }
+
+  const byDay = new Map<number, ItineraryDay>();
+  const unnumbered: ItineraryDay[] = [];
+  let previousDay = 0;
+  let daysUnsorted = false;
+
+  value.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      report('invalid_day', [index]);
+      return;
+    }
+
+    const rawDay = entry.day;
+    const dayNumber =
+      typeof rawDay === 'number' && Number.isInteger(rawDay) && rawDay >= 1 ? rawDay : null;
+
+    // Activities
+    const rawActivities = Array.isArray(entry.activities) ? entry.activities : [];
+    if (!Array.isArray(entry.activities)) {
+      report('invalid_activity', [index, 'activities'], dayNumber ?? undefined);
+    }
+
+    const activities: Activity[] = [];
+    rawActivities.forEach((a: unknown, aIndex: number) => {
+      const path = [index, 'activities', aIndex];
+
+      if (!isRecord(a) || typeof a.activity !== 'string' || !a.activity.trim()) {
+        report('invalid_activity', path, dayNumber ?? undefined);
+        return;
+      }
+
+      let time = typeof a.time === 'string' ? normalizeTime(a.time) : '';
+      if (time === null) {
+        report('invalid_time', [...path, 'time'], dayNumber ?? undefined);
+        time = '';
+      }
+
+      activities.push({ time, activity: a.activity.trim() });
+    });
+
+    // Times must be ascending
+    const sorted = sortActivities(activities);
+    if (sorted.some((a, i) => a !== activities[i])) {
+      report('unsorted_times', [index, 'activities'], dayNumber ?? undefined);
+    }
+
+    const day: ItineraryDay = { day: dayNumber ?? 0, activities: sorted };
+    if (entry.isFree === true) day.isFree = true;
+
+    if (dayNumber === null) {
+      report('invalid_day_number', [index, 'day']);
+      unnumbered.push(day);
+      return;
+    }
+
+    if (dayNumber < previousDay) daysUnsorted = true;
+    previousDay = Math.max(previousDay, dayNumber);
+
+    // Duplicate day numbers: merge into the first occurrence
+    const existing = byDay.get(dayNumber);
+    if (existing) {
+      report('duplicate_day', [index, 'day'], dayNumber);
+      existing.activities = sortActivities([...existing.activities, ...day.activities]);
+      if (!day.isFree) delete existing.isFree;
+      return;
+    }
+
+    byDay.set(dayNumber, day);
+  });
+
+  if (daysUnsorted) report('unsorted_days', []);
+
+  // Days without a valid number are appended after the highest day
+  let nextNumber = Math.max(0, ...byDay.keys()) + 1;
+  unnumbered.forEach((day) => {
+    day.day = nextNumber++;
+    byDay.set(day.day, day);
+  });
+
+  // Fill gaps (1..max, or 1..expectedDays when known)
+  const lastDay = Math.max(expectedDays ?? 0, ...byDay.keys(), 0);
+  for (let d = 1; d <= lastDay; d++) {
+    if (!byDay.has(d)) {
+      report('missing_day', [], d);
+      byDay.set(d, createFreeDay(d));
+    }
+  }
+
+  // Days beyond the declared trip length are reported, never dropped
+  if (expectedDays) {
+    Array.from(byDay.keys())
+      .filter((d) => d > expectedDays)
+      .forEach((d) => report('too_many_days', [], d, false));
+  }
+
+  const itinerary: Itinerary = Array.from(byDay.values())
+    .sort((a, b) => a.day - b.day)
+    .map((day) => {
+      if (day.activities.length > 0) return day;
+
+      // A day with nothing planned is shown as a free day
+      report('empty_day', [], day.day);
+      return createFreeDay(day.day);
+    });
+
+  return {
+    itinerary: repair || issues.length === 0 ? itinerary : [],
+    issues,
+    valid: issues.length === 0,
+  };
+}
+
+/* --------------------------------------------------------------------
+   EDITING HELPERS (components/ItineraryEditor.tsx)
+-------------------------------------------------------------------- */
+
+/**
+ * Blank day for the editor.
+ */
+export function createEmptyDay(day: number): ItineraryDay {
+  return { day, activities: [] };
+}
+
+/**
+ * Make day numbers match their position (1, 2, 3 ...).
+ */
+export function renumberDays(itinerary: Itinerary): Itinerary {
+  return itinerary.map((day, idx) => (day.day === idx + 1 ? day : { ...day, day: idx + 1 }));
+}
+
+/**
+ * Grow (blank days) or shrink (drop trailing days) to `days` days.
+ */
+export function resizeItinerary(itinerary: Itinerary, days: number): Itinerary {
+  if (days <= itinerary.length) return itinerary.slice(0, days);
+
+  const added = Array.from({ length: days - itinerary.length }, (_, i) =>
+    createEmptyDay(itinerary.length + i + 1)
+  );
+  return [...itinerary, ...added];
+}
+
+/**
+ * Turn an editor draft into the stored JSON shape (same as the seed SQL):
+ * - blank activity rows are dropped, text is trimmed
+ * - valid times are normalized ("9:00" → "09:00") and sorted
+ * - free days get the standard free-day activity
+ *
+ * Returns null when nothing was authored (itinerary is optional).
+ * Invalid times are kept as typed, so parseItinerary() can report them.
+ */
+export function finalizeItinerary(itinerary: Itinerary): Itinerary | null {
+  const days = renumberDays(itinerary).map((day): ItineraryDay => {
+    if (day.isFree) return createFreeDay(day.day);
+
+    const activities = day.activities
+      .filter((a) => a.activity.trim())
+      .map((a) => ({ time: normalizeTime(a.time) ?? a.time.trim(), activity: a.activity.trim() }));
+
+    return { day: day.day, activities: sortActivities(activities) };
+  });
+
+  const authored = days.some((d) => d.isFree || d.activities.length > 0);
+  return authored ? days : null;
+}
@@ -0,0 +1,77 @@
+/**
+ * ./utils/mentions.ts
+ *
+ * @mentions inside comment text ("@yonatan_rot איזה מלון זה?").
+ *
+ * What this module does:
+ * --------------------------------------------------------------------
+ * ✔ splitMentions(): cut a text into plain / mention segments, so
+ *   CommentsModal can render mentions as links to InfluencerScreen
+ * ✔ replyPrefix(): the "@username " a reply starts with
+ * ✔ isValidUsername(): names a profile may take, so each of them can
+ *   be mentioned (EditProfileScreen, supabase-add-avatars.sql)
+ *
+ * Rules:
+ * --------------------------------------------------------------------
+ * • A mention is "@" + letters, digits, "_" or "." (a trailing dot is
+ *   punctuation, not part of the name)
+ * • "@" glued to a word before it (an email address) is NOT a mention
+ * • Usernames are matched case-insensitively by the lookup
+ *   (profileService.getProfileByUsername)
+ *
+ * Example:
+ * splitMentions('שאלה ל-@dana.') →
+ *   [{ type: 'text', text: 'שאלה ל-' },
+ *    { type: 'mention', text: '@dana', username: 'dana' },
+ *    { type: 'text', text: '.' }]
+ */
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; username: string };
+
+// Not preceded by a word character (emails), name without trailing dots
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*)/g;
+
+export function splitMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    const username = match[2];
+
+    if (start > lastIndex) segments.push({ type: 'text', text: text.slice(lastIndex, start) });
+    segments.push({ type: 'mention', text: `@${username}`, username });
+    lastIndex = start + username.length + 1;
+  }
+
+  if (lastIndex < text.length) segments.push({ type: 'text', text: text.slice(lastIndex) });
+  return segments;
+}
+
+/**
+ * Text a reply input starts with, so the author being answered gets
+ * mentioned. Empty when the author has no username.
+ */
+export function replyPrefix(username: string | null | undefined): string {
+  return username ? `@${username} ` : '';
+}
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// The name part of MENTION_PATTERN, anchored
+const USERNAME_PATTERN = /^[A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*$/;
+
+/**
+ * Whether a profile may use this username: the whole name has to be
+ * picked up by splitMentions(), or @mentions of it would break.
+ */
+export function isValidUsername(username: string): boolean {
+  return (
+    username.length >= USERNAME_MIN_LENGTH &&
+    username.length <= USERNAME_MAX_LENGTH &&
+    USERNAME_PATTERN.test(username)
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * ./utils/money.ts
+ *
+ * Parsing + formatting for the money model (types/money.ts).
+ *
+ * Parsing (free text → Price):
+ * --------------------------------------------------------------------
+ * ✔ Currency from symbol, code or Hebrew name:
+ *      "₪", "ש״ח", "NIS" → ILS • "$", "דולר" → USD • "€", "יורו" → EUR
+ * ✔ Thousands separators: "3,500" / "3 500"; decimals: "99.90"
+ * ✔ Basis from keywords: "ללילה" / "per night" → per_night,
+ *   "לחבילה" / "per package" → per_package, otherwise per_person
+ * ✔ Used for the legacy `videos.price` strings (seed data) and for
+ *   the price field in AddVideoScreen
+ *
+ * Formatting (Price → text):
+ * --------------------------------------------------------------------
+ * ✔ Locale-aware via Intl.NumberFormat (he-IL by default)
+ * ✔ No ".00" on whole amounts
+ *
+ * Conversion (Money → other currency):
+ * --------------------------------------------------------------------
+ * ✔ convertMoney() through the table's base currency, rounded to
+ *   whole minor units. Loading / refreshing rates is
+ *   services/currencyService.ts's job.
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * parsePrice('₪3,500')            → { amountMinor: 350000, currency: 'ILS', basis: 'per_person' }
+ * formatPrice(parsePrice('$90 ללילה')!) → "90 $ ללילה"
+ */
+
+import { CurrencyCode, Money, Price, PriceBasis, RateTable } from '../types/money';
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'ILS';
+export const DEFAULT_BASIS: PriceBasis = 'per_person';
+export const DEFAULT_LOCALE = 'he-IL';
+
+export const CURRENCIES: CurrencyCode[] = ['ILS', 'USD', 'EUR', 'GBP'];
+
+// Digits after the decimal point (all supported currencies use 2)
+const MINOR_DIGITS: Record<CurrencyCode, number> = {
+  ILS: 2,
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+};
+
+// How each currency may be written, checked in order
+const CURRENCY_PATTERNS: [RegExp, CurrencyCode][] = [
+  [/₪|(?:^|[^א-ת])ש["״']?ח(?![א-ת])|שקל|\bnis\b|\bils\b/i, 'ILS'],
+  [/\$|דולר|\busd\b/i, 'USD'],
+  [/€|יורו|\beur\b/i, 'EUR'],
+  [/£|ליש"ט|\bgbp\b/i, 'GBP'],
+];
+
+const BASIS_PATTERNS: [RegExp, PriceBasis][] = [
+  [/ללילה|\/\s*לילה|per\s*night|\/\s*night/i, 'per_night'],
+  [/לחבילה|per\s*package|\/\s*package/i, 'per_package'],
+  [/לאדם|לנוסע|per\s*person|\/\s*person/i, 'per_person'],
+];
+
+export const BASIS_LABELS: Record<PriceBasis, string> = {
+  per_person: 'לאדם',
+  per_night: 'ללילה',
+  per_package: 'לחבילה',
+};
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (CURRENCIES as string[]).includes(value);
+}
+
+export function isPriceBasis(value: unknown): value is PriceBasis {
+  return value === 'per_person' || value === 'per_night' || value === 'per_package';
+}
+
+/**
+ * 3500.5 ILS → 350050
+ */
+export function toMinorUnits(amount: number, currency: CurrencyCode): number {
+  return Math.round(amount * 10 ** MINOR_DIGITS[currency]);
+}
+
+/**
+ * 350050 ILS → 3500.5
+ */
+export function fromMinorUnits(amountMinor: number, currency: CurrencyCode): number {
+  return amountMinor / 10 ** MINOR_DIGITS[currency];
+}
+
+/**
+ * Read a Price out of free text. Returns null when there is no
+ * positive amount in it. Currency / basis fall back to `defaults`.
+ */
+export function parsePrice(
+  raw: string,
+  defaults: { currency?: CurrencyCode; basis?: PriceBasis } = {}
+): Price | null {
+  const text = raw.trim();
+  if (!text) return null;
+
+  // "3,500" / "3 500" / "3500.90" (thousands separators only between digit groups)
+  const match = text.match(/\d{1,3}(?:[,\s]\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/);
+  if (!match) return null;
+
+  const amount = Number(match[0].replace(/[,\s]/g, ''));
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+
+  const currency =
+    CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ??
+    defaults.currency ??
+    DEFAULT_CURRENCY;
+
+  const basis =
+    BASIS_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ??
+    defaults.basis ??
+    DEFAULT_BASIS;
+
+  return { amountMinor: toMinorUnits(amount, currency), currency, basis };
+}
+
+/**
+ * Locale-aware amount + currency: "3,500 ₪" (he-IL), "$1,200.50" (en-US).
+ */
+export function formatMoney(money: Money, locale: string = DEFAULT_LOCALE): string {
+  const digits = MINOR_DIGITS[money.currency];
+  const whole = money.amountMinor % 10 ** digits === 0;
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: money.currency,
+    minimumFractionDigits: whole ? 0 : digits,
+    maximumFractionDigits: digits,
+  }).format(fromMinorUnits(money.amountMinor, money.currency));
+}
+
+/**
+ * Amount + basis: "3,500 ₪ לאדם".
+ */
+export function formatPrice(price: Price, locale: string = DEFAULT_LOCALE): string {
+  return `${formatMoney(price, locale)} ${BASIS_LABELS[price.basis]}`;
+}
+
+/**
+ * Sort helper: cheaper first. Different currencies are grouped by code
+ * (convertMoney() them first to compare across currencies).
+ */
+export function comparePrices(a: Money, b: Money): number {
+  if (a.currency !== b.currency) return a.currency.localeCompare(b.currency);
+  return a.amountMinor - b.amountMinor;
+}
+
+/**
+ * Convert through the table's base currency.
+ * Returns the input unchanged when it is already in `to`.
+ */
+export function convertMoney(money: Money, to: CurrencyCode, table: RateTable): Money {
+  if (money.currency === to) return money;
+
+  const inBase = fromMinorUnits(money.amountMinor, money.currency) / table.rates[money.currency];
+  return { amountMinor: toMinorUnits(inBase * table.rates[to], to), currency: to };
+}
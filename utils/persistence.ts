@@ -0,0 +1,119 @@
+/**
+ * ./utils/persistence.ts
+ *
+ * Platform-aware key/value persistence for Veeky.
+ *
+ * Purpose:
+ * --------------------------------------------------------------------
+ * Some app state must survive a reload (likes, saves, comments,
+ * offline queues). This file hides *where* that state is written so
+ * the rest of the app only deals with string keys and values.
+ *
+ * Backends:
+ * --------------------------------------------------------------------
+ * ✔ Web    → window.localStorage
+ * ✔ Native → AsyncStorage (file-backed key/value store)
+ * ✔ Memory → fallback when neither is available (SSR / static export)
+ *
+ * Design principles:
+ * --------------------------------------------------------------------
+ * • Every backend exposes the same async API, even localStorage,
+ *   so callers never branch on platform.
+ * • Backends never throw on read: a failed read is treated as "empty".
+ * • Values are plain strings; JSON encoding is the caller's job.
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * import { persistence } from '../utils/persistence';
+ *
+ * await persistence.setItem('veeky:key', JSON.stringify(value));
+ * const raw = await persistence.getItem('veeky:key');
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Minimal async key/value contract shared by all backends.
+ */
+export type PersistenceBackend = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+/**
+ * In-memory backend.
+ * Used when no persistent store exists (e.g. during static web export).
+ */
+export function createMemoryBackend(): PersistenceBackend {
+  const values = new Map<string, string>();
+
+  return {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+/**
+ * Web backend (localStorage).
+ * Wrapped in promises so it matches the native API.
+ */
+function createWebBackend(store: Storage): PersistenceBackend {
+  return {
+    getItem: async (key) => {
+      try {
+        return store.getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    setItem: async (key, value) => {
+      store.setItem(key, value);
+    },
+    removeItem: async (key) => {
+      store.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Native backend (AsyncStorage).
+ */
+function createNativeBackend(): PersistenceBackend {
+  return {
+    getItem: async (key) => {
+      try {
+        return await AsyncStorage.getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    setItem: (key, value) => AsyncStorage.setItem(key, value),
+    removeItem: (key) => AsyncStorage.removeItem(key),
+  };
+}
+
+/**
+ * Pick the best backend for the current platform.
+ */
+function resolveBackend(): PersistenceBackend {
+  if (Platform.OS === 'web') {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return createWebBackend(window.localStorage);
+    }
+    return createMemoryBackend();
+  }
+
+  return createNativeBackend();
+}
+
+/**
+ * Shared backend instance used across the app.
+ */
+export const persistence: PersistenceBackend = resolveBackend();
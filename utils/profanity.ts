@@ -0,0 +1,162 @@
+/**
+ * ./utils/profanity.ts
+ *
+ * Word lists + matching for the comment filter
+ * (services/commentModeration.ts).
+ *
+ * How text is matched:
+ * --------------------------------------------------------------------
+ * ✔ Same normalization as search (utils/searchNormalize.ts): niqqud,
+ *   final letters, accents and punctuation don't hide a word
+ * ✔ Common character swaps are undone: "sh1t", "a$$" → "shit", "ass"
+ *   (only in words that have a letter, so "455" stays a number)
+ * ✔ Hebrew one-letter prefixes are stripped: "והמניאק" → "מניאק"
+ * ✔ English words marked as stems also match longer forms
+ *   ("fuck" → "fucking"), short ones must match exactly ("ass" ≠ "class")
+ * ✔ Phrases match consecutive words ("בן זונה")
+ *
+ * The lists are a starting set; deployments can pass their own to
+ * createWordListFilter().
+ */
+
+import { normalizeSearchText } from './searchNormalize';
+
+export type WordList = {
+  words: string[];      // Whole words / phrases
+  stems?: string[];     // Also match words that start with these
+};
+
+export const ENGLISH_WORDS: WordList = {
+  words: ['ass', 'asshole', 'bastard', 'bitch', 'cunt', 'dick', 'slut', 'whore', 'retard'],
+  stems: ['fuck', 'shit', 'motherf', 'bullshit', 'dickhead', 'pussy', 'wank'],
+};
+
+export const HEBREW_WORDS: WordList = {
+  words: [
+    'זונה',
+    'שרמוטה',
+    'שרמוטות',
+    'מניאק',
+    'מניאקים',
+    'חרא',
+    'מזדיין',
+    'מזדיינת',
+    'זין',
+    'בן זונה',
+    'בת זונה',
+    'כוס אמק',
+    'כוסאמק',
+    'יא חתיכת חרא',
+    'מפגר',
+    'מפגרת',
+    'אידיוט',
+  ],
+};
+
+// Digits / symbols used to dodge filters → the letter they stand for
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+};
+
+// Any letter, in any script
+const LETTER = /\p{L}/u;
+
+// Hebrew one-letter prefixes (ו ה ש ב ל מ כ), up to two in a row
+const HEBREW_PREFIX = /^[והשבלמכ]/;
+
+// Shortest stem that may match the start of a longer word, and the
+// shortest word still matched after stripping a prefix ("מזין" is fine)
+const MIN_STEM_LENGTH = 4;
+
+function toTokens(text: string): string[] {
+  return normalizeSearchText(text).split(' ').filter(Boolean);
+}
+
+/**
+ * Normalized words of a text, with look-alike characters undone
+ * (applied per word, so "@dana" mentions stay out of it, and only to
+ * words with a letter, so prices and room numbers stay numbers).
+ */
+function textTokens(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .filter((word) => word && !word.startsWith('@'))
+    .flatMap((word) =>
+      toTokens(LETTER.test(word) ? word.replace(/[0-9@$!]/g, (c) => LOOKALIKES[c] ?? c) : word)
+    );
+}
+
+/**
+ * Ready-to-match form of the lists (normalized once).
+ */
+export type CompiledWordList = {
+  words: Set<string>;
+  phrases: string[][];
+  stems: string[];
+};
+
+export function compileWordLists(lists: WordList[]): CompiledWordList {
+  const compiled: CompiledWordList = { words: new Set(), phrases: [], stems: [] };
+
+  lists.forEach((list) => {
+    list.words.forEach((entry) => {
+      const tokens = toTokens(entry);
+      if (tokens.length === 1) compiled.words.add(tokens[0]);
+      else if (tokens.length > 1) compiled.phrases.push(tokens);
+    });
+    (list.stems ?? []).forEach((stem) => {
+      const [token] = toTokens(stem);
+      if (token && token.length >= MIN_STEM_LENGTH) compiled.stems.push(token);
+    });
+  });
+
+  return compiled;
+}
+
+/**
+ * The token itself plus its forms without one / two Hebrew prefixes
+ * ("והמניאק" → "המניאק", "מניאק").
+ */
+function withoutPrefixes(token: string): string[] {
+  const forms = [token];
+  let rest = token;
+  for (let i = 0; i < 2 && HEBREW_PREFIX.test(rest); i++) {
+    rest = rest.slice(1);
+    if (rest.length >= MIN_STEM_LENGTH) forms.push(rest);
+  }
+  return forms;
+}
+
+function matchesWord(token: string, list: CompiledWordList): boolean {
+  if (list.stems.some((stem) => token.startsWith(stem))) return true;
+  return withoutPrefixes(token).some((form) => list.words.has(form));
+}
+
+/**
+ * First listed word / phrase found in `text` (normalized), or null.
+ */
+export function findProfanity(text: string, list: CompiledWordList): string | null {
+  const tokens = textTokens(text);
+
+  const word = tokens.find((token) => matchesWord(token, list));
+  if (word) return word;
+
+  for (const phrase of list.phrases) {
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      const matched = phrase.every((part, j) =>
+        j === 0 ? withoutPrefixes(tokens[i]).includes(part) : tokens[i + j] === part
+      );
+      if (matched) return phrase.join(' ');
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,316 @@
+/**
+ * ./utils/searchNormalize.ts
+ *
+ * Search normalization + fuzzy matching for Hebrew / English content.
+ *
+ * Why this file exists:
+ * --------------------------------------------------------------------
+ * Plain trim + lowercase misses a lot of Hebrew matches:
+ * ✔ Niqqud / cantillation marks          "זוּגוֹת"  → "זוגות"
+ * ✔ Final letters (ך ם ן ף ץ)             "חופים"   → "חופימ" (on both sides)
+ * ✔ Geresh / gershayim variants          "צ׳ק" / "צ'ק" / "צ’ק" → "צ'ק"
+ * ✔ Latin accents                        "Zürich"  → "zurich"
+ * ✔ Place names typed in either script   "Santorini" ↔ "סנטוריני"
+ * ✔ Typos                                "סנטורני"  ≈ "סנטוריני"
+ *
+ * Client + server:
+ * --------------------------------------------------------------------
+ * • normalizeSearchText() is mirrored by the SQL function
+ *   normalize_search_text() (supabase-add-search.sql), which fills
+ *   the normalized search columns the server matches against.
+ *   KEEP THE TWO IN SYNC.
+ * • expandQuery() builds the normalized terms sent to the
+ *   `search_videos` RPC (query + transliterations).
+ * • rankVideos() orders results on the client with a
+ *   Damerau-Levenshtein based typo-tolerant score.
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * expandQuery('Santorini')       → ['santorini', 'סנטוריני']
+ * normalizeSearchText('צ׳ק-אין') → "צ'ק אינ"
+ */
+
+import { VideoData } from '../types/video';
+
+// Hebrew points (niqqud, dagesh, shin/sin dots) and cantillation marks.
+// Punctuation in the same block (maqaf, sof pasuq...) is handled separately.
+const HEBREW_MARKS = /[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g;
+
+// Latin combining accents (after NFD)
+const LATIN_MARKS = /[\u0300-\u036F]/g;
+
+const FINAL_LETTERS: Record<string, string> = {
+  'ך': 'כ',
+  'ם': 'מ',
+  'ן': 'נ',
+  'ף': 'פ',
+  'ץ': 'צ',
+};
+
+// Geresh (׳) and look-alikes → ASCII apostrophe
+const GERESH_VARIANTS = /[\u05F3\u2018\u2019`\u00B4]/g;
+
+// Gershayim (״) and look-alikes → ASCII double quote
+const GERSHAYIM_VARIANTS = /[\u05F4\u201C\u201D]/g;
+
+// Maqaf, dashes and other punctuation → space
+const SEPARATORS = /[\u05BE\u2010-\u2015\-_/\\,.;:!?()[\]{}|#]+/g;
+
+/**
+ * Place names that are commonly typed in either language.
+ * Each group lists equivalent spellings (any form, normalized on use).
+ */
+export const PLACE_NAMES: string[][] = [
+  ['santorini', 'סנטוריני'],
+  ['greece', 'יוון'],
+  ['athens', 'אתונה'],
+  ['dubai', 'דובאי'],
+  ['uae', 'איחוד האמירויות', 'אמירויות'],
+  ['barcelona', 'ברצלונה'],
+  ['spain', 'ספרד'],
+  ['madrid', 'מדריד'],
+  ['alps', 'swiss alps', 'האלפים', 'אלפים', 'הרי האלפים'],
+  ['switzerland', 'swiss', 'שוויץ', 'שווייץ'],
+  ['zurich', 'ציריך'],
+  ['interlaken', 'אינטרלקן'],
+  ['lucerne', 'luzern', 'לוצרן'],
+  ['paris', 'פריז'],
+  ['france', 'צרפת'],
+  ['london', 'לונדון'],
+  ['rome', 'רומא'],
+  ['italy', 'איטליה'],
+  ['amsterdam', 'אמסטרדם'],
+  ['new york', 'ניו יורק'],
+  ['thailand', 'תאילנד'],
+  ['bangkok', 'בנגקוק'],
+  ['japan', 'יפן'],
+  ['tokyo', 'טוקיו'],
+  ['cyprus', 'קפריסין'],
+  ['eilat', 'אילת'],
+  ['tel aviv', 'תל אביב'],
+  ['jerusalem', 'ירושלים'],
+];
+
+/**
+ * Canonical search form of a string (see the header for the rules).
+ */
+export function normalizeSearchText(input: string): string {
+  return input
+    .normalize('NFD')
+    .replace(HEBREW_MARKS, '')
+    .replace(LATIN_MARKS, '')
+    .toLowerCase()
+    .replace(/[ךםןףץ]/g, (ch) => FINAL_LETTERS[ch])
+    .replace(GERESH_VARIANTS, "'")
+    .replace(GERSHAYIM_VARIANTS, '"')
+    .replace(SEPARATORS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split normalized text into words.
+ */
+export function tokenize(input: string): string[] {
+  const normalized = normalizeSearchText(input);
+  return normalized ? normalized.split(' ') : [];
+}
+
+// One-letter Hebrew prefixes ("ב" + "סנטוריני" = "in Santorini")
+const HEBREW_PREFIXES = ['ו', 'ה', 'ב', 'ל', 'מ', 'ש', 'כ'];
+
+// Normalized place names with their group, longest first
+// (so "swiss alps" wins over "swiss")
+const NORMALIZED_PLACES = PLACE_NAMES.flatMap((group, groupIndex) =>
+  group.map((name) => ({ groupIndex, words: normalizeSearchText(name).split(' ') }))
+).sort((a, b) => b.words.join(' ').length - a.words.join(' ').length);
+
+const NORMALIZED_GROUPS = PLACE_NAMES.map((group) => group.map(normalizeSearchText));
+
+/**
+ * Index where `name` starts in `tokens` (first word may carry a
+ * Hebrew prefix letter), or -1.
+ */
+function findPlace(tokens: string[], name: string[]): number {
+  for (let i = 0; i + name.length <= tokens.length; i++) {
+    const first = tokens[i];
+    const firstMatches =
+      first === name[0] ||
+      (HEBREW_PREFIXES.includes(first[0]) && first.slice(1) === name[0]);
+
+    if (firstMatches && name.every((word, k) => k === 0 || tokens[i + k] === word)) return i;
+  }
+  return -1;
+}
+
+/**
+ * All normalized terms to look for: the query itself plus the
+ * other-language spelling of any place name it contains.
+ */
+export function expandQuery(query: string): string[] {
+  const normalized = normalizeSearchText(query);
+  if (!normalized) return [];
+
+  const tokens = normalized.split(' ');
+  const terms = new Set([normalized]);
+  const used = new Set<number>();      // token indexes already matched
+  const groups = new Set<number>();    // place groups already expanded
+
+  NORMALIZED_PLACES.forEach(({ groupIndex, words }) => {
+    if (groups.has(groupIndex)) return;
+
+    const start = findPlace(tokens, words);
+    if (start === -1) return;
+
+    const span = words.map((_, k) => start + k);
+    if (span.some((idx) => used.has(idx))) return;
+
+    span.forEach((idx) => used.add(idx));
+    groups.add(groupIndex);
+
+    const name = words.join(' ');
+    NORMALIZED_GROUPS[groupIndex].forEach((other) => {
+      if (other === name) return;
+      terms.add([...tokens.slice(0, start), other, ...tokens.slice(start + words.length)].join(' '));
+    });
+  });
+
+  return Array.from(terms);
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment variant):
+ * insertions, deletions, substitutions and adjacent transpositions.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  // Three rolling rows are enough for the transposition lookback
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+    }
+
+    prevPrev = prev;
+    prev = row;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * Typos allowed for a word of this length.
+ */
+function maxTypos(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * How well one normalized term matches one normalized text (0..1).
+ * - 1.0  exact text / phrase contained as-is
+ * - 0.9  every query word is a prefix of some text word
+ * - <0.8 every query word matches some text word within typo tolerance
+ * - 0    otherwise
+ */
+function termScore(term: string, text: string): number {
+  if (!term || !text) return 0;
+  if (text === term || text.includes(term)) return 1;
+
+  const words = text.split(' ');
+  const queryWords = term.split(' ');
+
+  if (queryWords.every((q) => words.some((w) => w.startsWith(q)))) return 0.9;
+
+  let typos = 0;
+  for (const q of queryWords) {
+    let best = Infinity;
+    for (const w of words) {
+      // Compare against the word (or its prefix, for partially typed words)
+      const d = Math.min(editDistance(q, w), editDistance(q, w.slice(0, q.length)));
+      best = Math.min(best, d);
+    }
+    if (best > maxTypos(q.length)) return 0;
+    typos += best;
+  }
+
+  return Math.max(0.1, 0.8 - typos * 0.15);
+}
+
+/**
+ * Best score of any query term against any of the given texts.
+ */
+export function matchScore(terms: string[], texts: string[]): number {
+  let best = 0;
+  for (const text of texts) {
+    const normalized = normalizeSearchText(text);
+    for (const term of terms) {
+      best = Math.max(best, termScore(term, normalized));
+      if (best === 1) return 1;
+    }
+  }
+  return best;
+}
+
+type SearchField = 'title' | 'location' | 'tags' | 'influencer';
+
+const MODE_FIELDS: Record<SearchField | 'all', SearchField[]> = {
+  all: ['title', 'location', 'tags', 'influencer'],
+  title: ['title'],
+  location: ['location'],
+  tags: ['tags'],
+  influencer: ['influencer'],
+};
+
+function fieldTexts(video: VideoData, field: SearchField): string[] {
+  switch (field) {
+    case 'title':
+      return [video.title];
+    case 'location':
+      return [video.location];
+    case 'tags':
+      return video.tags;
+    case 'influencer':
+      return [video.influencer.name, video.influencer.username ?? ''];
+  }
+}
+
+/**
+ * Relevance of a video for a query in a given search mode (0..1).
+ */
+export function scoreVideo(video: VideoData, terms: string[], mode: SearchField | 'all'): number {
+  const texts = MODE_FIELDS[mode].flatMap((field) => fieldTexts(video, field));
+  return matchScore(terms, texts);
+}
+
+/**
+ * Order videos by relevance (best first).
+ * Ties keep their incoming order (newest first from the server).
+ */
+export function rankVideos(
+  videos: VideoData[],
+  query: string,
+  mode: SearchField | 'all'
+): VideoData[] {
+  const terms = expandQuery(query);
+  if (terms.length === 0) return videos;
+
+  return videos
+    .map((video, index) => ({ video, index, score: scoreVideo(video, terms, mode) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((r) => r.video);
+}
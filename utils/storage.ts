@@ -1,37 +1,70 @@
 /**
  * ./utils/storage.ts
  *
- * Lightweight in-memory storage layer for Veeky.
+ * Lightweight persistent storage layer for Veeky.
  *
  * What this module is responsible for:
  * --------------------------------------------------------------------
  * ✔ Track which videos are:
  *    - Saved (bookmarked)
  *    - Liked (hearted)
- * ✔ Store comments for each video (per session, in memory only)
+ * ✔ Write every change through to a persistent backend
+ *   (localStorage on web, AsyncStorage on native — see persistence.ts)
+ * ✔ Load the stored state on startup and migrate old schema versions
  * ✔ Provide a simple synchronous API used by:
  *    - VideoItem
  *    - WebVideoFeed
- *    - CommentsModal
+ * ✔ Provide an async-aware variant (storageAsync) for callers that need
+ *   to wait for hydration or for a write to land on disk
+ * ✔ Notify subscribers on every change, so UI follows background
+ *   updates from the sync engine (services/syncService.ts)
  *
  * Important notes:
  * --------------------------------------------------------------------
- * • This implementation is **in-memory only**:
- *      - All data is reset when the app or page reloads.
- * • There is **no persistence** to AsyncStorage / localStorage.
- * • This is great for an MVP and development.
- *   Later you can swap the internals with a persistent solution
- *   while keeping the same method signatures.
+ * • Reads are always served from memory, so the sync API stays fast.
+ * • The in-memory state is hydrated once via storage.ready().
+ *   RootNavigator waits for it before mounting any screen.
+ * • The whole state is stored as ONE versioned JSON blob.
+ *   Bump STORAGE_VERSION and add a migration when the shape changes.
+ * • Comments used to be stored here too; they now live in Supabase
+ *   (services/commentService.ts) and v2 drops them from the blob.
  */
 
+import { persistence } from './persistence';
+
+/**
+ * Key under which the storage blob is persisted.
+ */
+const STORAGE_KEY = 'veeky:storage';
+
+/**
+ * Current schema version of the persisted blob.
+ */
+export const STORAGE_VERSION = 2;
+
 /**
- * Single comment structure used for video comments.
+ * Shape of the persisted blob (current version).
  */
-type Comment = {
-  id: string;        // Unique identifier for the comment
-  videoId: string;   // The video this comment belongs to
-  text: string;      // Comment text
-  timestamp: number; // Unix timestamp (ms) of when the comment was created
+type StoredState = {
+  version: number;
+  savedVideos: string[];
+  likedVideos: string[];
+};
+
+/**
+ * Schema migrations.
+ * --------------------------------------------------------------------
+ * migrations[n] upgrades a blob from version n to version n + 1.
+ * Blobs written before versioning existed are treated as version 0.
+ */
+const migrations: Record<number, (blob: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0 → v1: unversioned blob, same fields; just stamp the version
+  0: (blob) => ({ ...blob, version: 1 }),
+
+  // v1 → v2: local-only comments are gone. They were never synced and
+  // never recorded who wrote them (this blob is shared by every account
+  // on the device), so they can't be posted in anyone's name
+  1: ({ videoComments: _dropped, ...blob }) => ({ ...blob, version: 2 }),
 };
 
 /**
@@ -39,16 +72,179 @@ type Comment = {
  * --------------------------------------------------------------------
  * savedVideos  : which video IDs the user has saved
  * likedVideos  : which video IDs the user has liked
- * videoComments: mapping videoId → array of comments
  */
-let savedVideos: Set<string> = new Set();
-let likedVideos: Set<string> = new Set();
-let videoComments: Map<string, Comment[]> = new Map();
+const savedVideos: Set<string> = new Set();
+const likedVideos: Set<string> = new Set();
+
+/**
+ * Hydration + write bookkeeping.
+ * - readyPromise: memoized hydration, so ready() loads only once
+ * - writeChain  : serializes writes so they land in order
+ */
+let readyPromise: Promise<void> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+/**
+ * Change listeners (see storage.subscribe).
+ * Notified after every mutation, including background sync updates.
+ */
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Helpers to keep parsing defensive: anything unexpected is dropped.
+ */
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/**
+ * Run all migrations needed to bring a raw blob to STORAGE_VERSION.
+ *
+ * Returns null when the blob is unreadable or comes from a NEWER app
+ * version (we never guess at a schema we don't know).
+ */
+function migrate(raw: unknown): StoredState | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  let blob = raw as Record<string, unknown>;
+  let version = typeof blob.version === 'number' ? blob.version : 0;
+
+  if (version > STORAGE_VERSION) {
+    console.warn(`storage: blob version ${version} is newer than ${STORAGE_VERSION}, ignoring`);
+    return null;
+  }
+
+  while (version < STORAGE_VERSION) {
+    const step = migrations[version];
+    if (!step) return null;
+    blob = step(blob);
+    version += 1;
+  }
+
+  return {
+    version: STORAGE_VERSION,
+    savedVideos: toStringArray(blob.savedVideos),
+    likedVideos: toStringArray(blob.likedVideos),
+  };
+}
+
+/**
+ * Snapshot the in-memory state into the persisted shape.
+ */
+function serialize(): StoredState {
+  return {
+    version: STORAGE_VERSION,
+    savedVideos: Array.from(savedVideos),
+    likedVideos: Array.from(likedVideos),
+  };
+}
+
+/**
+ * Queue a write of the current state.
+ * Failures are logged, never thrown — the in-memory state stays valid.
+ */
+function persist(): Promise<void> {
+  writeChain = writeChain
+    .then(() => persistence.setItem(STORAGE_KEY, JSON.stringify(serialize())))
+    .catch((err) => console.error('storage: failed to persist', err));
+  return writeChain;
+}
+
+/**
+ * Persist the current state and notify subscribers.
+ * Every mutation goes through here.
+ */
+function commit(): void {
+  persist();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Add or remove an ID from a set. Returns true when something changed.
+ */
+function setMember(set: Set<string>, videoId: string, value: boolean): boolean {
+  if (set.has(videoId) === value) return false;
+  if (value) set.add(videoId);
+  else set.delete(videoId);
+  return true;
+}
+
+/**
+ * Replace the content of a set. Returns true when something changed.
+ */
+function replaceMembers(set: Set<string>, videoIds: string[]): boolean {
+  const next = new Set(videoIds);
+  const changed = next.size !== set.size || videoIds.some((id) => !set.has(id));
+  if (!changed) return false;
+
+  set.clear();
+  next.forEach((id) => set.add(id));
+  return true;
+}
+
+/**
+ * Load the persisted blob into memory.
+ *
+ * Anything changed in memory before hydration finished is kept:
+ * the sets are unioned.
+ */
+async function hydrate(): Promise<void> {
+  const raw = await persistence.getItem(STORAGE_KEY);
+  if (!raw) return;
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    console.error('storage: corrupted blob, starting fresh', err);
+  }
+
+  const state = migrate(parsed);
+  if (!state) return;
+
+  state.savedVideos.forEach((id) => savedVideos.add(id));
+  state.likedVideos.forEach((id) => likedVideos.add(id));
+
+  // Write back immediately so a migrated blob is stored in the new shape
+  if ((parsed as { version?: unknown }).version !== STORAGE_VERSION) {
+    await persist();
+  }
+
+  listeners.forEach((listener) => listener());
+}
 
 /**
  * Public storage API used across the app.
  */
 export const storage = {
+  /**
+   * Load persisted state (once). Safe to call many times.
+   */
+  ready: (): Promise<void> => {
+    if (!readyPromise) {
+      readyPromise = hydrate().catch((err) => {
+        console.error('storage: hydration failed', err);
+      });
+    }
+    return readyPromise;
+  },
+
+  /**
+   * Resolve once every queued write has reached the backend.
+   */
+  flush: (): Promise<void> => writeChain,
+
+  /**
+   * Listen for any change (local toggles, hydration, server sync).
+   * Returns an unsubscribe function, so it can be returned from useEffect.
+   */
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
   /**
    * Get all saved video IDs.
    * Used if you ever want to show a "Saved" list.
@@ -82,13 +278,24 @@ export const storage = {
    *  - false → video is now unsaved
    */
   toggleSave: (videoId: string): boolean => {
-    if (savedVideos.has(videoId)) {
-      savedVideos.delete(videoId);
-      return false;
-    } else {
-      savedVideos.add(videoId);
-      return true;
-    }
+    const saved = !savedVideos.has(videoId);
+    storage.setSaved(videoId, saved);
+    return saved;
+  },
+
+  /**
+   * Set save state explicitly (idempotent).
+   * Used by the sync engine when applying server state.
+   */
+  setSaved: (videoId: string, saved: boolean): void => {
+    if (setMember(savedVideos, videoId, saved)) commit();
+  },
+
+  /**
+   * Replace the whole saved set (e.g. after reconciling with the server).
+   */
+  replaceSaved: (videoIds: string[]): void => {
+    if (replaceMembers(savedVideos, videoIds)) commit();
   },
 
   /**
@@ -102,48 +309,68 @@ export const storage = {
    *  - false → video is now unliked
    */
   toggleLike: (videoId: string): boolean => {
-    if (likedVideos.has(videoId)) {
-      likedVideos.delete(videoId);
-      return false;
-    } else {
-      likedVideos.add(videoId);
-      return true;
-    }
+    const liked = !likedVideos.has(videoId);
+    storage.setLiked(videoId, liked);
+    return liked;
   },
 
   /**
-   * Get all comments for a specific video.
-   *
-   * Always returns an array (empty if there are no comments yet).
+   * Set like state explicitly (idempotent).
+   * Used by the sync engine when applying server state.
    */
-  getComments: (videoId: string): Comment[] => {
-    return videoComments.get(videoId) || [];
+  setLiked: (videoId: string, liked: boolean): void => {
+    if (setMember(likedVideos, videoId, liked)) commit();
   },
 
   /**
-   * Add a new comment to a video.
-   *
-   * - Creates a Comment object with:
-   *      • id        : timestamp-based ID (string)
-   *      • videoId   : the given videoId
-   *      • text      : comment text
-   *      • timestamp : current Date.now()
-   * - Appends it to the video’s existing comments array.
-   *
-   * Returns:
-   *  - The newly created Comment object.
+   * Replace the whole liked set (e.g. after reconciling with the server).
    */
-  addComment: (videoId: string, text: string): Comment => {
-    const comment: Comment = {
-      id: Date.now().toString(),
-      videoId,
-      text,
-      timestamp: Date.now(),
-    };
+  replaceLiked: (videoIds: string[]): void => {
+    if (replaceMembers(likedVideos, videoIds)) commit();
+  },
+};
+
+/**
+ * Async-aware variant of the storage API.
+ * --------------------------------------------------------------------
+ * Same method names as `storage`, but:
+ * - every call waits for hydration first
+ * - every mutation resolves only after the write reached the backend
+ *
+ * Use it outside render paths (services, background tasks, tests).
+ */
+export const storageAsync = {
+  getSavedVideos: async (): Promise<string[]> => {
+    await storage.ready();
+    return storage.getSavedVideos();
+  },
+
+  getLikedVideos: async (): Promise<string[]> => {
+    await storage.ready();
+    return storage.getLikedVideos();
+  },
+
+  isSaved: async (videoId: string): Promise<boolean> => {
+    await storage.ready();
+    return storage.isSaved(videoId);
+  },
 
-    const existing = videoComments.get(videoId) || [];
-    videoComments.set(videoId, [...existing, comment]);
+  isLiked: async (videoId: string): Promise<boolean> => {
+    await storage.ready();
+    return storage.isLiked(videoId);
+  },
+
+  toggleSave: async (videoId: string): Promise<boolean> => {
+    await storage.ready();
+    const saved = storage.toggleSave(videoId);
+    await storage.flush();
+    return saved;
+  },
 
-    return comment;
+  toggleLike: async (videoId: string): Promise<boolean> => {
+    await storage.ready();
+    const liked = storage.toggleLike(videoId);
+    await storage.flush();
+    return liked;
   },
 };
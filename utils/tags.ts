@@ -0,0 +1,39 @@
+/**
+ * ./utils/tags.ts
+ *
+ * Turns the free-text "tags" field of AddVideoScreen into a clean
+ * `string[]` for `videos.tags`.
+ *
+ * Rules:
+ * --------------------------------------------------------------------
+ * ✔ Separators: comma, Arabic comma (،), semicolon, new line
+ * ✔ Leading "#" is removed ("#יוון" → "יוון")
+ * ✔ Inner whitespace is collapsed, empty tags are dropped
+ * ✔ Duplicates are removed (case-insensitive, first one wins)
+ * ✔ At most MAX_TAGS tags of MAX_TAG_LENGTH characters
+ *
+ * Example:
+ * --------------------------------------------------------------------
+ * parseTags('יוון, #זוגות ,, ים') → ['יוון', 'זוגות', 'ים']
+ */
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export function parseTags(input: string): string[] {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+
+  for (const raw of input.split(/[,،;\n]/)) {
+    const tag = raw.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    const key = tag.toLowerCase();
+
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    tags.push(tag);
+
+    if (tags.length === MAX_TAGS) break;
+  }
+
+  return tags;
+}
@@ -0,0 +1,80 @@
+/**
+ * ./utils/videoMapper.ts
+ *
+ * Converts Supabase `videos` rows into the VideoData view model.
+ *
+ * Why this file exists:
+ * --------------------------------------------------------------------
+ * ✔ One place that knows the database column names
+ * ✔ Fills every optional column with a safe UI default, so screens
+ *   never have to null-check `profile`, `location`, `tags`...
+ * ✔ Keeps feeds (native + web), search and profile grids consistent
+ *
+ * Example usage:
+ * --------------------------------------------------------------------
+ * const rows = await videoService.getVideos(...);
+ * setVideos(rows.map(toVideoData));
+ */
+
+import { Video } from '../types/database';
+import { VideoData } from '../types/video';
+import { Price } from '../types/money';
+import { parseItinerary } from './itinerary';
+import { getThumbnailForLocation } from './thumbnails';
+import { isCurrencyCode, isPriceBasis, parsePrice } from './money';
+
+/**
+ * Fallback avatar when the author has no avatar_url.
+ */
+export const DEFAULT_AVATAR = '👤';
+
+/**
+ * Structured price columns when filled, otherwise the legacy
+ * free-text `price` (rows created before the money model).
+ */
+function priceFromRow(row: Video): Price | null {
+  if (row.price_amount_minor != null && isCurrencyCode(row.price_currency)) {
+    return {
+      amountMinor: row.price_amount_minor,
+      currency: row.price_currency,
+      basis: isPriceBasis(row.price_basis) ? row.price_basis : 'per_person',
+    };
+  }
+  return row.price ? parsePrice(row.price) : null;
+}
+
+/**
+ * Map one `videos` row (optionally joined with `profile`) to VideoData.
+ */
+export function toVideoData(row: Video): VideoData {
+  const profile = row.profile;
+  const location = row.location ?? '';
+  const { itinerary, issues } = parseItinerary(row.itinerary, { expectedDays: row.days });
+
+  return {
+    id: row.id,
+    uri: row.video_url,
+    thumbnail: row.thumbnail_url || getThumbnailForLocation(location),
+    category: row.category,
+    influencer: {
+      id: profile?.id ?? row.user_id,
+      name: profile?.full_name || profile?.username || 'Unknown',
+      username: profile?.username ?? null,
+      avatar: profile?.avatar_url || DEFAULT_AVATAR,
+      verified: profile?.verified ?? false,
+    },
+    title: row.title,
+    description: row.description,
+    location,
+    price: priceFromRow(row),
+    days: row.days,
+    itinerary,
+    itineraryIssues: issues,
+    tags: row.tags ?? [],
+    likes: row.likes_count ?? 0,
+    comments: row.comments_count ?? 0,
+    shares: row.shares_count ?? 0,
+    views: row.views_count ?? 0,
+    createdAt: row.created_at,
+  };
+}